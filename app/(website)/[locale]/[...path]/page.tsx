@@ -0,0 +1,10 @@
+import { notFound } from "next/navigation";
+
+/**
+ * Catch-All Page
+ * Unknown website paths are rewritten under /[locale] by the proxy too; this
+ * sends them to the localized not-found page inside the site layout.
+ */
+export default function CatchAllPage() {
+  notFound();
+}
@@ -9,6 +9,8 @@ export const dynamic = "force-dynamic";
 
 import { SectionVisualElements } from "@/components/VisualElements";
 import { client } from "@/lib/sanity/client";
+import { getPageLanguage, type LocalePageProps } from "@/lib/i18n/server";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 import {
   teamMembersQuery,
   timelineQuery,
@@ -269,7 +271,9 @@ const DEFAULT_META = {
     "Learn about Divyansh International - our story, mission, vision, and the team behind premium quality dry fruits and nuts exports since 1999.",
 } as const;
 
-export async function generateMetadata(): Promise<Metadata> {
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+  const language = await getPageLanguage(params);
+
   try {
     const siteSettings = await client.fetch(siteSettingsQuery);
     const validatedSettings = siteSettingsSchema.safeParse(siteSettings);
@@ -295,9 +299,7 @@ export async function generateMetadata(): Promise<Metadata> {
         title: pageTitle,
         description: pageDescription,
       },
-      alternates: {
-        canonical: seo?.siteUrl ? `${seo.siteUrl}/about` : undefined,
-      },
+      alternates: getLocaleAlternates("/about", language, seo?.siteUrl),
     };
   } catch (error) {
     // Graceful fallback on fetch failure
@@ -1,7 +1,9 @@
 import type { Metadata } from "next";
 import CatalogueViewer from "@/components/CatalogueViewer";
 import { client } from "@/lib/sanity/client";
-import { productsQuery, siteSettingsQuery } from "@/lib/sanity/queries";
+import { getPageLanguage, type LocalePageProps } from "@/lib/i18n/server";
+import { catalogueSettingsQuery, productsQuery, siteSettingsQuery } from "@/lib/sanity/queries";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 import type { Product } from "@/sanity.types";
 
 export const revalidate = 60;
@@ -12,7 +14,9 @@ const DEFAULT_META = {
     "Browse our interactive product catalogue featuring premium quality dry fruits, nuts, and specialty products.",
 } as const;
 
-export async function generateMetadata(): Promise<Metadata> {
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+  const language = await getPageLanguage(params);
+
   try {
     const siteSettings = await client.fetch(siteSettingsQuery);
 
@@ -27,6 +31,7 @@ export async function generateMetadata(): Promise<Metadata> {
         description: DEFAULT_META.description,
         type: "website",
       },
+      alternates: getLocaleAlternates("/catalogue", language, siteSettings?.seo?.siteUrl),
     };
   } catch {
     return {
@@ -37,7 +42,11 @@ export async function generateMetadata(): Promise<Metadata> {
 }
 
 export default async function CataloguePage() {
-  const products: Product[] = await client.fetch(productsQuery);
+  const [products, catalogueSettings]: [Product[], { isActive?: boolean | null } | null] =
+    await Promise.all([client.fetch(productsQuery), client.fetch(catalogueSettingsQuery)]);
+
+  // The print catalogue is generated from the same products as the flipbook
+  const pdfUrl = catalogueSettings?.isActive === false ? undefined : "/catalogue/catalogue.pdf";
 
-  return <CatalogueViewer products={products} />;
+  return <CatalogueViewer products={products} pdfUrl={pdfUrl} />;
 }
@@ -7,6 +7,8 @@ import { VideoShowcaseSchema } from "@/components/ui/video-showcase-schema";
 import type { ContentBannerData } from "@/components/ui/ContentBanner";
 import { client } from "@/lib/sanity/client";
 import { communityQuery, siteSettingsQuery } from "@/lib/sanity/queries";
+import { getPageLanguage, type LocalePageProps } from "@/lib/i18n/server";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
@@ -238,7 +240,9 @@ const DEFAULT_META = {
     "Learn about our community initiatives, CSR programs, and trade events. Divyansh International is committed to sustainable practices and community development.",
 } as const;
 
-export async function generateMetadata(): Promise<Metadata> {
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+  const language = await getPageLanguage(params);
+
   try {
     const rawSiteSettings = await client.fetch(siteSettingsQuery);
     const siteSettingsResult = siteSettingsSchema.safeParse(rawSiteSettings);
@@ -265,9 +269,7 @@ export async function generateMetadata(): Promise<Metadata> {
         title: pageTitle,
         description: pageDescription,
       },
-      alternates: {
-        canonical: seo?.siteUrl ? `${seo.siteUrl}/community` : undefined,
-      },
+      alternates: getLocaleAlternates("/community", language, seo?.siteUrl),
     };
   } catch (error: unknown) {
     if (process.env.NODE_ENV === "development") {
@@ -5,6 +5,8 @@ import ContactContent from "@/components/pages/ContactContent";
 import { SectionVisualElements } from "@/components/VisualElements";
 import { client } from "@/lib/sanity/client";
 import { contactPageQuery, siteSettingsQuery, productListQuery } from "@/lib/sanity/queries";
+import { getPageLanguage, type LocalePageProps } from "@/lib/i18n/server";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
@@ -118,7 +120,9 @@ const DEFAULT_META = {
     "Get in touch with Divyansh International for premium dry fruits and nuts. Contact us for trade enquiries, bulk orders, and general information.",
 } as const;
 
-export async function generateMetadata(): Promise<Metadata> {
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+  const language = await getPageLanguage(params);
+
   try {
     const [rawContactPage, rawSiteSettings] = await Promise.all([
       client.fetch(contactPageQuery),
@@ -155,9 +159,7 @@ export async function generateMetadata(): Promise<Metadata> {
         title: pageTitle,
         description: pageDescription,
       },
-      alternates: {
-        canonical: seo?.siteUrl ? `${seo.siteUrl}/contact` : undefined,
-      },
+      alternates: getLocaleAlternates("/contact", language, seo?.siteUrl),
     };
   } catch (error: unknown) {
     if (process.env.NODE_ENV === "development") {
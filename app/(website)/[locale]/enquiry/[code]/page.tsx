@@ -0,0 +1,87 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { z } from "zod";
+
+import SharedEnquiryContent from "@/components/pages/SharedEnquiryContent";
+import { client } from "@/lib/sanity/client";
+import { siteSettingsQuery } from "@/lib/sanity/queries";
+import { getSharedEnquiry } from "@/lib/shared-enquiry";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// Runtime validation for Sanity CMS data
+// =============================================================================
+
+/**
+ * Site settings schema for the shared list labels
+ */
+const siteSettingsSchema = z
+  .object({
+    enquiry: z
+      .object({
+        gradeLabel: z.string().optional(),
+        packFormatLabel: z.string().optional(),
+        quantityLabel: z.string().optional(),
+        notesLabel: z.string().optional(),
+        sharedList: z.record(z.string(), z.string()).optional(),
+      })
+      .passthrough()
+      .nullish(),
+  })
+  .passthrough()
+  .nullable();
+
+// =============================================================================
+// METADATA CONFIGURATION
+// Shared lists are private snapshots and must never be indexed
+// =============================================================================
+
+export const metadata: Metadata = {
+  title: "Shared Enquiry List | Divyansh International",
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+// =============================================================================
+// DATA FETCHING WITH VALIDATION
+// =============================================================================
+
+async function getLabels() {
+  try {
+    const rawSiteSettings: unknown = await client.fetch(siteSettingsQuery);
+    const result = siteSettingsSchema.safeParse(rawSiteSettings);
+
+    if (!result.success && process.env.NODE_ENV === "development") {
+      console.warn("[Shared Enquiry Page] Site settings validation failed:", result.error.issues);
+    }
+
+    const enquiry = result.success ? result.data?.enquiry : null;
+    return {
+      ...enquiry?.sharedList,
+      grade: enquiry?.gradeLabel,
+      packFormat: enquiry?.packFormatLabel,
+      quantity: enquiry?.quantityLabel,
+      notes: enquiry?.notesLabel,
+    };
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[Shared Enquiry Page] Failed to fetch labels:", error);
+    }
+    return {};
+  }
+}
+
+// =============================================================================
+// PAGE COMPONENT (SERVER COMPONENT)
+// =============================================================================
+
+export default async function SharedEnquiryPage({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+  const [items, labels] = await Promise.all([getSharedEnquiry(code), getLabels()]);
+
+  if (!items) notFound();
+
+  return <SharedEnquiryContent items={items} labels={labels} />;
+}
@@ -1,13 +1,20 @@
 import { type Metadata } from "next";
 import { sanityFetch } from "@/lib/sanity/client";
 import { galleryQuery } from "@/lib/sanity/queries";
+import { getPageLanguage, type LocalePageProps } from "@/lib/i18n/server";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 import GalleryContent from "@/components/pages/GalleryContent";
 
-export const metadata: Metadata = {
-  title: "Gallery | Divyansh International",
-  description:
-    "Explore our collection of images showcasing our facility, products, and community events.",
-};
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+  const language = await getPageLanguage(params);
+
+  return {
+    title: "Gallery | Divyansh International",
+    description:
+      "Explore our collection of images showcasing our facility, products, and community events.",
+    alternates: getLocaleAlternates("/gallery", language),
+  };
+}
 
 // basic type for now to avoid 'any', ideally imported from a generated type file
 type GalleryImage = {
@@ -1,6 +1,17 @@
-import type { Metadata } from "next";
+/**
+ * Website Root Layout
+ * Provides the HTML structure, fonts, language context and site chrome for
+ * every website page. The locale segment is filled in by the proxy, so each
+ * language is rendered (and cached) as its own static route.
+ */
+
+import type { Metadata, Viewport } from "next";
+import { notFound } from "next/navigation";
 import { z } from "zod";
 
+import "@/app/globals.css";
+import { inter, manrope } from "@/app/fonts";
+import SmoothScrolling from "@/components/SmoothScrolling";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import FloatingActionButton from "@/components/FloatingActionButton";
@@ -11,6 +22,9 @@ import GA4 from "@/components/analytics/GA4";
 import ThemeToggle from "@/components/ThemeToggle";
 import StructuredData from "@/components/seo/StructuredData";
 import ToastContainer from "@/components/ui/Toast";
+import { LanguageProvider } from "@/context/LanguageContext";
+import { getDirection, isLanguage, LANGUAGES } from "@/lib/i18n";
+import { getMessageOverrides, type LocalePageProps } from "@/lib/i18n/server";
 import { client } from "@/lib/sanity/client";
 import {
   footerQuery,
@@ -104,6 +118,37 @@ const DEFAULT_META = {
     "Leading exporter and supplier of premium quality dry fruits, nuts, and specialty products. Quality sourcing from trusted suppliers worldwide.",
 } as const;
 
+/**
+ * Site-wide metadata that does not come from the CMS
+ */
+const BASE_METADATA = {
+  other: {
+    "screen-orientation": "portrait",
+    orientation: "portrait",
+  },
+  icons: {
+    icon: "/favicon.png",
+    apple: "/favicon.png",
+  },
+  formatDetection: {
+    telephone: true,
+    email: true,
+    address: true,
+  },
+} satisfies Metadata;
+
+export const viewport: Viewport = {
+  width: "device-width",
+  initialScale: 1,
+  maximumScale: 5,
+  userScalable: true,
+  viewportFit: "cover",
+  themeColor: [
+    { media: "(prefers-color-scheme: light)", color: "#fffcf7" },
+    { media: "(prefers-color-scheme: dark)", color: "#3e2f23" },
+  ],
+};
+
 export async function generateMetadata(): Promise<Metadata> {
   try {
     const rawSettings = await client.fetch(siteSettingsQuery);
@@ -114,6 +159,7 @@ export async function generateMetadata(): Promise<Metadata> {
         console.warn("[Layout] Site settings validation failed:", result.error.issues);
       }
       return {
+        ...BASE_METADATA,
         metadataBase: new URL(DEFAULT_META.siteUrl),
         title: DEFAULT_META.title,
         description: DEFAULT_META.description,
@@ -126,6 +172,7 @@ export async function generateMetadata(): Promise<Metadata> {
     const description = seo?.metaDescription ?? DEFAULT_META.description;
 
     return {
+      ...BASE_METADATA,
       metadataBase: new URL(siteUrl),
       title,
       description,
@@ -146,6 +193,7 @@ export async function generateMetadata(): Promise<Metadata> {
       console.error("[Layout] Metadata fetch failed:", error);
     }
     return {
+      ...BASE_METADATA,
       metadataBase: new URL(DEFAULT_META.siteUrl),
       title: DEFAULT_META.title,
       description: DEFAULT_META.description,
@@ -214,50 +262,76 @@ async function getLayoutData() {
   }
 }
 
+// =============================================================================
+// STATIC PARAMS GENERATION
+// Pre-renders every page once per language
+// =============================================================================
+
+export function generateStaticParams() {
+  return LANGUAGES.map((locale) => ({ locale }));
+}
+
 // =============================================================================
 // LAYOUT COMPONENT
 // =============================================================================
 
-export default async function WebsiteLayout({
-  children,
-}: Readonly<{
+interface WebsiteLayoutProps extends LocalePageProps {
   children: React.ReactNode;
-}>) {
-  const { headerData, footerData, productsData, siteSettings } = await getLayoutData();
+}
+
+export default async function WebsiteLayout({ children, params }: Readonly<WebsiteLayoutProps>) {
+  const { locale } = await params;
+  if (!isLanguage(locale)) notFound();
+
+  const [{ headerData, footerData, productsData, siteSettings }, messageOverrides] =
+    await Promise.all([getLayoutData(), getMessageOverrides()]);
 
   // Derive logo URL safely
   const logoUrl = siteSettings?.seo?.siteUrl ? `${siteSettings.seo.siteUrl}/Logo.png` : "/Logo.png";
 
   return (
-    <>
-      <StructuredData
-        organization={{
-          ...siteSettings?.organization,
-          logoUrl,
-        }}
-      />
-      <GA4 />
-      <SkipLink labels={siteSettings?.accessibility} />
-      <ThemeToggle labels={siteSettings?.themeToggle} />
-      <ToastContainer />
-      <Header initialHeader={headerData} products={productsData} siteSettings={siteSettings} />
-      <main id="main-content">{children}</main>
-      <Footer
-        initialFooter={footerData}
-        labels={siteSettings?.footer}
-        accessibility={siteSettings?.accessibility}
-        products={productsData}
-        siteSettings={siteSettings}
-      />
-      <EnquiryBuilder labels={siteSettings?.enquiry} />
-      <FloatingEnquiryBar
-        labels={siteSettings?.enquiry?.floatingBar}
-        whatsappNumber={siteSettings?.whatsapp?.phoneNumber}
-      />
-      <FloatingActionButton
-        whatsappNumber={siteSettings?.whatsapp?.phoneNumber}
-        whatsappMessage={siteSettings?.whatsapp?.messageTemplate}
-      />
-    </>
+    <html
+      lang={locale}
+      dir={getDirection(locale)}
+      className={`hydrated ${inter.variable} ${manrope.variable}`}
+      suppressHydrationWarning
+      data-scroll-behavior="smooth"
+    >
+      <body className="antialiased">
+        <LanguageProvider initialLanguage={locale} overrides={messageOverrides}>
+          <SmoothScrolling>
+            <StructuredData
+              organization={{
+                ...siteSettings?.organization,
+                logoUrl,
+              }}
+            />
+            <GA4 />
+            <SkipLink labels={siteSettings?.accessibility} />
+            <ThemeToggle labels={siteSettings?.themeToggle} />
+            <ToastContainer />
+            <Header
+              initialHeader={headerData}
+              products={productsData}
+              siteSettings={siteSettings}
+            />
+            <main id="main-content">{children}</main>
+            <Footer
+              initialFooter={footerData}
+              labels={siteSettings?.footer}
+              accessibility={siteSettings?.accessibility}
+              products={productsData}
+              siteSettings={siteSettings}
+            />
+            <EnquiryBuilder />
+            <FloatingEnquiryBar whatsappNumber={siteSettings?.whatsapp?.phoneNumber} />
+            <FloatingActionButton
+              whatsappNumber={siteSettings?.whatsapp?.phoneNumber}
+              whatsappMessage={siteSettings?.whatsapp?.messageTemplate}
+            />
+          </SmoothScrolling>
+        </LanguageProvider>
+      </body>
+    </html>
   );
 }
@@ -1,3 +1,4 @@
+import type { Metadata } from "next";
 import Script from "next/script";
 import { z } from "zod";
 
@@ -14,6 +15,8 @@ import ProcessFlowSection from "@/components/sections/ProcessFlowSection";
 import SpiralQuote from "@/components/SpiralQuote";
 import AnimationWrapper from "@/components/ui/AnimationWrapper";
 import { HeroVisualElements } from "@/components/VisualElements";
+import { getPageLanguage, type LocalePageProps } from "@/lib/i18n/server";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 import { generateOrganizationSchema, generateWebSiteSchema } from "@/lib/seo/schema";
 
 import { client } from "@/lib/sanity/client";
@@ -91,6 +94,19 @@ const DEFAULTS = {
   siteUrl: "https://divyanshint.com",
 } as const;
 
+// =============================================================================
+// METADATA CONFIGURATION
+// Title and description come from the website layout; URLs resolve against its metadataBase
+// =============================================================================
+
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+  const language = await getPageLanguage(params);
+
+  return {
+    alternates: getLocaleAlternates("/", language),
+  };
+}
+
 // =============================================================================
 // DATA FETCHING WITH VALIDATION
 // =============================================================================
@@ -4,6 +4,8 @@ import { z } from "zod";
 import PrivacyPolicyContent from "@/components/pages/PrivacyPolicyContent";
 import { client } from "@/lib/sanity/client";
 import { privacyPolicyQuery, siteSettingsQuery } from "@/lib/sanity/queries";
+import { getPageLanguage, type LocalePageProps } from "@/lib/i18n/server";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
@@ -90,7 +92,9 @@ const DEFAULT_META = {
     "Privacy Policy for Divyansh International. Learn how we collect, use, and protect your information.",
 } as const;
 
-export async function generateMetadata(): Promise<Metadata> {
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+  const language = await getPageLanguage(params);
+
   try {
     const [rawPrivacyPolicy, rawSiteSettings] = await Promise.all([
       client.fetch(privacyPolicyQuery),
@@ -125,9 +129,7 @@ export async function generateMetadata(): Promise<Metadata> {
         title: pageTitle,
         description: DEFAULT_META.description,
       },
-      alternates: {
-        canonical: seo?.siteUrl ? `${seo.siteUrl}/privacy-policy` : undefined,
-      },
+      alternates: getLocaleAlternates("/privacy-policy", language, seo?.siteUrl),
       robots: {
         index: true,
         follow: true,
@@ -4,8 +4,9 @@ import { z } from "zod";
 
 import ProductDetail from "@/components/ProductDetail";
 import { client } from "@/lib/sanity/client";
-import { getLocalized } from "@/lib/i18n";
+import { getLocalized, languageSchema } from "@/lib/i18n";
 import { productBySlugQuery, productListQuery, siteSettingsQuery } from "@/lib/sanity/queries";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
@@ -113,7 +114,7 @@ const siteSettingsSchema = z
 // =============================================================================
 
 interface ProductPageProps {
-  params: Promise<{ slug: string }>;
+  params: Promise<{ locale: string; slug: string }>;
 }
 
 // =============================================================================
@@ -189,7 +190,8 @@ async function getProduct(slug: string) {
 // =============================================================================
 
 export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
-  const { slug } = await params;
+  const { locale, slug } = await params;
+  const language = languageSchema.parse(locale);
   const { product, siteSettings } = await getProduct(slug);
 
   // Product not found - return minimal metadata
@@ -199,9 +201,9 @@ export async function generateMetadata({ params }: ProductPageProps): Promise<Me
     };
   }
 
-  const productTitle = getLocalized(product.title, "en") || "Product";
+  const productTitle = getLocalized(product.title, language) || "Product";
   const productDescription =
-    getLocalized(product.description, "en") ||
+    getLocalized(product.description, language) ||
     `Premium quality ${productTitle} from Divyansh International`;
 
   const seo = siteSettings?.seo;
@@ -223,9 +225,7 @@ export async function generateMetadata({ params }: ProductPageProps): Promise<Me
       title: fullTitle,
       description: productDescription,
     },
-    alternates: {
-      canonical: seo?.siteUrl ? `${seo.siteUrl}/products/${slug}` : undefined,
-    },
+    alternates: getLocaleAlternates(`/products/${slug}`, language, seo?.siteUrl),
   };
 }
 
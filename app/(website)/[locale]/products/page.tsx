@@ -4,6 +4,9 @@ import { z } from "zod";
 import ProductShowcase from "@/components/sections/ProductShowcase";
 import { client } from "@/lib/sanity/client";
 import { productsQuery, productsPageQuery, siteSettingsQuery } from "@/lib/sanity/queries";
+import { parseProductFilters } from "@/lib/utils/product-filters";
+import { getPageLanguage, type LocalePageProps } from "@/lib/i18n/server";
+import { getLocaleAlternates } from "@/lib/seo/metadata";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
@@ -92,7 +95,9 @@ const DEFAULT_META = {
     "Explore our premium range of dry fruits, nuts, and specialty products. Quality sourcing from trusted suppliers worldwide.",
 } as const;
 
-export async function generateMetadata(): Promise<Metadata> {
+export async function generateMetadata({ params }: LocalePageProps): Promise<Metadata> {
+  const language = await getPageLanguage(params);
+
   try {
     const [rawPageData, rawSiteSettings] = await Promise.all([
       client.fetch(productsPageQuery),
@@ -129,9 +134,7 @@ export async function generateMetadata(): Promise<Metadata> {
         title: pageTitle,
         description: pageDescription,
       },
-      alternates: {
-        canonical: seo?.siteUrl ? `${seo.siteUrl}/products` : undefined,
-      },
+      alternates: getLocaleAlternates("/products", language, seo?.siteUrl),
     };
   } catch (error: unknown) {
     if (process.env.NODE_ENV === "development") {
@@ -199,8 +202,17 @@ async function getData() {
 // PAGE COMPONENT (SERVER COMPONENT)
 // =============================================================================
 
-export default async function ProductsPage() {
-  const { products, pageData, siteSettings } = await getData();
+interface ProductsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function ProductsPage({ searchParams }: ProductsPageProps) {
+  const [{ products, pageData, siteSettings }, params] = await Promise.all([
+    getData(),
+    searchParams,
+  ]);
+  // Filters render on the server too, so a shared link shows the same view before hydration
+  const filters = parseProductFilters(params);
 
   return (
     <div className="pt-[72px] md:pt-24 min-h-screen bg-background relative overflow-hidden">
@@ -208,6 +220,7 @@ export default async function ProductsPage() {
         initialProducts={products}
         headerData={pageData}
         siteSettings={siteSettings}
+        filters={filters}
       />
     </div>
   );
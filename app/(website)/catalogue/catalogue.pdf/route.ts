@@ -0,0 +1,97 @@
+import { unstable_cache } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import type { Language } from "@/context/LanguageContext";
+import { languageSchema } from "@/lib/i18n";
+import { renderCataloguePdf } from "@/lib/pdf/catalogue";
+import { pdfProductSchema, type PdfProduct } from "@/lib/pdf/product";
+import { getPdfSettings } from "@/lib/pdf/settings";
+import { client } from "@/lib/sanity/client";
+import { catalogueSettingsQuery, productsQuery } from "@/lib/sanity/queries";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const catalogueSettingsSchema = z
+  .object({
+    isActive: z.boolean().nullish(),
+    version: z.string().nullish(),
+  })
+  .nullable();
+
+// =============================================================================
+// CACHED GENERATION
+// =============================================================================
+
+/**
+ * The catalogue is cached per language until the revalidate webhook clears
+ * the "cataloguePdf" tag (product, catalogue or settings edits). The PDF is
+ * stored as base64 because the cache only holds JSON.
+ */
+const getCatalogue = unstable_cache(
+  async (language: Language, siteUrl: string) => {
+    const [rawSettings, rawProducts] = await Promise.all([
+      client.fetch(catalogueSettingsQuery),
+      client.fetch<unknown[]>(productsQuery),
+    ]);
+
+    const catalogue = catalogueSettingsSchema.parse(rawSettings);
+    if (catalogue?.isActive === false) return null;
+
+    // Same products, in the same order, as the flipbook; invalid ones are left out
+    const products = (rawProducts ?? []).flatMap((rawProduct): PdfProduct[] => {
+      const result = pdfProductSchema.safeParse(rawProduct);
+      if (!result.success && process.env.NODE_ENV === "development") {
+        console.warn("[Catalogue PDF] Product validation failed:", result.error.issues);
+      }
+      return result.success ? [result.data] : [];
+    });
+
+    const { buffer, filename } = await renderCataloguePdf(products, {
+      settings: await getPdfSettings(),
+      language,
+      edition: catalogue?.version ?? undefined,
+      siteUrl,
+    });
+    return { pdf: buffer.toString("base64"), filename };
+  },
+  ["catalogue-pdf"],
+  { tags: ["cataloguePdf"], revalidate: 60 * 60 * 24 }
+);
+
+// =============================================================================
+// ROUTE HANDLER
+// =============================================================================
+
+/**
+ * Serves the print catalogue generated from live product data.
+ * Usage: /catalogue/catalogue.pdf?lang=fr
+ */
+export async function GET(request: NextRequest) {
+  const language = languageSchema.parse(request.nextUrl.searchParams.get("lang") ?? undefined);
+
+  try {
+    const catalogue = await getCatalogue(language, request.nextUrl.origin);
+
+    if (!catalogue) {
+      return NextResponse.json(
+        { success: false, error: "Catalogue not available" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(Buffer.from(catalogue.pdf, "base64")), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${catalogue.filename}"`,
+      },
+    });
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[Catalogue PDF] Generation error:", error);
+    }
+    return NextResponse.json({ success: false, error: "Failed to generate PDF" }, { status: 500 });
+  }
+}
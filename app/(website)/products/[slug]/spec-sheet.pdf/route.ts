@@ -0,0 +1,83 @@
+import { unstable_cache } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+
+import type { Language } from "@/context/LanguageContext";
+import { languageSchema } from "@/lib/i18n";
+import { pdfProductSchema } from "@/lib/pdf/product";
+import { getPdfSettings } from "@/lib/pdf/settings";
+import { renderSpecSheetPdf } from "@/lib/pdf/spec-sheet";
+import { client } from "@/lib/sanity/client";
+import { productBySlugQuery } from "@/lib/sanity/queries";
+
+// =============================================================================
+// CACHED GENERATION
+// =============================================================================
+
+/**
+ * Generated spec sheets are cached per product and language until the
+ * revalidate webhook clears the "specSheets" tag (product or settings edits).
+ * The PDF is stored as base64 because the cache only holds JSON.
+ */
+const getSpecSheet = unstable_cache(
+  async (slug: string, language: Language) => {
+    const result = pdfProductSchema.nullable().safeParse(
+      await client.fetch(productBySlugQuery, { slug })
+    );
+    if (!result.success) {
+      // Thrown rather than returned so an invalid document is not cached
+      throw new Error(`Invalid product "${slug}": ${result.error.message}`);
+    }
+
+    const product = result.data;
+    if (!product) return null;
+
+    // An uploaded spec sheet always wins over the generated one
+    if (product.specSheetPDF) return { uploadedUrl: product.specSheetPDF };
+
+    const { buffer, filename } = await renderSpecSheetPdf(product, {
+      settings: await getPdfSettings(),
+      language,
+    });
+    return { pdf: buffer.toString("base64"), filename };
+  },
+  ["product-spec-sheet"],
+  { tags: ["specSheets"], revalidate: 60 * 60 * 24 }
+);
+
+// =============================================================================
+// ROUTE HANDLER
+// =============================================================================
+
+/**
+ * Serves a product's spec sheet: the uploaded PDF when there is one,
+ * otherwise a sheet generated from the product's CMS content.
+ * Usage: /products/<slug>/spec-sheet.pdf?lang=fr
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const language = languageSchema.parse(request.nextUrl.searchParams.get("lang") ?? undefined);
+
+  try {
+    const specSheet = await getSpecSheet(slug, language);
+
+    if (!specSheet) {
+      return NextResponse.json({ success: false, error: "Product not found" }, { status: 404 });
+    }
+
+    if ("uploadedUrl" in specSheet) {
+      return NextResponse.redirect(specSheet.uploadedUrl);
+    }
+
+    return new NextResponse(new Uint8Array(Buffer.from(specSheet.pdf, "base64")), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${specSheet.filename}"`,
+      },
+    });
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[Spec Sheet PDF] Generation error:", error);
+    }
+    return NextResponse.json({ success: false, error: "Failed to generate PDF" }, { status: 500 });
+  }
+}
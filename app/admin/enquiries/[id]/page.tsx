@@ -0,0 +1,310 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import EnquiryStatusBadge from "@/components/admin/EnquiryStatusBadge";
+import { updateEnquiryStatus } from "@/app/admin/enquiries/actions";
+import { createQuotation } from "@/app/admin/quotations/actions";
+import {
+  ENQUIRY_STATUS_TRANSITIONS,
+  formatElapsed,
+  getEnquiry,
+  getProductInterest,
+  getStoredQuantity,
+} from "@/lib/admin/enquiries";
+import { formatQuotationNumber, QUOTABLE_STATUSES } from "@/lib/admin/quotations";
+import { formatDate } from "@/lib/utils";
+import { formatQuantity, isBelowMoq, sumQuantities } from "@/lib/utils/quantity";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Enquiry",
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  transition: "That status change is not allowed from the current stage.",
+  conflict: "Someone else updated this enquiry first. Review the latest status and try again.",
+  quotation: "Quotations can only be prepared for qualified or converted enquiries.",
+};
+
+// =============================================================================
+// PAGE PROPS TYPE
+// =============================================================================
+
+interface EnquiryPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ error?: string }>;
+}
+
+// =============================================================================
+// PAGE COMPONENT (SERVER COMPONENT)
+// =============================================================================
+
+export default async function EnquiryPage({ params, searchParams }: EnquiryPageProps) {
+  const [{ id }, { error }] = await Promise.all([params, searchParams]);
+  const enquiry = await getEnquiry(id);
+
+  if (!enquiry) {
+    notFound();
+  }
+
+  const nextStatuses = ENQUIRY_STATUS_TRANSITIONS[enquiry.status];
+  const products = getProductInterest(enquiry.productInterest);
+  const errorMessage = error ? ERROR_MESSAGES[error] : undefined;
+
+  const items = enquiry.items.map((item) => ({
+    ...item,
+    belowMoq: isBelowMoq(
+      getStoredQuantity(item.quantityAmount, item.quantityUnit),
+      getStoredQuantity(item.moqAmount, item.moqUnit)
+    ),
+  }));
+  const totalVolume = sumQuantities(
+    enquiry.items.map((item) => getStoredQuantity(item.quantityAmount, item.quantityUnit)),
+    "mt"
+  );
+
+  const details: Array<[string, string | null]> = [
+    ["Email", enquiry.email],
+    ["Phone", enquiry.phone],
+    ["Company", enquiry.company],
+    ["Role", enquiry.role],
+    ["Country", enquiry.country],
+    ["Quantity", enquiry.quantity],
+    ["Products", products.length > 0 ? products.join(", ") : null],
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Link href="/admin/enquiries" className="text-sm text-(--color-muted) hover:text-gold">
+        ← All enquiries
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-deep-brown">{enquiry.name}</h1>
+          <p className="text-sm text-(--color-muted)">
+            <span className="capitalize">{enquiry.type}</span> enquiry · received{" "}
+            {formatDate(enquiry.createdAt, "en-IN", { hour: "2-digit", minute: "2-digit" })} ·{" "}
+            <span className="font-mono">{enquiry.id}</span>
+          </p>
+        </div>
+        <EnquiryStatusBadge status={enquiry.status} />
+      </div>
+
+      {errorMessage ? (
+        <div
+          className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800"
+          role="alert"
+        >
+          {errorMessage}
+        </div>
+      ) : null}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <section className="space-y-6 lg:col-span-2">
+          {/* Contact details */}
+          <div className="rounded-xl border border-[#e5d8c3] bg-white p-5">
+            <h2 className="mb-4 font-semibold text-deep-brown">Contact</h2>
+            <dl className="grid grid-cols-1 gap-x-6 gap-y-3 text-sm sm:grid-cols-2">
+              {details.map(([label, value]) => (
+                <div key={label}>
+                  <dt className="text-xs font-medium text-(--color-muted)">{label}</dt>
+                  <dd>{value || "—"}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+
+          {/* Message */}
+          {enquiry.message ? (
+            <div className="rounded-xl border border-[#e5d8c3] bg-white p-5">
+              <h2 className="mb-3 font-semibold text-deep-brown">Message</h2>
+              <p className="whitespace-pre-wrap text-sm">{enquiry.message}</p>
+            </div>
+          ) : null}
+
+          {/* Line items */}
+          {enquiry.items.length > 0 ? (
+            <div className="overflow-x-auto rounded-xl border border-[#e5d8c3] bg-white">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-paper text-xs uppercase tracking-wide text-(--color-muted)">
+                  <tr>
+                    <th className="px-4 py-3">#</th>
+                    <th className="px-4 py-3">Product</th>
+                    <th className="px-4 py-3">Grade</th>
+                    <th className="px-4 py-3">Pack Format</th>
+                    <th className="px-4 py-3">Quantity</th>
+                    <th className="px-4 py-3">MOQ</th>
+                    <th className="px-4 py-3">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item, index) => (
+                    <tr key={item.id} className="border-t border-gray-100 align-top">
+                      <td className="px-4 py-3">{index + 1}</td>
+                      <td className="px-4 py-3 font-medium">{item.productTitle}</td>
+                      <td className="px-4 py-3">{item.grade ?? "—"}</td>
+                      <td className="px-4 py-3">{item.packFormat ?? "—"}</td>
+                      <td className="px-4 py-3">
+                        {item.quantity ?? "—"}
+                        {item.belowMoq ? (
+                          <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800">
+                            Below MOQ
+                          </span>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3">{item.moq ?? "—"}</td>
+                      <td className="px-4 py-3 text-xs">{item.notes ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                {totalVolume ? (
+                  <tfoot className="border-t border-[#e5d8c3] bg-paper">
+                    <tr>
+                      <td colSpan={4} className="px-4 py-3 text-right text-xs text-(--color-muted)">
+                        Estimated total
+                      </td>
+                      <td colSpan={3} className="px-4 py-3 font-medium">
+                        {formatQuantity(totalVolume)}
+                      </td>
+                    </tr>
+                  </tfoot>
+                ) : null}
+              </table>
+            </div>
+          ) : null}
+        </section>
+
+        <aside className="space-y-6">
+          {/* Status transitions */}
+          <div className="rounded-xl border border-[#e5d8c3] bg-white p-5">
+            <h2 className="mb-4 font-semibold text-deep-brown">Pipeline</h2>
+            {nextStatuses.length === 0 ? (
+              <p className="text-sm text-(--color-muted)">This enquiry is closed.</p>
+            ) : (
+              <form action={updateEnquiryStatus} className="space-y-3">
+                <input type="hidden" name="id" value={enquiry.id} />
+                <input type="hidden" name="from" value={enquiry.status} />
+                <label className="block text-xs font-medium text-(--color-muted)">
+                  Note (optional)
+                  <textarea
+                    name="note"
+                    rows={3}
+                    maxLength={2000}
+                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-2 focus:outline-gold"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs font-medium text-(--color-muted)">
+                  <input type="checkbox" name="notify" className="accent-gold" />
+                  Email the customer about this update
+                </label>
+                {nextStatuses.map((status) => (
+                  <button
+                    key={status}
+                    type="submit"
+                    name="to"
+                    value={status}
+                    className="w-full rounded-md border border-gray-300 px-4 py-2 text-sm font-medium capitalize hover:border-gold hover:bg-ivory"
+                  >
+                    Mark as {status}
+                  </button>
+                ))}
+              </form>
+            )}
+          </div>
+
+          {/* Quotations */}
+          <div className="rounded-xl border border-[#e5d8c3] bg-white p-5">
+            <h2 className="mb-4 font-semibold text-deep-brown">Quotations</h2>
+            {enquiry.quotations.length > 0 ? (
+              <ul className="mb-4 space-y-2 text-sm">
+                {enquiry.quotations.map((quotation) => (
+                  <li key={quotation.id} className="flex items-center justify-between gap-2">
+                    <Link
+                      href={`/admin/quotations/${quotation.id}`}
+                      className="font-mono font-medium text-deep-brown hover:text-gold"
+                    >
+                      {formatQuotationNumber(quotation)}
+                    </Link>
+                    <span className="text-xs capitalize text-(--color-muted)">
+                      {quotation.status} · {formatDate(quotation.createdAt, "en-IN")}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+            {QUOTABLE_STATUSES.includes(enquiry.status) ? (
+              <form action={createQuotation}>
+                <input type="hidden" name="enquiryId" value={enquiry.id} />
+                <button
+                  type="submit"
+                  className="w-full rounded-md border border-gray-300 px-4 py-2 text-sm font-medium hover:border-gold hover:bg-ivory"
+                >
+                  Prepare quotation
+                </button>
+              </form>
+            ) : (
+              <p className="text-sm text-(--color-muted)">
+                Qualify the enquiry to prepare a quotation.
+              </p>
+            )}
+          </div>
+
+          {/* Status history */}
+          <div className="rounded-xl border border-[#e5d8c3] bg-white p-5">
+            <h2 className="mb-4 font-semibold text-deep-brown">History</h2>
+            <ol className="relative space-y-5 border-l border-[#e5d8c3] pl-5 text-sm">
+              <li>
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-gold" />
+                <p className="font-medium">Received</p>
+                <p className="text-xs text-(--color-muted)">
+                  {formatDate(enquiry.createdAt, "en-IN", { hour: "2-digit", minute: "2-digit" })}
+                </p>
+              </li>
+              {enquiry.statusEvents.map((event, index) => {
+                const previousAt = enquiry.statusEvents[index - 1]?.createdAt ?? enquiry.createdAt;
+                return (
+                  <li key={event.id}>
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-gold" />
+                    <p className="font-medium">
+                      <span className="capitalize">{event.fromStatus}</span> →{" "}
+                      <span className="capitalize">{event.toStatus}</span>
+                    </p>
+                    <p className="text-xs text-(--color-muted)">
+                      {event.actor} ·{" "}
+                      {formatDate(event.createdAt, "en-IN", {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}{" "}
+                      · after {formatElapsed(previousAt, event.createdAt)}
+                    </p>
+                    {event.note ? (
+                      <p className="mt-1 whitespace-pre-wrap rounded bg-gray-50 p-2 text-xs">
+                        {event.note}
+                      </p>
+                    ) : null}
+                  </li>
+                );
+              })}
+            </ol>
+            {enquiry.status !== "closed" ? (
+              <p className="mt-4 text-xs text-(--color-muted)">
+                In <span className="capitalize">{enquiry.status}</span> for{" "}
+                {formatElapsed(
+                  enquiry.statusEvents.at(-1)?.createdAt ?? enquiry.createdAt,
+                  new Date()
+                )}
+              </p>
+            ) : null}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
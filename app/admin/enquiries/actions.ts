@@ -0,0 +1,150 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { EnquiryStatus, type Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { requireAdminUser } from "@/lib/admin/auth";
+import { canTransition } from "@/lib/admin/enquiries";
+import { renderStatusUpdate, resolveCopy, STATUS_UPDATE_DEFAULTS } from "@/lib/email";
+import { getEmailSettings } from "@/lib/email/settings";
+import { languageSchema } from "@/lib/i18n";
+import { prisma } from "@/lib/prisma";
+import { deliverAfterResponse, enqueueOutboxMessages, type OutboxMessageInput } from "@/lib/outbox";
+import { createWebhookEvent, toWebhookOutboxMessages } from "@/lib/webhooks";
+import type { Language } from "@/context/LanguageContext";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const statusUpdateSchema = z.object({
+  id: z.string().min(1),
+  from: z.enum(EnquiryStatus),
+  to: z.enum(EnquiryStatus),
+  note: z
+    .string()
+    .trim()
+    .max(2000)
+    .optional()
+    .transform((value) => (value ? value : undefined)),
+  notify: z.literal("on").optional(),
+});
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+/**
+ * Moves an enquiry to the next stage of the sales pipeline and records the
+ * transition in its status history.
+ * The update only applies if the enquiry is still in the status the form was
+ * rendered with, so two people acting on the same lead cannot skip a stage.
+ * The webhook event, and the customer email when requested, are queued in
+ * the same transaction.
+ */
+export async function updateEnquiryStatus(formData: FormData) {
+  const actor = await requireAdminUser();
+
+  const validation = statusUpdateSchema.safeParse({
+    id: formData.get("id"),
+    from: formData.get("from"),
+    to: formData.get("to"),
+    note: formData.get("note") ?? undefined,
+    notify: formData.get("notify") ?? undefined,
+  });
+
+  if (!validation.success) {
+    redirect("/admin/enquiries");
+  }
+
+  const { id, from, to, note, notify } = validation.data;
+  const detailPath = `/admin/enquiries/${id}`;
+
+  if (!canTransition(from, to)) {
+    redirect(`${detailPath}?error=transition`);
+  }
+
+  // Sanity is queried outside the transaction to keep it short
+  const emailSettings = await getEmailSettings();
+  const reference = `${emailSettings.enquiryIdPrefix}${id}`;
+
+  const { count, outboxIds } = await prisma.$transaction(async (tx) => {
+    const result = await tx.enquiry.updateMany({
+      where: { id, status: from },
+      data: { status: to },
+    });
+
+    if (result.count === 0) {
+      return { count: 0, outboxIds: [] };
+    }
+
+    const statusEvent = await tx.enquiryStatusEvent.create({
+      data: { enquiryId: id, actor, fromStatus: from, toStatus: to, note: note ?? null },
+    });
+
+    const messages: OutboxMessageInput[] = toWebhookOutboxMessages(
+      createWebhookEvent("enquiry.status_changed", {
+        id,
+        reference,
+        fromStatus: from,
+        toStatus: to,
+        actor,
+        note: statusEvent.note,
+        changedAt: statusEvent.createdAt.toISOString(),
+      })
+    );
+
+    if (notify) {
+      messages.push(await buildStatusUpdateEmail(tx, id, to, emailSettings));
+    }
+
+    const outboxIds = await enqueueOutboxMessages(tx, messages, { enquiryId: id });
+    return { count: result.count, outboxIds };
+  });
+
+  deliverAfterResponse(outboxIds);
+
+  revalidatePath("/admin/enquiries");
+  revalidatePath(detailPath);
+
+  redirect(count === 0 ? `${detailPath}?error=conflict` : detailPath);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Renders the customer status email in the language they enquired in
+ */
+async function buildStatusUpdateEmail(
+  tx: Prisma.TransactionClient,
+  id: string,
+  status: EnquiryStatus,
+  settings: Awaited<ReturnType<typeof getEmailSettings>>
+): Promise<OutboxMessageInput> {
+  const enquiry = await tx.enquiry.findUniqueOrThrow({
+    where: { id },
+    select: { name: true, email: true, language: true },
+  });
+  const language: Language = languageSchema.parse(enquiry.language ?? undefined);
+
+  return {
+    kind: "email",
+    payload: {
+      from: settings.from,
+      to: enquiry.email,
+      replyTo: settings.replyTo,
+      ...renderStatusUpdate({
+        brandName: settings.brandName,
+        language,
+        copy: resolveCopy(STATUS_UPDATE_DEFAULTS, settings.statusUpdate, language),
+        name: enquiry.name,
+        reference: `${settings.enquiryIdPrefix}${id}`,
+        status,
+      }),
+    },
+  };
+}
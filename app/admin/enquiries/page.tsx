@@ -0,0 +1,305 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { z } from "zod";
+
+import EnquiryStatusBadge from "@/components/admin/EnquiryStatusBadge";
+import {
+  ENQUIRY_STATUSES,
+  ENQUIRY_TYPES,
+  getProductInterest,
+  listEnquiries,
+  parseEnquiryFilters,
+  type EnquiryFilters,
+} from "@/lib/admin/enquiries";
+import { DEFAULT_LANGUAGE, getLocalized, LANGUAGES, localeStringSchema } from "@/lib/i18n";
+import { client } from "@/lib/sanity/client";
+import { productTitlesQuery } from "@/lib/sanity/queries";
+import { formatDate } from "@/lib/utils";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Enquiries",
+};
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const productTitlesItemSchema = z.object({
+  _id: z.string(),
+  title: localeStringSchema.optional(),
+});
+
+// =============================================================================
+// PAGE PROPS TYPE
+// =============================================================================
+
+interface EnquiriesPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+interface ProductOption {
+  id: string;
+  label: string;
+  /** The title in every language, as stored on enquiries without line items */
+  titles: string[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function getProductOptions(): Promise<ProductOption[]> {
+  try {
+    const rawProducts = await client.fetch(productTitlesQuery);
+    const result = z.array(productTitlesItemSchema).safeParse(rawProducts);
+    return result.success
+      ? result.data.map((product) => ({
+          id: product._id,
+          label: getLocalized(product.title, DEFAULT_LANGUAGE) || "Untitled Product",
+          titles: LANGUAGES.map((language) => product.title?.[language]).filter(
+            (title): title is string => Boolean(title)
+          ),
+        }))
+      : [];
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[Admin Enquiries] Failed to fetch products:", error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Serializes filters back into a query string, e.g. for pagination links.
+ */
+function toQueryString(filters: EnquiryFilters, overrides: Partial<EnquiryFilters> = {}): string {
+  const merged = { ...filters, ...overrides };
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(merged)) {
+    if (value === undefined) continue;
+    params.set(key, value instanceof Date ? value.toISOString().slice(0, 10) : String(value));
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-2 focus:outline-gold";
+
+// =============================================================================
+// PAGE COMPONENT (SERVER COMPONENT)
+// =============================================================================
+
+export default async function EnquiriesPage({ searchParams }: EnquiriesPageProps) {
+  const filters = parseEnquiryFilters(await searchParams);
+  const productOptions = await getProductOptions();
+  const productTitles =
+    productOptions.find((option) => option.id === filters.product)?.titles ?? [];
+  const { enquiries, total, page, pageCount } = await listEnquiries(filters, productTitles);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-baseline justify-between">
+        <h1 className="text-2xl font-semibold text-deep-brown">Enquiries</h1>
+        <p className="text-sm text-(--color-muted)">{total} total</p>
+      </div>
+
+      {/* Filters */}
+      <form
+        method="get"
+        className="grid grid-cols-2 gap-3 rounded-xl border border-[#e5d8c3] bg-white p-4 md:grid-cols-4 lg:grid-cols-8"
+      >
+        <label className="text-xs font-medium text-(--color-muted)">
+          Status
+          <select name="status" defaultValue={filters.status ?? ""} className={inputClass}>
+            <option value="">All</option>
+            {ENQUIRY_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-(--color-muted)">
+          Type
+          <select name="type" defaultValue={filters.type ?? ""} className={inputClass}>
+            <option value="">All</option>
+            {ENQUIRY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-(--color-muted)">
+          Product
+          <select name="product" defaultValue={filters.product ?? ""} className={inputClass}>
+            <option value="">All</option>
+            {productOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-(--color-muted)">
+          Country
+          <input name="country" defaultValue={filters.country ?? ""} className={inputClass} />
+        </label>
+        <label className="col-span-2 text-xs font-medium text-(--color-muted)">
+          Email
+          <input
+            name="email"
+            type="email"
+            defaultValue={filters.email ?? ""}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs font-medium text-(--color-muted)">
+          From
+          <input
+            name="from"
+            type="date"
+            defaultValue={filters.from?.toISOString().slice(0, 10) ?? ""}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs font-medium text-(--color-muted)">
+          To
+          <input
+            name="to"
+            type="date"
+            defaultValue={filters.to?.toISOString().slice(0, 10) ?? ""}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs font-medium text-(--color-muted)">
+          No change for (days)
+          <input
+            name="stalledDays"
+            type="number"
+            min={1}
+            defaultValue={filters.stalledDays ?? ""}
+            className={inputClass}
+          />
+        </label>
+        <div className="col-span-2 flex items-end gap-2 md:col-span-3 lg:col-span-7">
+          <button
+            type="submit"
+            className="rounded-md bg-gold px-4 py-2 text-sm font-semibold text-white hover:bg-gold-dark"
+          >
+            Apply filters
+          </button>
+          <Link
+            href="/admin/enquiries"
+            className="rounded-md border border-gray-300 px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            Reset
+          </Link>
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="overflow-x-auto rounded-xl border border-[#e5d8c3] bg-white">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-paper text-xs uppercase tracking-wide text-(--color-muted)">
+            <tr>
+              <th className="px-4 py-3">Received</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3">Type</th>
+              <th className="px-4 py-3">Contact</th>
+              <th className="px-4 py-3">Country</th>
+              <th className="px-4 py-3">Products</th>
+            </tr>
+          </thead>
+          <tbody>
+            {enquiries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-12 text-center text-(--color-muted)">
+                  No enquiries match these filters.
+                </td>
+              </tr>
+            ) : (
+              enquiries.map((enquiry) => {
+                const products = getProductInterest(enquiry.productInterest);
+                return (
+                  <tr key={enquiry.id} className="border-t border-gray-100 hover:bg-ivory">
+                    <td className="whitespace-nowrap px-4 py-3">
+                      <Link
+                        href={`/admin/enquiries/${enquiry.id}`}
+                        className="font-medium text-gold-dark hover:underline"
+                      >
+                        {formatDate(enquiry.createdAt, "en-IN", {
+                          month: "short",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3">
+                      <EnquiryStatusBadge status={enquiry.status} />
+                    </td>
+                    <td className="px-4 py-3 capitalize">{enquiry.type}</td>
+                    <td className="px-4 py-3">
+                      <div className="font-medium">{enquiry.name}</div>
+                      <div className="text-xs text-(--color-muted)">
+                        {enquiry.company ? `${enquiry.company} · ` : ""}
+                        {enquiry.email}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">{enquiry.country ?? "—"}</td>
+                    <td className="px-4 py-3 text-xs">
+                      {products.length > 0 ? products.join(", ") : "—"}
+                      {enquiry._count.items > 0 ? (
+                        <span className="ml-1 text-(--color-muted)">
+                          ({enquiry._count.items} line items)
+                        </span>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {pageCount > 1 ? (
+        <nav className="flex items-center justify-between text-sm" aria-label="Pagination">
+          {page > 1 ? (
+            <Link
+              href={`/admin/enquiries${toQueryString(filters, { page: page - 1 })}`}
+              className="hover:text-gold"
+            >
+              ← Previous
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-(--color-muted)">
+            Page {page} of {pageCount}
+          </span>
+          {page < pageCount ? (
+            <Link
+              href={`/admin/enquiries${toQueryString(filters, { page: page + 1 })}`}
+              className="hover:text-gold"
+            >
+              Next →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Admin Layout
+ * Root layout and shell for the internal sales tools. Access is enforced by the
+ * /admin proxy.
+ */
+
+import type { Metadata } from "next";
+import Link from "next/link";
+
+import "@/app/globals.css";
+import { inter, manrope } from "@/app/fonts";
+
+// =============================================================================
+// METADATA CONFIGURATION
+// =============================================================================
+
+export const metadata: Metadata = {
+  title: "Admin",
+  icons: { icon: "/favicon.png" },
+  robots: { index: false, follow: false },
+};
+
+// =============================================================================
+// LAYOUT COMPONENT
+// =============================================================================
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="en" className={`${inter.variable} ${manrope.variable}`}>
+      <body className="antialiased">
+        <div className="min-h-screen bg-ivory text-(--color-graphite)">
+          <header className="border-b border-[#e5d8c3] bg-white">
+            <div className="mx-auto flex max-w-7xl items-center justify-between px-6 py-4">
+              <Link href="/admin/enquiries" className="text-lg font-semibold text-deep-brown">
+                Divyansh International · Sales Desk
+              </Link>
+              <nav className="flex gap-4 text-sm">
+                <Link href="/admin/enquiries" className="hover:text-gold">
+                  Enquiries
+                </Link>
+                <Link href="/admin/outbox" className="hover:text-gold">
+                  Outbox
+                </Link>
+              </nav>
+            </div>
+          </header>
+          <main className="mx-auto max-w-7xl px-6 py-8">{children}</main>
+        </div>
+      </body>
+    </html>
+  );
+}
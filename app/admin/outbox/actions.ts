@@ -0,0 +1,40 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { z } from "zod";
+
+import { requireAdminUser } from "@/lib/admin/auth";
+import { replayOutboxMessages } from "@/lib/outbox";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const replaySchema = z.object({
+  id: z.string().min(1).optional(),
+});
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+/**
+ * Requeues dead-lettered outbox messages: a single message when an id is
+ * posted, otherwise every dead message.
+ */
+export async function replayOutbox(formData: FormData) {
+  const actor = await requireAdminUser();
+
+  const validation = replaySchema.safeParse({ id: formData.get("id") ?? undefined });
+  if (!validation.success) {
+    redirect("/admin/outbox");
+  }
+
+  const { id } = validation.data;
+  const count = await replayOutboxMessages(id ? [id] : undefined);
+  console.info(`[Outbox] ${actor} replayed ${count} dead message(s)`);
+
+  revalidatePath("/admin/outbox");
+  redirect(`/admin/outbox?status=dead&replayed=${count}`);
+}
@@ -0,0 +1,167 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { z } from "zod";
+
+import { replayOutbox } from "@/app/admin/outbox/actions";
+import {
+  OUTBOX_STATUSES,
+  OutboxStatusFilterSchema,
+  describeOutboxTarget,
+  listOutboxMessages,
+} from "@/lib/admin/outbox";
+import { formatDate } from "@/lib/utils";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Outbox",
+};
+
+// =============================================================================
+// PAGE PROPS TYPE
+// =============================================================================
+
+interface OutboxPageProps {
+  searchParams: Promise<{ status?: string; replayed?: string }>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const dateTimeOptions: Intl.DateTimeFormatOptions = {
+  month: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+// =============================================================================
+// PAGE COMPONENT (SERVER COMPONENT)
+// =============================================================================
+
+export default async function OutboxPage({ searchParams }: OutboxPageProps) {
+  const params = await searchParams;
+  const status = OutboxStatusFilterSchema.parse(params.status);
+  const replayed = z.coerce
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .catch(undefined)
+    .parse(params.replayed);
+  const { messages, counts } = await listOutboxMessages(status);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-baseline justify-between">
+        <h1 className="text-2xl font-semibold text-deep-brown">Notification outbox</h1>
+        {status === "dead" && counts.dead > 0 ? (
+          <form action={replayOutbox}>
+            <button
+              type="submit"
+              className="rounded-md bg-gold px-4 py-2 text-sm font-semibold text-white hover:bg-gold-dark"
+            >
+              Replay all failed ({counts.dead})
+            </button>
+          </form>
+        ) : null}
+      </div>
+
+      {replayed !== undefined ? (
+        <p className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">
+          {replayed} message(s) queued for another delivery attempt.
+        </p>
+      ) : null}
+
+      {/* Status tabs */}
+      <nav className="flex gap-2 text-sm" aria-label="Outbox status">
+        {OUTBOX_STATUSES.map((value) => (
+          <Link
+            key={value}
+            href={`/admin/outbox?status=${value}`}
+            className={`rounded-full border px-3 py-1 capitalize ${
+              value === status
+                ? "border-gold bg-gold text-white"
+                : "border-gray-300 bg-white hover:border-gold"
+            }`}
+          >
+            {value === "dead" ? "failed" : value} ({counts[value]})
+          </Link>
+        ))}
+      </nav>
+
+      <div className="overflow-x-auto rounded-xl border border-[#e5d8c3] bg-white">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-paper text-xs uppercase tracking-wide text-(--color-muted)">
+            <tr>
+              <th className="px-4 py-3">Queued</th>
+              <th className="px-4 py-3">Kind</th>
+              <th className="px-4 py-3">Target</th>
+              <th className="px-4 py-3">Attempts</th>
+              <th className="px-4 py-3">{status === "delivered" ? "Delivered" : "Next attempt"}</th>
+              <th className="px-4 py-3">Last error</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {messages.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-12 text-center text-(--color-muted)">
+                  No messages in this state.
+                </td>
+              </tr>
+            ) : (
+              messages.map((message) => (
+                <tr key={message.id} className="border-t border-gray-100 align-top hover:bg-ivory">
+                  <td className="whitespace-nowrap px-4 py-3">
+                    {formatDate(message.createdAt, "en-IN", dateTimeOptions)}
+                    {message.enquiryId ? (
+                      <Link
+                        href={`/admin/enquiries/${message.enquiryId}`}
+                        className="block text-xs text-gold-dark hover:underline"
+                      >
+                        View enquiry
+                      </Link>
+                    ) : null}
+                  </td>
+                  <td className="px-4 py-3 capitalize">{message.kind}</td>
+                  <td className="max-w-xs break-words px-4 py-3 text-xs">
+                    {describeOutboxTarget(message.kind, message.payload)}
+                  </td>
+                  <td className="px-4 py-3">
+                    {message.attempts} / {message.maxAttempts}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3">
+                    {message.deliveredAt
+                      ? formatDate(message.deliveredAt, "en-IN", dateTimeOptions)
+                      : formatDate(message.nextAttemptAt, "en-IN", dateTimeOptions)}
+                  </td>
+                  <td className="max-w-sm break-words px-4 py-3 text-xs text-red-700">
+                    {message.lastError ?? "—"}
+                  </td>
+                  <td className="px-4 py-3">
+                    {message.status === "dead" ? (
+                      <form action={replayOutbox}>
+                        <input type="hidden" name="id" value={message.id} />
+                        <button
+                          type="submit"
+                          className="rounded-md border border-gray-300 px-3 py-1 text-xs font-medium hover:border-gold hover:bg-ivory"
+                        >
+                          Replay
+                        </button>
+                      </form>
+                    ) : null}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { issueQuotation, updateQuotation } from "@/app/admin/quotations/actions";
+import {
+  formatMoney,
+  formatQuotationNumber,
+  getQuotation,
+  getQuotationLines,
+  INCOTERMS,
+  QUOTATION_CURRENCIES,
+} from "@/lib/admin/quotations";
+import { formatDate } from "@/lib/utils";
+import { DEFAULT_UNIT_LABELS, QUANTITY_UNITS } from "@/lib/utils/quantity";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Quotation",
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: "Some values were not valid. Check the prices, quantities and terms and try again.",
+  priceUnit:
+    "Price each line per its own unit. Only kilograms and tonnes can be priced in one another, as carton and container weights vary.",
+  issued: "This quotation has already been issued and can no longer be edited.",
+  unpriced:
+    "Every line needs a unit price, per a unit its quantity converts to, before the quotation can be issued.",
+};
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-2 focus:outline-gold disabled:bg-gray-50";
+
+// =============================================================================
+// PAGE PROPS TYPE
+// =============================================================================
+
+interface QuotationPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ error?: string; saved?: string }>;
+}
+
+// =============================================================================
+// PAGE COMPONENT (SERVER COMPONENT)
+// =============================================================================
+
+export default async function QuotationPage({ params, searchParams }: QuotationPageProps) {
+  const [{ id }, { error, saved }] = await Promise.all([params, searchParams]);
+  const quotation = await getQuotation(id);
+
+  if (!quotation) {
+    notFound();
+  }
+
+  const isDraft = quotation.status === "draft";
+  const { lines, total, isFullyPriced } = getQuotationLines(quotation.items);
+  const errorMessage = error ? ERROR_MESSAGES[error] : undefined;
+  const money = (amount: number) => formatMoney(amount, quotation.currency);
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href={`/admin/enquiries/${quotation.enquiry.id}`}
+        className="text-sm text-(--color-muted) hover:text-gold"
+      >
+        ← Enquiry from {quotation.enquiry.name}
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="font-mono text-2xl font-semibold text-deep-brown">
+            {formatQuotationNumber(quotation)}
+          </h1>
+          <p className="text-sm text-(--color-muted)">
+            <span className="capitalize">{quotation.status}</span> · prepared by{" "}
+            {quotation.createdBy} on {formatDate(quotation.createdAt, "en-IN")}
+            {quotation.issuedAt
+              ? ` · issued${quotation.issuedBy ? ` by ${quotation.issuedBy}` : ""} on ${formatDate(quotation.issuedAt, "en-IN")}`
+              : null}
+          </p>
+        </div>
+        <a
+          href={`/admin/quotations/${quotation.id}/pdf`}
+          className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium hover:border-gold hover:bg-ivory"
+        >
+          Download PDF
+        </a>
+      </div>
+
+      {errorMessage ? (
+        <div
+          className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800"
+          role="alert"
+        >
+          {errorMessage}
+        </div>
+      ) : saved ? (
+        <p className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">
+          Quotation saved.
+        </p>
+      ) : null}
+
+      <form action={updateQuotation} className="space-y-6">
+        <input type="hidden" name="id" value={quotation.id} />
+        <fieldset disabled={!isDraft} className="space-y-6">
+          {/* Priced lines */}
+          <div className="overflow-x-auto rounded-xl border border-[#e5d8c3] bg-white">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-paper text-xs uppercase tracking-wide text-(--color-muted)">
+                <tr>
+                  <th className="px-4 py-3">#</th>
+                  <th className="px-4 py-3">Product</th>
+                  <th className="px-4 py-3">Quantity</th>
+                  <th className="px-4 py-3">Unit price ({quotation.currency})</th>
+                  <th className="px-4 py-3 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, index) => (
+                  <tr key={line.id} className="border-t border-gray-100 align-top">
+                    <td className="px-4 py-3">
+                      {index + 1}
+                      <input type="hidden" name="itemId" value={line.id} />
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium">{line.productTitle}</p>
+                      <p className="text-xs text-(--color-muted)">
+                        {[line.grade, line.packFormat].filter(Boolean).join(" · ") || "—"}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          name={`quantityAmount-${line.id}`}
+                          defaultValue={line.quantity.amount}
+                          min={0}
+                          step="any"
+                          required
+                          aria-label="Quantity"
+                          className={`${INPUT_CLASS} w-24`}
+                        />
+                        <select
+                          name={`quantityUnit-${line.id}`}
+                          defaultValue={line.quantity.unit}
+                          aria-label="Quantity unit"
+                          className={INPUT_CLASS}
+                        >
+                          {QUANTITY_UNITS.map((unit) => (
+                            <option key={unit} value={unit}>
+                              {DEFAULT_UNIT_LABELS[unit]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          name={`unitPrice-${line.id}`}
+                          defaultValue={line.unitPrice ?? ""}
+                          min={0}
+                          step="0.01"
+                          placeholder="On request"
+                          aria-label="Unit price"
+                          className={`${INPUT_CLASS} w-28`}
+                        />
+                        <select
+                          name={`priceUnit-${line.id}`}
+                          defaultValue={line.priceUnit}
+                          aria-label="Price per"
+                          className={INPUT_CLASS}
+                        >
+                          {QUANTITY_UNITS.map((unit) => (
+                            <option key={unit} value={unit}>
+                              per {DEFAULT_UNIT_LABELS[unit]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium">
+                      {line.amount === null ? "—" : money(line.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t border-[#e5d8c3] bg-paper">
+                <tr>
+                  <td colSpan={4} className="px-4 py-3 text-right text-xs text-(--color-muted)">
+                    {isFullyPriced ? "Total" : "Total of priced lines"}
+                  </td>
+                  <td className="px-4 py-3 text-right font-semibold">
+                    {total === null ? "—" : money(total)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {/* Terms */}
+          <div className="rounded-xl border border-[#e5d8c3] bg-white p-5">
+            <h2 className="mb-4 font-semibold text-deep-brown">Terms</h2>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <label className="block text-xs font-medium text-(--color-muted)">
+                Currency
+                <select name="currency" defaultValue={quotation.currency} className={INPUT_CLASS}>
+                  {QUOTATION_CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>
+                      {currency}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-xs font-medium text-(--color-muted)">
+                Incoterm
+                <select name="incoterm" defaultValue={quotation.incoterm} className={INPUT_CLASS}>
+                  {INCOTERMS.map((incoterm) => (
+                    <option key={incoterm} value={incoterm}>
+                      {incoterm}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-xs font-medium text-(--color-muted)">
+                Named place
+                <input
+                  name="incotermPlace"
+                  defaultValue={quotation.incotermPlace ?? ""}
+                  maxLength={255}
+                  placeholder="e.g. Nhava Sheva"
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="block text-xs font-medium text-(--color-muted)">
+                Valid until
+                <input
+                  type="date"
+                  name="validUntil"
+                  defaultValue={quotation.validUntil.toISOString().slice(0, 10)}
+                  required
+                  className={INPUT_CLASS}
+                />
+              </label>
+            </div>
+            <div className="mt-4 grid gap-4 sm:grid-cols-2">
+              <label className="block text-xs font-medium text-(--color-muted)">
+                Payment terms
+                <textarea
+                  name="paymentTerms"
+                  defaultValue={quotation.paymentTerms}
+                  rows={3}
+                  maxLength={2000}
+                  required
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="block text-xs font-medium text-(--color-muted)">
+                Remarks (printed on the quotation)
+                <textarea
+                  name="notes"
+                  defaultValue={quotation.notes ?? ""}
+                  rows={3}
+                  maxLength={4000}
+                  className={INPUT_CLASS}
+                />
+              </label>
+            </div>
+          </div>
+        </fieldset>
+
+        {isDraft ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="submit"
+              className="rounded-md bg-gold px-4 py-2 text-sm font-semibold text-white hover:bg-gold-dark"
+            >
+              Save draft
+            </button>
+            <button
+              type="submit"
+              formAction={issueQuotation}
+              disabled={!isFullyPriced}
+              className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium hover:border-gold hover:bg-ivory disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Issue quotation
+            </button>
+            <p className="text-xs text-(--color-muted)">
+              Save your changes before issuing. Issued quotations are locked.
+            </p>
+          </div>
+        ) : null}
+      </form>
+    </div>
+  );
+}
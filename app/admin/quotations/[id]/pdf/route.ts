@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { requireAdminUser } from "@/lib/admin/auth";
+import { getQuotation } from "@/lib/admin/quotations";
+import { getEmailSettings } from "@/lib/email/settings";
+import { languageSchema } from "@/lib/i18n";
+import { renderQuotationPdf } from "@/lib/pdf/quotation";
+import { getPdfSettings } from "@/lib/pdf/settings";
+
+// =============================================================================
+// ROUTE HANDLER
+// =============================================================================
+
+/**
+ * Downloads a quotation as a PDF in the buyer's language.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  await requireAdminUser();
+
+  const { id } = await params;
+  const quotation = await getQuotation(id);
+
+  if (!quotation) {
+    return NextResponse.json({ success: false, error: "Quotation not found" }, { status: 404 });
+  }
+
+  try {
+    const [settings, emailSettings] = await Promise.all([getPdfSettings(), getEmailSettings()]);
+    const { buffer, filename } = await renderQuotationPdf(quotation, {
+      settings,
+      language: languageSchema.parse(quotation.enquiry.language),
+      enquiryReference: `${emailSettings.enquiryIdPrefix}${quotation.enquiry.id}`,
+    });
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[Quotation PDF] Generation error:", error);
+    }
+    return NextResponse.json({ success: false, error: "Failed to generate PDF" }, { status: 500 });
+  }
+}
@@ -0,0 +1,190 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { Incoterm, QuotationStatus } from "@prisma/client";
+import { z } from "zod";
+
+import { requireAdminUser } from "@/lib/admin/auth";
+import {
+  createDraftQuotation,
+  getQuotationLines,
+  QUOTATION_CURRENCIES,
+} from "@/lib/admin/quotations";
+import { prisma } from "@/lib/prisma";
+import { convertsExactly, MAX_QUANTITY_AMOUNT, QuantityUnitSchema } from "@/lib/utils/quantity";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .transform((value) => (value ? value : null));
+
+const quotationItemSchema = z
+  .object({
+    id: z.string().min(1),
+    quantityAmount: z.coerce.number().positive().finite().max(MAX_QUANTITY_AMOUNT),
+    quantityUnit: QuantityUnitSchema,
+    // Left empty while the line is still being priced
+    unitPrice: z
+      .string()
+      .trim()
+      .transform((value) => (value === "" ? null : Number(value)))
+      .pipe(z.number().nonnegative().finite().nullable()),
+    priceUnit: QuantityUnitSchema,
+  })
+  // Cartons and containers have no exact weight, so they are priced per their own unit
+  .refine((item) => convertsExactly(item.quantityUnit, item.priceUnit), {
+    path: ["priceUnit"],
+  });
+
+const quotationUpdateSchema = z.object({
+  id: z.string().min(1),
+  currency: z.enum(QUOTATION_CURRENCIES),
+  incoterm: z.enum(Incoterm),
+  incotermPlace: optionalText(255),
+  validUntil: z.iso.date().transform((value) => new Date(`${value}T00:00:00Z`)),
+  paymentTerms: z.string().trim().min(1).max(2000),
+  notes: optionalText(4000),
+  items: z.array(quotationItemSchema),
+});
+
+const idSchema = z.object({ id: z.string().min(1) });
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+/**
+ * Starts a draft quotation from a qualified enquiry and opens it for pricing.
+ */
+export async function createQuotation(formData: FormData) {
+  const actor = await requireAdminUser();
+
+  const validation = idSchema.safeParse({ id: formData.get("enquiryId") });
+  if (!validation.success) {
+    redirect("/admin/enquiries");
+  }
+
+  const enquiryId = validation.data.id;
+  const quotationId = await createDraftQuotation(enquiryId, actor);
+
+  revalidatePath(`/admin/enquiries/${enquiryId}`);
+  redirect(
+    quotationId
+      ? `/admin/quotations/${quotationId}`
+      : `/admin/enquiries/${enquiryId}?error=quotation`
+  );
+}
+
+/**
+ * Saves the terms and line prices of a draft quotation.
+ * Issued quotations are read-only, so the update is limited to drafts.
+ */
+export async function updateQuotation(formData: FormData) {
+  await requireAdminUser();
+
+  const itemIds = formData.getAll("itemId").map(String);
+  const validation = quotationUpdateSchema.safeParse({
+    id: formData.get("id"),
+    currency: formData.get("currency"),
+    incoterm: formData.get("incoterm"),
+    incotermPlace: formData.get("incotermPlace") ?? undefined,
+    validUntil: formData.get("validUntil"),
+    paymentTerms: formData.get("paymentTerms"),
+    notes: formData.get("notes") ?? undefined,
+    items: itemIds.map((itemId) => ({
+      id: itemId,
+      quantityAmount: formData.get(`quantityAmount-${itemId}`),
+      quantityUnit: formData.get(`quantityUnit-${itemId}`),
+      unitPrice: formData.get(`unitPrice-${itemId}`) ?? "",
+      priceUnit: formData.get(`priceUnit-${itemId}`),
+    })),
+  });
+
+  const rawId = String(formData.get("id") ?? "");
+  if (!validation.success) {
+    const error = validation.error.issues.some((issue) => issue.path.at(-1) === "priceUnit")
+      ? "priceUnit"
+      : "invalid";
+    redirect(rawId ? `/admin/quotations/${rawId}?error=${error}` : "/admin/enquiries");
+  }
+
+  const { id, items, ...terms } = validation.data;
+  const detailPath = `/admin/quotations/${id}`;
+
+  const count = await prisma.$transaction(async (tx) => {
+    const result = await tx.quotation.updateMany({
+      where: { id, status: QuotationStatus.draft },
+      data: terms,
+    });
+
+    if (result.count === 0) {
+      return 0;
+    }
+
+    for (const { id: itemId, ...item } of items) {
+      await tx.quotationItem.updateMany({
+        where: { id: itemId, quotationId: id },
+        data: item,
+      });
+    }
+
+    return result.count;
+  });
+
+  revalidatePath(detailPath);
+  redirect(count === 0 ? `${detailPath}?error=issued` : `${detailPath}?saved=1`);
+}
+
+/**
+ * Locks a fully priced draft so it can be sent to the buyer.
+ */
+export async function issueQuotation(formData: FormData) {
+  const actor = await requireAdminUser();
+
+  const validation = idSchema.safeParse({ id: formData.get("id") });
+  if (!validation.success) {
+    redirect("/admin/enquiries");
+  }
+
+  const { id } = validation.data;
+  const detailPath = `/admin/quotations/${id}`;
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Saves update the same row first, so none can change the lines between check and issue
+    await tx.$queryRaw`SELECT 1 FROM quotations WHERE id = ${id} FOR UPDATE`;
+
+    const quotation = await tx.quotation.findUnique({
+      where: { id },
+      select: { enquiryId: true, items: true },
+    });
+    if (!quotation) {
+      return null;
+    }
+    if (!getQuotationLines(quotation.items).isFullyPriced) {
+      return { enquiryId: quotation.enquiryId, error: "unpriced" };
+    }
+
+    const { count } = await tx.quotation.updateMany({
+      where: { id, status: QuotationStatus.draft },
+      data: { status: QuotationStatus.issued, issuedAt: new Date(), issuedBy: actor },
+    });
+
+    return { enquiryId: quotation.enquiryId, error: count === 0 ? "issued" : null };
+  });
+
+  if (!result) {
+    redirect("/admin/enquiries");
+  }
+
+  revalidatePath(detailPath);
+  revalidatePath(`/admin/enquiries/${result.enquiryId}`);
+  redirect(result.error ? `${detailPath}?error=${result.error}` : detailPath);
+}
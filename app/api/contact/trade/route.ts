@@ -1,42 +1,65 @@
 "use server";
 
 import { type NextRequest, NextResponse } from "next/server";
+import { EnquiryStatus, EnquiryType } from "@prisma/client";
 import { z } from "zod";
 
-import { createTradeEnquirySchema } from "@/lib/validation/schemas";
+import { createTradeEnquirySchema, type ValidationConfig } from "@/lib/validation/schemas";
 import { prisma } from "@/lib/prisma";
-import { resend } from "@/lib/resend/client";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp, getUserAgent } from "@/lib/utils/client-ip";
+import { formatQuantity } from "@/lib/utils/quantity";
+import { sendEmail } from "@/lib/resend/client";
+import {
+  ACKNOWLEDGEMENT_DEFAULTS,
+  acknowledgementCopySchema,
+  renderCustomerAcknowledgement,
+  renderInternalNotification,
+  resolveCopy,
+} from "@/lib/email";
 import { client } from "@/lib/sanity/client";
 import { siteSettingsQuery } from "@/lib/sanity/queries";
+import { DEFAULT_LANGUAGE, getLocalized, localeStringSchema } from "@/lib/i18n";
+import { getRequestLanguage } from "@/lib/i18n/server";
+import { createTranslator } from "@/lib/i18n/translate";
 import { env } from "@/lib/env";
+import { createWebhookEvent, toEnquiryCreatedData, toWebhookOutboxMessages } from "@/lib/webhooks";
+import {
+  deliverAfterResponse,
+  enqueueOutboxMessages,
+  type EmailMessage,
+  type OutboxMessageInput,
+} from "@/lib/outbox";
+import type { Language } from "@/context/LanguageContext";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
 // =============================================================================
 
 const apiMessagesSchema = z.object({
-  rateLimitError: z.string().optional(),
-  validationError: z.string().optional(),
-  enquirySuccess: z.string().optional(),
-  serverError: z.string().optional(),
+  rateLimitError: localeStringSchema.optional(),
+  validationError: localeStringSchema.optional(),
+  enquirySuccess: localeStringSchema.optional(),
+  serverError: localeStringSchema.optional(),
 });
 
 const emailTemplatesSchema = z.object({
   fromName: z.string().optional(),
   fromEmail: z.string().email().optional(),
-  tradeSubject: z.string().optional(),
-  newTradeEnquiryTitle: z.string().optional(),
-  nameLabel: z.string().optional(),
-  companyLabel: z.string().optional(),
-  emailLabel: z.string().optional(),
-  phoneLabel: z.string().optional(),
-  roleLabel: z.string().optional(),
-  countryLabel: z.string().optional(),
-  productsLabel: z.string().optional(),
-  quantityLabel: z.string().optional(),
-  messageLabel: z.string().optional(),
-  naText: z.string().optional(),
-  noneText: z.string().optional(),
+  tradeSubject: localeStringSchema.optional(),
+  newTradeEnquiryTitle: localeStringSchema.optional(),
+  nameLabel: localeStringSchema.optional(),
+  companyLabel: localeStringSchema.optional(),
+  emailLabel: localeStringSchema.optional(),
+  phoneLabel: localeStringSchema.optional(),
+  roleLabel: localeStringSchema.optional(),
+  countryLabel: localeStringSchema.optional(),
+  productsLabel: localeStringSchema.optional(),
+  quantityLabel: localeStringSchema.optional(),
+  messageLabel: localeStringSchema.optional(),
+  naText: localeStringSchema.optional(),
+  noneText: localeStringSchema.optional(),
+  acknowledgement: acknowledgementCopySchema.optional(),
 });
 
 const apiConfigSchema = z.object({
@@ -47,24 +70,23 @@ const apiConfigSchema = z.object({
   enquiryStatusNew: z.string().optional(),
   fallbackEmail: z.string().email().optional(),
   listSeparator: z.string().optional(),
+  enquiryIdPrefix: z.string().optional(),
 });
 
-const validationConfigSchema = z
-  .object({
-    nameMinLength: z.number(),
-    nameMinError: z.string(),
-    emailInvalidError: z.string(),
-    messageMinLength: z.number(),
-    messageMinError: z.string(),
-    companyMinLength: z.number(),
-    companyRequiredError: z.string(),
-    phoneMinLength: z.number(),
-    phoneRequiredError: z.string(),
-    countryMinLength: z.number(),
-    countryRequiredError: z.string(),
-    honeypotMaxLength: z.number(),
-  })
-  .passthrough();
+const validationConfigSchema = z.object({
+  nameMinLength: z.number().optional(),
+  nameMinError: localeStringSchema.optional(),
+  emailInvalidError: localeStringSchema.optional(),
+  messageMinLength: z.number().optional(),
+  messageMinError: localeStringSchema.optional(),
+  companyMinLength: z.number().optional(),
+  companyRequiredError: localeStringSchema.optional(),
+  phoneMinLength: z.number().optional(),
+  phoneRequiredError: localeStringSchema.optional(),
+  countryMinLength: z.number().optional(),
+  countryRequiredError: localeStringSchema.optional(),
+  honeypotMaxLength: z.number().optional(),
+});
 
 const siteSettingsSchema = z
   .object({
@@ -103,6 +125,7 @@ const DEFAULTS = {
     naText: "N/A",
     noneText: "None specified",
   },
+  acknowledgementEnabled: true,
   apiConfig: {
     unknownIpLabel: "unknown",
     rateLimitMaxRequests: 5,
@@ -111,51 +134,53 @@ const DEFAULTS = {
     enquiryStatusNew: "new",
     fallbackEmail: "trade@divyanshint.com",
     listSeparator: ", ",
+    enquiryIdPrefix: "ENQ-",
   },
+  // Field error messages come from the validation group of the message catalogue
   validation: {
     nameMinLength: 2,
-    nameMinError: "Name must be at least 2 characters",
-    emailInvalidError: "Please enter a valid email address",
     messageMinLength: 10,
-    messageMinError: "Message must be at least 10 characters",
     companyMinLength: 2,
-    companyRequiredError: "Company name is required",
     phoneMinLength: 10,
-    phoneRequiredError: "Phone number is required",
     countryMinLength: 2,
-    countryRequiredError: "Country is required",
     honeypotMaxLength: 0,
   },
 } as const;
 
 // =============================================================================
-// RATE LIMITING
+// GET CONFIGURATION
 // =============================================================================
 
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(ip: string, maxRequests: number, windowMs: number): boolean {
-  const now = Date.now();
-
-  const record = rateLimitMap.get(ip);
-  if (!record || now > record.resetTime) {
-    rateLimitMap.set(ip, { count: 1, resetTime: now + windowMs });
-    return true;
-  }
-
-  if (record.count >= maxRequests) {
-    return false;
-  }
-
-  record.count++;
-  return true;
+/**
+ * Field limits and error messages for the trade form. Errors are looked up
+ * like the form's own: the CMS validation message in the request language,
+ * then the message catalogue.
+ */
+function getValidationConfig(
+  validation: z.infer<typeof validationConfigSchema> | undefined,
+  language: Language
+): ValidationConfig {
+  const t = createTranslator(language, { validation });
+  const nameMinLength = validation?.nameMinLength ?? DEFAULTS.validation.nameMinLength;
+  const messageMinLength = validation?.messageMinLength ?? DEFAULTS.validation.messageMinLength;
+
+  return {
+    nameMinLength,
+    nameMinError: t("validation.nameMinError", { min: nameMinLength }),
+    emailInvalidError: t("validation.emailInvalidError"),
+    messageMinLength,
+    messageMinError: t("validation.messageMinError", { min: messageMinLength }),
+    companyMinLength: validation?.companyMinLength ?? DEFAULTS.validation.companyMinLength,
+    companyRequiredError: t("validation.companyRequiredError"),
+    phoneMinLength: validation?.phoneMinLength ?? DEFAULTS.validation.phoneMinLength,
+    phoneRequiredError: t("validation.phoneRequiredError"),
+    countryMinLength: validation?.countryMinLength ?? DEFAULTS.validation.countryMinLength,
+    countryRequiredError: t("validation.countryRequiredError"),
+    honeypotMaxLength: validation?.honeypotMaxLength ?? DEFAULTS.validation.honeypotMaxLength,
+  };
 }
 
-// =============================================================================
-// GET CONFIGURATION
-// =============================================================================
-
-async function getConfig() {
+async function getConfig(language: Language) {
   try {
     const rawSettings = await client.fetch(siteSettingsQuery);
     const result = siteSettingsSchema.safeParse(rawSettings);
@@ -169,37 +194,61 @@ async function getConfig() {
     return {
       apiMessages: {
         rateLimitError:
-          settings?.apiMessages?.rateLimitError ?? DEFAULTS.apiMessages.rateLimitError,
+          getLocalized(settings?.apiMessages?.rateLimitError, language) ||
+          DEFAULTS.apiMessages.rateLimitError,
         validationError:
-          settings?.apiMessages?.validationError ?? DEFAULTS.apiMessages.validationError,
+          getLocalized(settings?.apiMessages?.validationError, language) ||
+          DEFAULTS.apiMessages.validationError,
         enquirySuccess:
-          settings?.apiMessages?.enquirySuccess ?? DEFAULTS.apiMessages.enquirySuccess,
-        serverError: settings?.apiMessages?.serverError ?? DEFAULTS.apiMessages.serverError,
+          getLocalized(settings?.apiMessages?.enquirySuccess, language) ||
+          DEFAULTS.apiMessages.enquirySuccess,
+        serverError:
+          getLocalized(settings?.apiMessages?.serverError, language) ||
+          DEFAULTS.apiMessages.serverError,
       },
+      // Staff notifications go to the sales inbox, so they stay in the default language
       templates: {
         fromName: settings?.emailTemplates?.fromName ?? DEFAULTS.emailTemplates.fromName,
         fromEmail: settings?.emailTemplates?.fromEmail ?? DEFAULTS.emailTemplates.fromEmail,
         tradeSubject:
-          settings?.emailTemplates?.tradeSubject ?? DEFAULTS.emailTemplates.tradeSubject,
+          getLocalized(settings?.emailTemplates?.tradeSubject, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.tradeSubject,
         newTradeEnquiryTitle:
-          settings?.emailTemplates?.newTradeEnquiryTitle ??
+          getLocalized(settings?.emailTemplates?.newTradeEnquiryTitle, DEFAULT_LANGUAGE) ||
           DEFAULTS.emailTemplates.newTradeEnquiryTitle,
-        nameLabel: settings?.emailTemplates?.nameLabel ?? DEFAULTS.emailTemplates.nameLabel,
+        nameLabel:
+          getLocalized(settings?.emailTemplates?.nameLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.nameLabel,
         companyLabel:
-          settings?.emailTemplates?.companyLabel ?? DEFAULTS.emailTemplates.companyLabel,
-        emailLabel: settings?.emailTemplates?.emailLabel ?? DEFAULTS.emailTemplates.emailLabel,
-        phoneLabel: settings?.emailTemplates?.phoneLabel ?? DEFAULTS.emailTemplates.phoneLabel,
-        roleLabel: settings?.emailTemplates?.roleLabel ?? DEFAULTS.emailTemplates.roleLabel,
+          getLocalized(settings?.emailTemplates?.companyLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.companyLabel,
+        emailLabel:
+          getLocalized(settings?.emailTemplates?.emailLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.emailLabel,
+        phoneLabel:
+          getLocalized(settings?.emailTemplates?.phoneLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.phoneLabel,
+        roleLabel:
+          getLocalized(settings?.emailTemplates?.roleLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.roleLabel,
         countryLabel:
-          settings?.emailTemplates?.countryLabel ?? DEFAULTS.emailTemplates.countryLabel,
+          getLocalized(settings?.emailTemplates?.countryLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.countryLabel,
         productsLabel:
-          settings?.emailTemplates?.productsLabel ?? DEFAULTS.emailTemplates.productsLabel,
+          getLocalized(settings?.emailTemplates?.productsLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.productsLabel,
         quantityLabel:
-          settings?.emailTemplates?.quantityLabel ?? DEFAULTS.emailTemplates.quantityLabel,
+          getLocalized(settings?.emailTemplates?.quantityLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.quantityLabel,
         messageLabel:
-          settings?.emailTemplates?.messageLabel ?? DEFAULTS.emailTemplates.messageLabel,
-        naText: settings?.emailTemplates?.naText ?? DEFAULTS.emailTemplates.naText,
-        noneText: settings?.emailTemplates?.noneText ?? DEFAULTS.emailTemplates.noneText,
+          getLocalized(settings?.emailTemplates?.messageLabel, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.messageLabel,
+        naText:
+          getLocalized(settings?.emailTemplates?.naText, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.naText,
+        noneText:
+          getLocalized(settings?.emailTemplates?.noneText, DEFAULT_LANGUAGE) ||
+          DEFAULTS.emailTemplates.noneText,
       },
       apiConfig: {
         unknownIpLabel: settings?.apiConfig?.unknownIpLabel ?? DEFAULTS.apiConfig.unknownIpLabel,
@@ -213,8 +262,14 @@ async function getConfig() {
           settings?.apiConfig?.enquiryStatusNew ?? DEFAULTS.apiConfig.enquiryStatusNew,
         fallbackEmail: settings?.apiConfig?.fallbackEmail ?? DEFAULTS.apiConfig.fallbackEmail,
         listSeparator: settings?.apiConfig?.listSeparator ?? DEFAULTS.apiConfig.listSeparator,
+        enquiryIdPrefix: settings?.apiConfig?.enquiryIdPrefix ?? DEFAULTS.apiConfig.enquiryIdPrefix,
+      },
+      acknowledgement: {
+        enabled:
+          settings?.emailTemplates?.acknowledgement?.enabled ?? DEFAULTS.acknowledgementEnabled,
+        overrides: settings?.emailTemplates?.acknowledgement,
       },
-      validationConfig: settings?.validation ?? DEFAULTS.validation,
+      validationConfig: getValidationConfig(settings?.validation, language),
     };
   } catch (error: unknown) {
     if (process.env.NODE_ENV === "development") {
@@ -224,7 +279,8 @@ async function getConfig() {
       apiMessages: DEFAULTS.apiMessages,
       templates: DEFAULTS.emailTemplates,
       apiConfig: DEFAULTS.apiConfig,
-      validationConfig: DEFAULTS.validation,
+      acknowledgement: { enabled: DEFAULTS.acknowledgementEnabled, overrides: undefined },
+      validationConfig: getValidationConfig(undefined, language),
     };
   }
 }
@@ -235,20 +291,24 @@ async function getConfig() {
 
 export async function POST(request: NextRequest) {
   // Get configuration with fallbacks
-  const { apiMessages, templates, apiConfig, validationConfig } = await getConfig();
+  const { apiMessages, templates, apiConfig, acknowledgement, validationConfig } = await getConfig(
+    await getRequestLanguage()
+  );
 
   try {
-    // Extract client IP for rate limiting
-    const ip =
-      request.headers.get("x-forwarded-for") ||
-      request.headers.get("x-real-ip") ||
-      apiConfig.unknownIpLabel;
+    // Resolve client IP for rate limiting
+    const clientIp = getClientIp(request);
+    const ip = clientIp ?? apiConfig.unknownIpLabel;
 
     // Check rate limit
-    if (!checkRateLimit(ip, apiConfig.rateLimitMaxRequests, apiConfig.rateLimitWindowMs)) {
+    const rateLimit = await checkRateLimit("contact-trade", ip, {
+      maxRequests: apiConfig.rateLimitMaxRequests,
+      windowMs: apiConfig.rateLimitWindowMs,
+    });
+    if (!rateLimit.allowed) {
       return NextResponse.json(
         { success: false, error: apiMessages.rateLimitError },
-        { status: 429 }
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
       );
     }
 
@@ -276,57 +336,123 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: true });
     }
 
-    // Save to database
+    const language: Language = data.language ?? "en";
+
+    const sender = `${templates.fromName} <${templates.fromEmail}>`;
+    const salesInbox = env.CONTACT_EMAIL || apiConfig.fallbackEmail;
+
+    const notification: EmailMessage = {
+      from: sender,
+      to: salesInbox,
+      replyTo: data.email,
+      ...renderInternalNotification({
+        brandName: templates.fromName,
+        subject: `${templates.tradeSubject} ${data.company}`,
+        title: templates.newTradeEnquiryTitle,
+        fields: [
+          { label: templates.nameLabel, value: data.name },
+          { label: templates.companyLabel, value: data.company },
+          { label: templates.emailLabel, value: data.email },
+          { label: templates.phoneLabel, value: data.phone },
+          { label: templates.roleLabel, value: data.role || templates.naText },
+          { label: templates.countryLabel, value: data.country },
+          {
+            label: templates.productsLabel,
+            value: data.productInterest?.length
+              ? data.productInterest.join(apiConfig.listSeparator)
+              : templates.noneText,
+          },
+          {
+            label: templates.quantityLabel,
+            value: formatQuantity(data.quantity) || templates.naText,
+          },
+        ],
+        message: { label: templates.messageLabel, body: data.message },
+      }),
+    };
+
+    // Acknowledge the submitter in their own language
+    const buildAcknowledgement = (reference: string | null): EmailMessage => ({
+      from: sender,
+      to: data.email,
+      replyTo: salesInbox,
+      ...renderCustomerAcknowledgement({
+        brandName: templates.fromName,
+        language,
+        copy: resolveCopy(ACKNOWLEDGEMENT_DEFAULTS, acknowledgement.overrides, language),
+        name: data.name,
+        reference,
+        products: data.productInterest ?? [],
+        quantity: formatQuantity(data.quantity, { locale: language }),
+        listSeparator: apiConfig.listSeparator,
+      }),
+    });
+
+    // Save the enquiry and queue its emails and webhooks in one transaction
     try {
-      const { EnquiryType, EnquiryStatus } = await import("@prisma/client");
-
-      await prisma.enquiry.create({
-        data: {
-          type: EnquiryType.trade,
-          name: data.name,
-          email: data.email,
-          phone: data.phone,
-          company: data.company,
-          role: data.role ?? null,
-          country: data.country,
-          productInterest: data.productInterest ?? [],
-          quantity: data.quantity ?? null,
-          message: data.message,
-          status: EnquiryStatus.new,
-        },
+      const outboxIds = await prisma.$transaction(async (tx) => {
+        const enquiry = await tx.enquiry.create({
+          data: {
+            type: EnquiryType.trade,
+            name: data.name,
+            email: data.email,
+            phone: data.phone,
+            company: data.company,
+            role: data.role ?? null,
+            country: data.country,
+            productInterest: data.productInterest ?? [],
+            quantity: data.quantity ? formatQuantity(data.quantity) : null,
+            quantityAmount: data.quantity?.amount ?? null,
+            quantityUnit: data.quantity?.unit ?? null,
+            message: data.message,
+            status: EnquiryStatus.new,
+            ipAddress: clientIp,
+            userAgent: getUserAgent(request),
+            language,
+          },
+          include: { items: true },
+        });
+        const reference = `${apiConfig.enquiryIdPrefix}${enquiry.id}`;
+
+        const messages: OutboxMessageInput[] = [{ kind: "email", payload: notification }];
+        if (acknowledgement.enabled) {
+          messages.push({ kind: "email", payload: buildAcknowledgement(reference) });
+        }
+        messages.push(
+          ...toWebhookOutboxMessages(
+            createWebhookEvent("enquiry.created", toEnquiryCreatedData(enquiry, reference))
+          )
+        );
+
+        return enqueueOutboxMessages(tx, messages, { enquiryId: enquiry.id });
       });
+
+      deliverAfterResponse(outboxIds);
     } catch (dbError: unknown) {
-      if (process.env.NODE_ENV === "development") {
-        console.error("[API Trade Contact] Database error:", dbError);
+      // Without a database there is no outbox; email directly so the lead is not lost
+      console.error("[API Trade Contact] Database error, sending notifications directly:", dbError);
+
+      const notificationResult = await sendEmail(notification);
+      if (!notificationResult.success) {
+        // Neither stored nor emailed: the submitter must not be told it was received
+        console.error(
+          `[API Trade Contact] Enquiry from ${data.email} was not stored or emailed:`,
+          notificationResult.error
+        );
+        return NextResponse.json(
+          { success: false, error: apiMessages.serverError },
+          { status: 500 }
+        );
       }
-    }
 
-    try {
-      const productsDisplay = data.productInterest?.length
-        ? data.productInterest.map(escapeHtml).join(apiConfig.listSeparator)
-        : templates.noneText;
-
-      await resend.emails.send({
-        from: `${templates.fromName} <${templates.fromEmail}>`,
-        to: env.CONTACT_EMAIL || apiConfig.fallbackEmail,
-        subject: `${templates.tradeSubject} ${escapeHtml(data.company)}`,
-        html: `
-          <h2>${templates.newTradeEnquiryTitle}</h2>
-          <p><strong>${templates.nameLabel}:</strong> ${escapeHtml(data.name)}</p>
-          <p><strong>${templates.companyLabel}:</strong> ${escapeHtml(data.company)}</p>
-          <p><strong>${templates.emailLabel}:</strong> ${escapeHtml(data.email)}</p>
-          <p><strong>${templates.phoneLabel}:</strong> ${escapeHtml(data.phone)}</p>
-          <p><strong>${templates.roleLabel}:</strong> ${data.role ? escapeHtml(data.role) : templates.naText}</p>
-          <p><strong>${templates.countryLabel}:</strong> ${escapeHtml(data.country)}</p>
-          <p><strong>${templates.productsLabel}:</strong> ${productsDisplay}</p>
-          <p><strong>${templates.quantityLabel}:</strong> ${data.quantity ? escapeHtml(data.quantity) : templates.naText}</p>
-          <p><strong>${templates.messageLabel}:</strong></p>
-          <p>${escapeHtml(data.message)}</p>
-        `,
-      });
-    } catch (emailError: unknown) {
-      if (process.env.NODE_ENV === "development") {
-        console.error("[API Trade Contact] Email error:", emailError);
+      if (acknowledgement.enabled) {
+        const acknowledgementResult = await sendEmail(buildAcknowledgement(null));
+        if (!acknowledgementResult.success) {
+          console.error(
+            "[API Trade Contact] Acknowledgement email failed:",
+            acknowledgementResult.error
+          );
+        }
       }
     }
 
@@ -341,19 +467,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ success: false, error: apiMessages.serverError }, { status: 500 });
   }
 }
-
-// =============================================================================
-// SECURITY HELPERS
-// =============================================================================
-
-/**
- * Escapes HTML to prevent XSS in email content
- */
-function escapeHtml(unsafe: string): string {
-  return unsafe
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
-}
@@ -0,0 +1,187 @@
+"use server";
+
+import { after, type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import {
+  createSharedEnquiry,
+  pruneExpiredSharedEnquiries,
+  SharedEnquiryItemsSchema,
+} from "@/lib/shared-enquiry";
+import { getClientIp } from "@/lib/utils/client-ip";
+import { client } from "@/lib/sanity/client";
+import { siteSettingsQuery } from "@/lib/sanity/queries";
+import { getLocalized, localeStringSchema } from "@/lib/i18n";
+import { getRequestLanguage } from "@/lib/i18n/server";
+import type { Language } from "@/context/LanguageContext";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const requestBodySchema = z.object({
+  items: SharedEnquiryItemsSchema,
+});
+
+// =============================================================================
+// CMS CONFIGURATION SCHEMAS
+// =============================================================================
+
+const apiMessagesSchema = z.object({
+  rateLimitError: localeStringSchema.optional(),
+  validationError: localeStringSchema.optional(),
+  serverError: localeStringSchema.optional(),
+});
+
+const apiConfigSchema = z.object({
+  unknownIpLabel: z.string().optional(),
+  rateLimitMaxRequests: z.number().optional(),
+  rateLimitWindowMs: z.number().optional(),
+});
+
+const seoSchema = z.object({
+  siteUrl: z.string().url().optional(),
+});
+
+const siteSettingsSchema = z
+  .object({
+    apiMessages: apiMessagesSchema.optional(),
+    apiConfig: apiConfigSchema.optional(),
+    seo: seoSchema.optional(),
+  })
+  .passthrough();
+
+// =============================================================================
+// DEFAULT FALLBACK VALUES
+// =============================================================================
+
+const DEFAULTS = {
+  apiMessages: {
+    rateLimitError: "Too many requests. Please try again later.",
+    validationError: "Please provide valid enquiry items.",
+    serverError: "An unexpected error occurred. Please try again later.",
+  },
+  apiConfig: {
+    unknownIpLabel: "unknown",
+    rateLimitMaxRequests: 5,
+    rateLimitWindowMs: 60000,
+  },
+  siteUrl: "https://divyanshint.com",
+} as const;
+
+// =============================================================================
+// GET CONFIGURATION
+// =============================================================================
+
+async function getConfig(language: Language) {
+  try {
+    const rawSettings = await client.fetch(siteSettingsQuery);
+    const result = siteSettingsSchema.safeParse(rawSettings);
+
+    if (!result.success && process.env.NODE_ENV === "development") {
+      console.warn("[API Enquiry Share] Settings validation failed:", result.error.issues);
+    }
+
+    const settings = result.success ? result.data : null;
+
+    return {
+      apiMessages: {
+        rateLimitError:
+          getLocalized(settings?.apiMessages?.rateLimitError, language) ||
+          DEFAULTS.apiMessages.rateLimitError,
+        validationError:
+          getLocalized(settings?.apiMessages?.validationError, language) ||
+          DEFAULTS.apiMessages.validationError,
+        serverError:
+          getLocalized(settings?.apiMessages?.serverError, language) ||
+          DEFAULTS.apiMessages.serverError,
+      },
+      apiConfig: {
+        unknownIpLabel: settings?.apiConfig?.unknownIpLabel ?? DEFAULTS.apiConfig.unknownIpLabel,
+        rateLimitMaxRequests:
+          settings?.apiConfig?.rateLimitMaxRequests ?? DEFAULTS.apiConfig.rateLimitMaxRequests,
+        rateLimitWindowMs:
+          settings?.apiConfig?.rateLimitWindowMs ?? DEFAULTS.apiConfig.rateLimitWindowMs,
+      },
+      siteUrl: settings?.seo?.siteUrl ?? DEFAULTS.siteUrl,
+    };
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[API Enquiry Share] Failed to fetch config:", error);
+    }
+    return {
+      apiMessages: DEFAULTS.apiMessages,
+      apiConfig: DEFAULTS.apiConfig,
+      siteUrl: DEFAULTS.siteUrl,
+    };
+  }
+}
+
+// =============================================================================
+// POST HANDLER
+// =============================================================================
+
+/**
+ * Saves the caller's enquiry list and returns a short link that restores it
+ * on another device or for another person.
+ */
+export async function POST(request: NextRequest) {
+  const { apiMessages, apiConfig, siteUrl } = await getConfig(await getRequestLanguage());
+
+  try {
+    // Resolve client IP for rate limiting
+    const clientIp = getClientIp(request);
+    const ip = clientIp ?? apiConfig.unknownIpLabel;
+
+    // Check rate limit
+    const rateLimit = await checkRateLimit("enquiry-share", ip, {
+      maxRequests: apiConfig.rateLimitMaxRequests,
+      windowMs: apiConfig.rateLimitWindowMs,
+    });
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: apiMessages.rateLimitError },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    // Parse and validate request body
+    const body: unknown = await request.json();
+    const validation = requestBodySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: apiMessages.validationError,
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const code = await createSharedEnquiry(validation.data.items, clientIp);
+
+    // Housekeeping rides on writes so expired lists never need a separate job
+    after(async () => {
+      try {
+        await pruneExpiredSharedEnquiries();
+      } catch (error: unknown) {
+        console.error("[API Enquiry Share] Failed to prune expired lists:", error);
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      code,
+      // The public site URL, as the request origin can be an internal host behind the proxy
+      url: new URL(`/enquiry/${code}`, siteUrl).toString(),
+    });
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[API Enquiry Share] Unhandled error:", error);
+    }
+    return NextResponse.json({ success: false, error: apiMessages.serverError }, { status: 500 });
+  }
+}
@@ -1,35 +1,48 @@
 "use server";
 
 import { type NextRequest, NextResponse } from "next/server";
+import { EnquiryStatus, EnquiryType } from "@prisma/client";
 import { z } from "zod";
 
+import { prisma } from "@/lib/prisma";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp, getUserAgent } from "@/lib/utils/client-ip";
+import { formatQuantity, QuantitySchema } from "@/lib/utils/quantity";
 import { client } from "@/lib/sanity/client";
 import { siteSettingsQuery } from "@/lib/sanity/queries";
-import { env } from "@/lib/env";
+import { getLocalized, localeStringSchema } from "@/lib/i18n";
+import { getRequestLanguage } from "@/lib/i18n/server";
+import type { Language } from "@/context/LanguageContext";
+import { deliverAfterResponse, enqueueOutboxMessages } from "@/lib/outbox";
+import { createWebhookEvent, toEnquiryCreatedData, toWebhookOutboxMessages } from "@/lib/webhooks";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
 // =============================================================================
 
 const enquiryItemSchema = z.object({
+  productId: z.string().optional(),
   productTitle: z.string().min(1),
   grade: z.string().optional(),
   packFormat: z.string().optional(),
-  quantity: z.string().optional(),
-  MOQ: z.string().optional(),
+  quantity: QuantitySchema.optional(),
+  MOQ: QuantitySchema.optional(),
   notes: z.string().optional(),
 });
 
+// Name and email are required so that every stored enquiry can be followed up
 const contactInfoSchema = z.object({
-  name: z.string().optional(),
+  name: z.string().min(1),
   company: z.string().optional(),
-  email: z.string().email().optional(),
+  email: z.string().email(),
   phone: z.string().optional(),
+  country: z.string().optional(),
 });
 
 const requestBodySchema = z.object({
   items: z.array(enquiryItemSchema).min(1),
-  contactInfo: contactInfoSchema.optional(),
+  contactInfo: contactInfoSchema,
+  message: z.string().optional(),
 });
 
 // =============================================================================
@@ -37,16 +50,17 @@ const requestBodySchema = z.object({
 // =============================================================================
 
 const apiMessagesSchema = z.object({
-  validationError: z.string().optional(),
-  enquirySuccess: z.string().optional(),
-  serverError: z.string().optional(),
+  rateLimitError: localeStringSchema.optional(),
+  validationError: localeStringSchema.optional(),
+  enquirySuccess: localeStringSchema.optional(),
+  serverError: localeStringSchema.optional(),
 });
 
 const apiConfigSchema = z.object({
-  httpMethodPost: z.string().optional(),
-  contentTypeHeader: z.string().optional(),
-  contentTypeJson: z.string().optional(),
   enquiryIdPrefix: z.string().optional(),
+  unknownIpLabel: z.string().optional(),
+  rateLimitMaxRequests: z.number().optional(),
+  rateLimitWindowMs: z.number().optional(),
 });
 
 const siteSettingsSchema = z
@@ -62,15 +76,16 @@ const siteSettingsSchema = z
 
 const DEFAULTS = {
   apiMessages: {
+    rateLimitError: "Too many requests. Please try again later.",
     validationError: "Please provide valid enquiry items.",
     enquirySuccess: "Thank you for your enquiry. We will get back to you soon.",
     serverError: "An unexpected error occurred. Please try again later.",
   },
   apiConfig: {
-    httpMethodPost: "POST",
-    contentTypeHeader: "Content-Type",
-    contentTypeJson: "application/json",
     enquiryIdPrefix: "ENQ-",
+    unknownIpLabel: "unknown",
+    rateLimitMaxRequests: 5,
+    rateLimitWindowMs: 60000,
   },
 } as const;
 
@@ -78,7 +93,7 @@ const DEFAULTS = {
 // GET CONFIGURATION
 // =============================================================================
 
-async function getConfig() {
+async function getConfig(language: Language) {
   try {
     const rawSettings = await client.fetch(siteSettingsQuery);
     const result = siteSettingsSchema.safeParse(rawSettings);
@@ -91,18 +106,26 @@ async function getConfig() {
 
     return {
       apiMessages: {
+        rateLimitError:
+          getLocalized(settings?.apiMessages?.rateLimitError, language) ||
+          DEFAULTS.apiMessages.rateLimitError,
         validationError:
-          settings?.apiMessages?.validationError ?? DEFAULTS.apiMessages.validationError,
+          getLocalized(settings?.apiMessages?.validationError, language) ||
+          DEFAULTS.apiMessages.validationError,
         enquirySuccess:
-          settings?.apiMessages?.enquirySuccess ?? DEFAULTS.apiMessages.enquirySuccess,
-        serverError: settings?.apiMessages?.serverError ?? DEFAULTS.apiMessages.serverError,
+          getLocalized(settings?.apiMessages?.enquirySuccess, language) ||
+          DEFAULTS.apiMessages.enquirySuccess,
+        serverError:
+          getLocalized(settings?.apiMessages?.serverError, language) ||
+          DEFAULTS.apiMessages.serverError,
       },
       apiConfig: {
-        httpMethodPost: settings?.apiConfig?.httpMethodPost ?? DEFAULTS.apiConfig.httpMethodPost,
-        contentTypeHeader:
-          settings?.apiConfig?.contentTypeHeader ?? DEFAULTS.apiConfig.contentTypeHeader,
-        contentTypeJson: settings?.apiConfig?.contentTypeJson ?? DEFAULTS.apiConfig.contentTypeJson,
         enquiryIdPrefix: settings?.apiConfig?.enquiryIdPrefix ?? DEFAULTS.apiConfig.enquiryIdPrefix,
+        unknownIpLabel: settings?.apiConfig?.unknownIpLabel ?? DEFAULTS.apiConfig.unknownIpLabel,
+        rateLimitMaxRequests:
+          settings?.apiConfig?.rateLimitMaxRequests ?? DEFAULTS.apiConfig.rateLimitMaxRequests,
+        rateLimitWindowMs:
+          settings?.apiConfig?.rateLimitWindowMs ?? DEFAULTS.apiConfig.rateLimitWindowMs,
       },
     };
   } catch (error: unknown) {
@@ -121,9 +144,26 @@ async function getConfig() {
 // =============================================================================
 
 export async function POST(request: NextRequest) {
-  const { apiMessages, apiConfig } = await getConfig();
+  const language = await getRequestLanguage();
+  const { apiMessages, apiConfig } = await getConfig(language);
 
   try {
+    // Resolve client IP for rate limiting
+    const clientIp = getClientIp(request);
+    const ip = clientIp ?? apiConfig.unknownIpLabel;
+
+    // Check rate limit
+    const rateLimit = await checkRateLimit("enquiry-submit", ip, {
+      maxRequests: apiConfig.rateLimitMaxRequests,
+      windowMs: apiConfig.rateLimitWindowMs,
+    });
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: apiMessages.rateLimitError },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
     // Parse and validate request body
     const body: unknown = await request.json();
     const validation = requestBodySchema.safeParse(body);
@@ -139,43 +179,57 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { items, contactInfo } = validation.data;
+    const { items, contactInfo, message } = validation.data;
+
+    // Persist the enquiry, its line items and the webhook notifications together
+    const { enquiryId, outboxIds } = await prisma.$transaction(async (tx) => {
+      const enquiry = await tx.enquiry.create({
+        data: {
+          type: EnquiryType.builder,
+          status: EnquiryStatus.new,
+          name: contactInfo.name,
+          email: contactInfo.email,
+          phone: contactInfo.phone ?? null,
+          company: contactInfo.company ?? null,
+          country: contactInfo.country ?? null,
+          message: message ?? "",
+          productInterest: items.map((item) => item.productTitle),
+          ipAddress: clientIp,
+          userAgent: getUserAgent(request),
+          // Quotations for this enquiry print in the buyer's language
+          language,
+          items: {
+            create: items.map((item, index) => ({
+              position: index,
+              productId: item.productId ?? null,
+              productTitle: item.productTitle,
+              grade: item.grade ?? null,
+              packFormat: item.packFormat ?? null,
+              quantity: item.quantity ? formatQuantity(item.quantity) : null,
+              quantityAmount: item.quantity?.amount ?? null,
+              quantityUnit: item.quantity?.unit ?? null,
+              moq: item.MOQ ? formatQuantity(item.MOQ) : null,
+              moqAmount: item.MOQ?.amount ?? null,
+              moqUnit: item.MOQ?.unit ?? null,
+              notes: item.notes ?? null,
+            })),
+          },
+        },
+        include: { items: true },
+      });
+
+      const enquiryId = `${apiConfig.enquiryIdPrefix}${enquiry.id}`;
 
-    // Build payload for webhook
-    const payload = {
-      items,
-      contactInfo,
-      timestamp: new Date().toISOString(),
-    };
+      // Notify subscribed webhook endpoints
+      const event = createWebhookEvent("enquiry.created", toEnquiryCreatedData(enquiry, enquiryId));
+      const outboxIds = await enqueueOutboxMessages(tx, toWebhookOutboxMessages(event), {
+        enquiryId: enquiry.id,
+      });
 
-    // Send to webhook if configured
-    const webhookUrl = env.ENQUIRY_WEBHOOK_URL;
-    if (webhookUrl) {
-      try {
-        const response = await fetch(webhookUrl, {
-          method: apiConfig.httpMethodPost,
-          headers: {
-            [apiConfig.contentTypeHeader]: apiConfig.contentTypeJson,
-          },
-          body: JSON.stringify(payload),
-        });
-
-        if (!response.ok && process.env.NODE_ENV === "development") {
-          console.warn(
-            "[API Enquiry Submit] Webhook returned non-OK status:",
-            response.status,
-            response.statusText
-          );
-        }
-      } catch (webhookError: unknown) {
-        if (process.env.NODE_ENV === "development") {
-          console.error("[API Enquiry Submit] Webhook error:", webhookError);
-        }
-      }
-    }
+      return { enquiryId, outboxIds };
+    });
 
-    // Generate enquiry ID
-    const enquiryId = `${apiConfig.enquiryIdPrefix}${Date.now()}`;
+    deliverAfterResponse(outboxIds);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,50 @@
+import { timingSafeEqual } from "node:crypto";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { env } from "@/lib/env";
+import { processOutbox } from "@/lib/outbox";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const dynamic = "force-dynamic";
+
+// =============================================================================
+// OUTBOX WORKER (CRON)
+// =============================================================================
+
+/**
+ * Delivers due outbox messages. Intended to be called on a schedule with
+ * `Authorization: Bearer <CRON_SECRET>` (Vercel Cron sends this automatically).
+ */
+export async function GET(req: NextRequest) {
+  const secret = env.CRON_SECRET;
+  if (!secret) {
+    console.error("[Outbox] Missing CRON_SECRET");
+    return NextResponse.json({ message: "Cron secret not configured" }, { status: 500 });
+  }
+
+  if (!isAuthorized(req.headers.get("authorization"), secret)) {
+    console.warn("[Outbox] Unauthorized worker request");
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await processOutbox();
+    return NextResponse.json({ ok: true, now: Date.now(), ...result });
+  } catch (error: unknown) {
+    console.error("[Outbox] Worker run failed:", error);
+    return NextResponse.json({ ok: false, message: "Worker run failed" }, { status: 500 });
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function isAuthorized(header: string | null, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header ?? "");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
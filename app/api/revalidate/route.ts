@@ -2,6 +2,8 @@ import { revalidateTag, revalidatePath } from "next/cache";
 import { type NextRequest, NextResponse } from "next/server";
 import { parseBody } from "next-sanity/webhook";
 
+import { LANGUAGES, localizePath } from "@/lib/i18n";
+
 // =============================================================================
 // SANITY WEBHOOK REVALIDATION
 // =============================================================================
@@ -9,7 +11,7 @@ import { parseBody } from "next-sanity/webhook";
 // Document type to cache tag mapping
 const DOCUMENT_TYPE_TAGS: Record<string, string[]> = {
   // Global settings
-  siteSettings: ["siteSettings", "global"],
+  siteSettings: ["siteSettings", "global", "specSheets", "cataloguePdf"],
   header: ["header", "global"],
   footer: ["footer", "global"],
 
@@ -26,10 +28,10 @@ const DOCUMENT_TYPE_TAGS: Record<string, string[]> = {
   quote: ["quote", "global"],
 
   // Products
-  product: ["products", "product"],
+  product: ["products", "product", "specSheets", "cataloguePdf"],
   productsPage: ["productsPage", "products"],
   brand: ["brands", "products"],
-  catalogueSettings: ["catalogue", "products"],
+  catalogueSettings: ["catalogue", "products", "cataloguePdf"],
 
   // About & Community
   about: ["about"],
@@ -45,7 +47,8 @@ const DOCUMENT_TYPE_TAGS: Record<string, string[]> = {
   galleryPage: ["gallery"],
 };
 
-// Paths to revalidate for each document type
+// Paths to revalidate for each document type. Website pages live under
+// app/(website)/[locale], so each path is revalidated for every language.
 const DOCUMENT_TYPE_PATHS: Record<string, string[]> = {
   siteSettings: ["/"],
   header: ["/"],
@@ -116,15 +119,18 @@ export async function POST(req: NextRequest) {
     // Revalidate paths for this document type
     const paths = DOCUMENT_TYPE_PATHS[_type] || [];
     for (const path of paths) {
-      revalidatePath(path, "page");
-      revalidatedPaths.push(path);
+      const routePath = path === "/" ? "/[locale]" : `/[locale]${path}`;
+      revalidatePath(routePath, "page");
+      revalidatedPaths.push(routePath);
     }
 
     // For products with slugs, also revalidate the specific product page
     if (_type === "product" && slug?.current) {
-      const productPath = `/products/${slug.current}`;
-      revalidatePath(productPath, "page");
-      revalidatedPaths.push(productPath);
+      for (const language of LANGUAGES) {
+        const productPath = localizePath(`/products/${slug.current}`, language);
+        revalidatePath(productPath);
+        revalidatedPaths.push(productPath);
+      }
     }
 
     return NextResponse.json({
@@ -0,0 +1,21 @@
+/**
+ * Font Configuration
+ * Shared by the root layouts (website, admin), which set the CSS variables on <html>.
+ */
+
+import { Inter, Manrope } from "next/font/google";
+
+export const inter = Inter({
+  variable: "--font-inter",
+  subsets: ["latin"],
+  display: "swap",
+  preload: true,
+});
+
+export const manrope = Manrope({
+  variable: "--font-manrope",
+  subsets: ["latin"],
+  weight: ["400", "500", "600", "700"],
+  display: "swap",
+  preload: true,
+});
@@ -1,14 +1,17 @@
 /**
  * Sitemap Generator
- * Dynamically generates sitemap.xml from Sanity CMS configuration and product data
+ * Dynamically generates sitemap.xml from Sanity CMS configuration and product data.
+ * Every page is listed once per language, each entry carrying the hreflang alternates.
  */
 
 import type { MetadataRoute } from "next";
 import { groq } from "next-sanity";
 import { z } from "zod";
 
+import { LANGUAGES, localizePath } from "@/lib/i18n";
 import { client } from "@/lib/sanity/client";
 import { siteSettingsQuery } from "@/lib/sanity/queries";
+import { getLanguageUrls } from "@/lib/seo/metadata";
 
 // =============================================================================
 // GROQ QUERIES
@@ -77,6 +80,28 @@ const DEFAULTS = {
   ],
 } as const;
 
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+/**
+ * One entry for the unprefixed (x-default) URL and one per language,
+ * all linked to each other as hreflang alternates
+ */
+function localizeEntry(
+  baseUrl: string,
+  path: string,
+  entry: Omit<SitemapEntry, "url" | "alternates">
+): MetadataRoute.Sitemap {
+  const alternates = { languages: getLanguageUrls(path, baseUrl) };
+
+  return [path, ...LANGUAGES.map((language) => localizePath(path, language))].map(
+    (localizedPath) => ({ ...entry, url: `${baseUrl}${localizedPath}`, alternates })
+  );
+}
+
 // =============================================================================
 // SITEMAP GENERATOR
 // =============================================================================
@@ -108,23 +133,25 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     const products = productsResult.success ? productsResult.data : [];
 
     // Build product URLs
-    const productUrls: MetadataRoute.Sitemap = products.map((product) => ({
-      url: `${baseUrl}/products/${product.slug}`,
-      lastModified: new Date(product._updatedAt),
-      changeFrequency: productDefaults.changeFrequency,
-      priority: productDefaults.priority,
-    }));
+    const productUrls: MetadataRoute.Sitemap = products.flatMap((product) =>
+      localizeEntry(baseUrl, `/products/${product.slug}`, {
+        lastModified: new Date(product._updatedAt),
+        changeFrequency: productDefaults.changeFrequency,
+        priority: productDefaults.priority,
+      })
+    );
 
     // Get static pages from config or use defaults
     const staticPagesConfig = sitemapConfig?.staticPages ?? DEFAULTS.staticPages;
 
     // Build static page URLs
-    const staticUrls: MetadataRoute.Sitemap = staticPagesConfig.map((page) => ({
-      url: `${baseUrl}${page.path}`,
-      lastModified: new Date(),
-      changeFrequency: page.changeFrequency,
-      priority: page.priority,
-    }));
+    const staticUrls: MetadataRoute.Sitemap = staticPagesConfig.flatMap((page) =>
+      localizeEntry(baseUrl, page.path, {
+        lastModified: new Date(),
+        changeFrequency: page.changeFrequency,
+        priority: page.priority,
+      })
+    );
 
     return [...staticUrls, ...productUrls];
   } catch (error: unknown) {
@@ -0,0 +1,18 @@
+/**
+ * Studio Root Layout
+ * Bare document for the embedded Sanity Studio, which brings its own styles.
+ */
+
+export { metadata, viewport } from "next-sanity/studio";
+
+export default function StudioLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="en" suppressHydrationWarning>
+      <body>{children}</body>
+    </html>
+  );
+}
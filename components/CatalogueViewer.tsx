@@ -11,6 +11,7 @@ import dynamic from "next/dynamic";
 import { motion } from "framer-motion";
 import { cn, getGoogleDriveImageUrl } from "@/lib/utils";
 import DecorativeBackground from "@/components/ui/DecorativeBackground";
+import { useLanguage } from "@/context/LanguageContext";
 import type { Product } from "@/sanity.types";
 
 const HTMLFlipBook = dynamic(() => import("react-pageflip"), {
@@ -31,6 +32,8 @@ interface FlipBookInstance {
 
 export interface CatalogueViewerProps {
   products: Product[];
+  /** Generated print catalogue; omitted while the catalogue is inactive */
+  pdfUrl?: string | undefined;
 }
 
 interface ProductPageProps {
@@ -445,7 +448,8 @@ const CoverPage = forwardRef<HTMLDivElement, { title: string; subtitle?: string
 );
 CoverPage.displayName = "CoverPage";
 
-export default function CatalogueViewer({ products }: CatalogueViewerProps) {
+export default function CatalogueViewer({ products, pdfUrl }: CatalogueViewerProps) {
+  const { language, t } = useLanguage();
   const flipBookRef = useRef<FlipBookInstance | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -642,10 +646,20 @@ export default function CatalogueViewer({ products }: CatalogueViewerProps) {
         </p>
       </motion.div>
 
-      <div className="justify-center mb-8 hidden md:flex">
+      <div className="justify-center items-center gap-4 mb-8 flex">
+        {pdfUrl ? (
+          <a
+            href={`${pdfUrl}?lang=${language}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="bg-gold hover:bg-gold-dark text-white px-6 py-3 rounded-full font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
+          >
+            {t("catalogueViewer.downloadPdf")}
+          </a>
+        ) : null}
         <button
           onClick={toggleFullscreen}
-          className="group bg-white/80 backdrop-blur-sm p-4 rounded-full shadow-lg hover:shadow-xl hover:bg-white transition-all duration-300 text-deep-brown border border-gold-light/30"
+          className="group hidden md:block bg-white/80 backdrop-blur-sm p-4 rounded-full shadow-lg hover:shadow-xl hover:bg-white transition-all duration-300 text-deep-brown border border-gold-light/30"
           title="Fullscreen Mode"
         >
           <svg
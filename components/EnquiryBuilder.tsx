@@ -4,99 +4,47 @@
  * Enquiry Builder Component
  *
  * Floating action button and panel for managing product enquiries.
- * Refactored to Zod validation, removal of 'any' types, and secure navigation.
+ * Labels come from the message catalogue (see lib/i18n/messages).
  */
 
 import { useState, useEffect, useSyncExternalStore } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useRouter } from "next/navigation";
-import { z } from "zod";
-import { addEnquiryItem, getEnquiryItems } from "@/lib/utils/enquiry";
+import {
+  addEnquiryItem,
+  getEnquiryItems,
+  getProductEnquiryOptions,
+  subscribeToEnquiryItems,
+} from "@/lib/utils/enquiry";
+import { toQuantity } from "@/lib/utils/quantity";
 import EnquiryPanel from "@/components/EnquiryPanel";
 import { trackEvent } from "@/components/analytics/GA4";
 import { useLanguage } from "@/context/LanguageContext";
 import { getLocalized } from "@/lib/i18n";
 import { showToast } from "@/components/ui/Toast";
 
-// =============================================================================
-// ZOD VALIDATION SCHEMAS
-// =============================================================================
-
-const ItemLabelsSchema = z.object({
-  grade: z.string().optional(),
-  packFormat: z.string().optional(),
-  quantity: z.string().optional(),
-  moq: z.string().optional(),
-  notes: z.string().optional(),
-  save: z.string().optional(),
-  cancel: z.string().optional(),
-  edit: z.string().optional(),
-});
-
-const PanelLabelsSchema = z.object({
-  title: z.string().optional(),
-  emptyState: z.string().optional(),
-  emptyStateSub: z.string().optional(),
-  exportPdf: z.string().optional(),
-  submitEnquiry: z.string().optional(),
-  clearAll: z.string().optional(),
-  confirmClear: z.string().optional(),
-  itemLabels: ItemLabelsSchema.optional(),
-  closePanelAria: z.string().optional(),
-});
-
-const BuilderLabelsSchema = z.object({
-  buttonLabel: z.string().optional(),
-});
-
-const EnquiryBuilderLabelsSchema = z.object({
-  panel: PanelLabelsSchema.optional(),
-  builder: BuilderLabelsSchema.optional(),
-  pdfError: z.string().optional(),
-  emptyEnquiryError: z.string().optional(),
-  openBuilderAria: z.string().optional(),
-});
-
-const EnquiryBuilderPropsSchema = z.object({
-  labels: EnquiryBuilderLabelsSchema.optional(),
-});
-
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export type EnquiryBuilderProps = z.infer<typeof EnquiryBuilderPropsSchema>;
-export type PanelLabels = z.infer<typeof PanelLabelsSchema>;
-
 interface ProductDetail {
   _id?: string;
   id?: string;
   title: Record<string, string> | string;
-  MOQ?: string;
+  MOQ?: unknown;
 }
 
 // =============================================================================
 // COMPONENT
 // =============================================================================
 
-export default function EnquiryBuilder({ labels }: EnquiryBuilderProps) {
-  // Validate props in development
-  if (process.env.NODE_ENV === "development") {
-    const result = EnquiryBuilderPropsSchema.safeParse({ labels });
-    if (!result.success) {
-      console.warn("[EnquiryBuilder] Prop validation warning:", result.error.flatten());
-    }
-  }
-
+export default function EnquiryBuilder() {
   const [isPanelOpen, setIsPanelOpen] = useState(false);
-  const { language } = useLanguage();
+  const { language, t } = useLanguage();
   const router = useRouter();
 
   const itemCount = useSyncExternalStore(
-    (callback) => {
-      window.addEventListener("enquiryUpdated", callback);
-      return () => window.removeEventListener("enquiryUpdated", callback);
-    },
+    subscribeToEnquiryItems,
     () => getEnquiryItems().length,
     () => 0
   );
@@ -114,16 +62,19 @@ export default function EnquiryBuilder({ labels }: EnquiryBuilderProps) {
         productTitle = getLocalized(product.title as any, language);
       }
 
+      const moq = toQuantity(product.MOQ);
+      const { gradeOptions, packFormatOptions } = getProductEnquiryOptions(product);
       addEnquiryItem({
         productId: product._id || product.id || `unknown-${Date.now()}`,
         productTitle: productTitle,
-        MOQ: product.MOQ || "",
+        ...(moq ? { MOQ: moq } : {}),
+        ...(gradeOptions.length > 0 ? { gradeOptions } : {}),
+        ...(packFormatOptions.length > 0 ? { packFormatOptions } : {}),
       });
 
-      window.dispatchEvent(new Event("enquiryUpdated"));
       trackEvent("add_to_enquiry", { product: productTitle, location: "builder" });
 
-      showToast(`${productTitle} added to enquiry!`, "success");
+      showToast(t("enquiry.addedToast", { product: productTitle }), "success");
     };
 
     const handleOpenPanel = () => {
@@ -138,7 +89,7 @@ export default function EnquiryBuilder({ labels }: EnquiryBuilderProps) {
       window.removeEventListener("addToEnquiry", handleAddToEnquiry);
       window.removeEventListener("openEnquiryPanel", handleOpenPanel);
     };
-  }, [language]);
+  }, [language, t]);
 
   const handleExportPDF = async () => {
     const items = getEnquiryItems();
@@ -146,7 +97,7 @@ export default function EnquiryBuilder({ labels }: EnquiryBuilderProps) {
       const response = await fetch("/api/enquiry/pdf", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ items }),
+        body: JSON.stringify({ items, language }),
       });
 
       if (response.ok) {
@@ -161,17 +112,56 @@ export default function EnquiryBuilder({ labels }: EnquiryBuilderProps) {
         window.URL.revokeObjectURL(url);
         trackEvent("enquiry_pdf_exported");
       } else {
-        alert(labels?.pdfError ?? "Failed to generate PDF. Please try again.");
+        alert(t("enquiry.pdfError"));
       }
     } catch {
-      alert(labels?.pdfError ?? "An error occurred. Please try again.");
+      alert(t("enquiry.pdfError"));
+    }
+  };
+
+  const handleShare = async () => {
+    const items = getEnquiryItems();
+    if (items.length === 0) {
+      alert(t("enquiry.emptyEnquiryError"));
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/enquiry/share", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items }),
+      });
+      const data = (await response.json()) as { success?: boolean; url?: string };
+
+      if (!response.ok || !data.url) {
+        showToast(t("enquiry.panel.shareError"), "error");
+        return;
+      }
+
+      trackEvent("enquiry_shared", { item_count: items.length });
+
+      if (typeof navigator.share === "function") {
+        try {
+          await navigator.share({ url: data.url });
+          return;
+        } catch (error: unknown) {
+          // User dismissed the share sheet; otherwise fall back to the clipboard
+          if (error instanceof DOMException && error.name === "AbortError") return;
+        }
+      }
+
+      await navigator.clipboard.writeText(data.url);
+      showToast(t("enquiry.panel.shareSuccess"), "success");
+    } catch {
+      showToast(t("enquiry.panel.shareError"), "error");
     }
   };
 
   const handleSubmit = () => {
     const items = getEnquiryItems();
     if (items.length === 0) {
-      alert(labels?.emptyEnquiryError ?? "Your enquiry list is empty.");
+      alert(t("enquiry.emptyEnquiryError"));
       return;
     }
 
@@ -198,7 +188,7 @@ export default function EnquiryBuilder({ labels }: EnquiryBuilderProps) {
               trackEvent("enquiry_panel_opened");
             }}
             className="fixed bottom-24 right-6 md:bottom-28 md:right-8 z-40 bg-gold hover:bg-gold-dark text-white rounded-full px-6 py-4 shadow-[0_25px_60px_rgba(0,0,0,0.35)] flex items-center gap-3 focus:outline-2 focus:outline-white focus:outline-offset-2"
-            aria-label={labels?.openBuilderAria ?? "Open Enquiry Builder"}
+            aria-label={t("enquiry.openBuilderAria")}
           >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path
@@ -209,7 +199,7 @@ export default function EnquiryBuilder({ labels }: EnquiryBuilderProps) {
               />
             </svg>
             <span className="hidden sm:inline font-semibold tracking-wide">
-              {labels?.builder?.buttonLabel ?? "Enquiry List"}
+              {t("enquiry.builder.buttonLabel")}
             </span>
             {itemCount > 0 ? (
               <span className="bg-white/90 text-gold-dark rounded-full px-3 py-1 text-xs font-bold">
@@ -225,8 +215,7 @@ export default function EnquiryBuilder({ labels }: EnquiryBuilderProps) {
         onClose={() => setIsPanelOpen(false)}
         onExportPDF={handleExportPDF}
         onSubmit={handleSubmit}
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        labels={labels?.panel as any}
+        onShare={handleShare}
       />
     </>
   );
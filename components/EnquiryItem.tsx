@@ -10,70 +10,172 @@
 import { useState } from "react";
 import { z } from "zod";
 import type { EnquiryItem as EnquiryItemType } from "@/lib/utils/enquiry";
+import {
+  DEFAULT_UNIT_LABELS,
+  formatQuantity,
+  isBelowMoq,
+  MAX_QUANTITY_AMOUNT,
+  QUANTITY_UNITS,
+  type QuantityUnit,
+} from "@/lib/utils/quantity";
+import { useLanguage } from "@/context/LanguageContext";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
 // =============================================================================
 
-const EnquiryLabelsSchema = z.object({
-  grade: z.string().optional(),
-  packFormat: z.string().optional(),
-  quantity: z.string().optional(),
-  moq: z.string().optional(),
-  notes: z.string().optional(),
-  save: z.string().optional(),
-  cancel: z.string().optional(),
-  edit: z.string().optional(),
-  gradePlaceholder: z.string().optional(),
-  packFormatPlaceholder: z.string().optional(),
-  quantityPlaceholder: z.string().optional(),
-  notesPlaceholder: z.string().optional(),
-  removeAriaLabel: z.string().optional(),
-});
-
 const EnquiryItemPropsSchema = z.object({
   item: z.custom<EnquiryItemType>(),
   onUpdate: z.custom<(id: string, updates: Partial<EnquiryItemType>) => void>(),
   onRemove: z.custom<(id: string) => void>(),
-  labels: EnquiryLabelsSchema.optional(),
 });
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export type EnquiryLabels = z.infer<typeof EnquiryLabelsSchema>;
 export type EnquiryItemProps = z.infer<typeof EnquiryItemPropsSchema>;
 
+interface OptionFieldProps {
+  id: string;
+  name: string;
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+  placeholder?: string | undefined;
+  selectPlaceholder: string;
+  otherLabel: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const OTHER_OPTION = "__other__";
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 border border-gray-200 rounded-md text-sm focus:ring-2 focus:ring-gold/50 focus:border-gold outline-none transition-all";
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+/**
+ * Picks one of the product's own options, with a free-text "Other" fallback.
+ * Without options (or for values typed before options existed) it is a plain
+ * text input.
+ */
+function OptionField({
+  id,
+  name,
+  label,
+  value,
+  options,
+  onChange,
+  placeholder,
+  selectPlaceholder,
+  otherLabel,
+}: OptionFieldProps) {
+  const [isOther, setIsOther] = useState(Boolean(value) && !options.includes(value));
+
+  const labelElement = (
+    <label htmlFor={id} className="block text-xs font-medium text-(--color-muted) mb-1">
+      {label}
+    </label>
+  );
+
+  if (options.length === 0) {
+    return (
+      <div>
+        {labelElement}
+        <input
+          id={id}
+          name={name}
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={INPUT_CLASS}
+          placeholder={placeholder}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {labelElement}
+      <select
+        id={id}
+        name={name}
+        value={isOther ? OTHER_OPTION : value}
+        onChange={(e) => {
+          const selected = e.target.value;
+          setIsOther(selected === OTHER_OPTION);
+          onChange(selected === OTHER_OPTION ? "" : selected);
+        }}
+        className={`${INPUT_CLASS} bg-white`}
+      >
+        <option value="">{selectPlaceholder}</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+        <option value={OTHER_OPTION}>{otherLabel}</option>
+      </select>
+      {isOther ? (
+        <input
+          name={`${name}Other`}
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          aria-label={label}
+          className={`${INPUT_CLASS} mt-2`}
+          placeholder={placeholder}
+          autoFocus
+        />
+      ) : null}
+    </div>
+  );
+}
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
 
-export default function EnquiryItem({ item, onUpdate, onRemove, labels }: EnquiryItemProps) {
+export default function EnquiryItem({ item, onUpdate, onRemove }: EnquiryItemProps) {
   // Validate props in development
   if (process.env.NODE_ENV === "development") {
     const result = EnquiryItemPropsSchema.safeParse({
       item,
       onUpdate,
       onRemove,
-      labels,
     });
     if (!result.success) {
       console.warn("[EnquiryItem] Prop validation warning:", result.error.flatten());
     }
   }
 
+  const { t } = useLanguage();
   const [isEditing, setIsEditing] = useState(false);
   const [grade, setGrade] = useState(item.grade || "");
   const [packFormat, setPackFormat] = useState(item.packFormat || "");
-  const [quantity, setQuantity] = useState(item.quantity || "");
+  const [amount, setAmount] = useState(item.quantity ? String(item.quantity.amount) : "");
+  const [unit, setUnit] = useState<QuantityUnit>(item.quantity?.unit ?? item.MOQ?.unit ?? "kg");
   const [notes, setNotes] = useState(item.notes || "");
 
+  const draftAmount = Number(amount);
+  const draftQuantity =
+    amount.trim() && draftAmount > 0 ? { amount: draftAmount, unit } : undefined;
+  const moqText = formatQuantity(item.MOQ);
+  const moqWarning = t("enquiry.belowMoqWarning", { moq: moqText });
+
   const handleSave = () => {
     const updates: Partial<EnquiryItemType> = {};
     if (grade.trim()) updates.grade = grade.trim();
     if (packFormat.trim()) updates.packFormat = packFormat.trim();
-    if (quantity.trim()) updates.quantity = quantity.trim();
+    if (draftQuantity) updates.quantity = draftQuantity;
     if (notes.trim()) updates.notes = notes.trim();
 
     onUpdate(item.id, updates);
@@ -89,7 +191,7 @@ export default function EnquiryItem({ item, onUpdate, onRemove, labels }: Enquir
         <button
           onClick={() => onRemove(item.id)}
           className="text-(--color-muted) hover:text-red-600 transition-colors focus:outline-2 focus:outline-red-500 focus:rounded p-1"
-          aria-label={labels?.removeAriaLabel ?? "Remove item"}
+          aria-label={t("enquiry.removeAriaLabel")}
         >
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path
@@ -104,63 +206,75 @@ export default function EnquiryItem({ item, onUpdate, onRemove, labels }: Enquir
 
       {isEditing ? (
         <div className="space-y-3">
-          <div>
-            <label
-              htmlFor={`enquiry-grade-${item.id}`}
-              className="block text-xs font-medium text-(--color-muted) mb-1"
-            >
-              {labels?.grade || "Grade"}
-            </label>
-            <input
-              id={`enquiry-grade-${item.id}`}
-              name="grade"
-              type="text"
-              value={grade}
-              onChange={(e) => setGrade(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-200 rounded-md text-sm focus:ring-2 focus:ring-gold/50 focus:border-gold outline-none transition-all"
-              placeholder={labels?.gradePlaceholder}
-            />
-          </div>
-          <div>
-            <label
-              htmlFor={`enquiry-pack-${item.id}`}
-              className="block text-xs font-medium text-(--color-muted) mb-1"
-            >
-              {labels?.packFormat || "Pack Format"}
-            </label>
-            <input
-              id={`enquiry-pack-${item.id}`}
-              name="packFormat"
-              type="text"
-              value={packFormat}
-              onChange={(e) => setPackFormat(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-200 rounded-md text-sm focus:ring-2 focus:ring-gold/50 focus:border-gold outline-none transition-all"
-              placeholder={labels?.packFormatPlaceholder}
-            />
-          </div>
+          <OptionField
+            id={`enquiry-grade-${item.id}`}
+            name="grade"
+            label={t("enquiry.gradeLabel")}
+            value={grade}
+            options={item.gradeOptions ?? []}
+            onChange={setGrade}
+            placeholder={t("enquiry.gradePlaceholder")}
+            selectPlaceholder={t("enquiry.selectPlaceholder")}
+            otherLabel={t("enquiry.otherOption")}
+          />
+          <OptionField
+            id={`enquiry-pack-${item.id}`}
+            name="packFormat"
+            label={t("enquiry.packFormatLabel")}
+            value={packFormat}
+            options={item.packFormatOptions ?? []}
+            onChange={setPackFormat}
+            placeholder={t("enquiry.packFormatPlaceholder")}
+            selectPlaceholder={t("enquiry.selectPlaceholder")}
+            otherLabel={t("enquiry.otherOption")}
+          />
           <div>
             <label
               htmlFor={`enquiry-quantity-${item.id}`}
               className="block text-xs font-medium text-(--color-muted) mb-1"
             >
-              {labels?.quantity || "Quantity"}
+              {t("enquiry.quantityLabel")}
             </label>
-            <input
-              id={`enquiry-quantity-${item.id}`}
-              name="quantity"
-              type="text"
-              value={quantity}
-              onChange={(e) => setQuantity(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-200 rounded-md text-sm focus:ring-2 focus:ring-gold/50 focus:border-gold outline-none transition-all"
-              placeholder={labels?.quantityPlaceholder}
-            />
+            <div className="flex gap-2">
+              <input
+                id={`enquiry-quantity-${item.id}`}
+                name="quantity"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                max={MAX_QUANTITY_AMOUNT}
+                step="any"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-md text-sm focus:ring-2 focus:ring-gold/50 focus:border-gold outline-none transition-all"
+                placeholder={t("enquiry.quantityPlaceholder")}
+              />
+              <select
+                name="unit"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as QuantityUnit)}
+                aria-label={t("enquiry.unitLabel")}
+                className="px-3 py-2 border border-gray-200 rounded-md text-sm bg-white focus:ring-2 focus:ring-gold/50 focus:border-gold outline-none transition-all"
+              >
+                {QUANTITY_UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {DEFAULT_UNIT_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {isBelowMoq(draftQuantity, item.MOQ) ? (
+              <p className="mt-1 text-xs text-amber-700" role="status">
+                {moqWarning}
+              </p>
+            ) : null}
           </div>
           <div>
             <label
               htmlFor={`enquiry-notes-${item.id}`}
               className="block text-xs font-medium text-(--color-muted) mb-1"
             >
-              {labels?.notes || "Notes"}
+              {t("enquiry.notesLabel")}
             </label>
             <textarea
               id={`enquiry-notes-${item.id}`}
@@ -169,7 +283,7 @@ export default function EnquiryItem({ item, onUpdate, onRemove, labels }: Enquir
               onChange={(e) => setNotes(e.target.value)}
               className="w-full px-3 py-2 border border-gray-200 rounded-md text-sm focus:ring-2 focus:ring-gold/50 focus:border-gold outline-none transition-all"
               rows={2}
-              placeholder={labels?.notesPlaceholder}
+              placeholder={t("enquiry.notesPlaceholder")}
             />
           </div>
           <div className="flex gap-2 justify-end mt-2">
@@ -177,13 +291,13 @@ export default function EnquiryItem({ item, onUpdate, onRemove, labels }: Enquir
               onClick={handleSave}
               className="text-xs bg-gold text-white px-3 py-1.5 rounded hover:bg-gold-dark transition-colors focus:outline-2 focus:outline-gold-dark focus:outline-offset-1 font-medium"
             >
-              {labels?.save || "Save"}
+              {t("enquiry.saveLabel")}
             </button>
             <button
               onClick={() => setIsEditing(false)}
               className="text-xs border border-gray-300 px-3 py-1.5 rounded hover:bg-gray-50 transition-colors focus:outline-2 focus:outline-gray-400 focus:outline-offset-1 font-medium"
             >
-              {labels?.cancel || "Cancel"}
+              {t("enquiry.cancelLabel")}
             </button>
           </div>
         </div>
@@ -192,7 +306,7 @@ export default function EnquiryItem({ item, onUpdate, onRemove, labels }: Enquir
           {item.grade ? (
             <p className="flex justify-between border-b border-gray-50 pb-1 last:border-0 last:pb-0">
               <strong className="text-(--color-muted) font-medium">
-                {labels?.grade || "Grade"}:
+                {t("enquiry.gradeLabel")}:
               </strong>
               <span className="text-gray-800">{item.grade}</span>
             </p>
@@ -200,7 +314,7 @@ export default function EnquiryItem({ item, onUpdate, onRemove, labels }: Enquir
           {item.packFormat ? (
             <p className="flex justify-between border-b border-gray-50 pb-1 last:border-0 last:pb-0">
               <strong className="text-(--color-muted) font-medium">
-                {labels?.packFormat || "Format"}:
+                {t("enquiry.packFormatLabel")}:
               </strong>
               <span className="text-gray-800">{item.packFormat}</span>
             </p>
@@ -208,21 +322,26 @@ export default function EnquiryItem({ item, onUpdate, onRemove, labels }: Enquir
           {item.quantity ? (
             <p className="flex justify-between border-b border-gray-50 pb-1 last:border-0 last:pb-0">
               <strong className="text-(--color-muted) font-medium">
-                {labels?.quantity || "Quantity"}:
+                {t("enquiry.quantityLabel")}:
               </strong>
-              <span className="text-gray-800">{item.quantity}</span>
+              <span className="text-gray-800">{formatQuantity(item.quantity)}</span>
+            </p>
+          ) : null}
+          {isBelowMoq(item.quantity, item.MOQ) ? (
+            <p className="text-xs text-amber-700" role="status">
+              {moqWarning}
             </p>
           ) : null}
           {item.MOQ ? (
             <p className="flex justify-between border-b border-gray-50 pb-1 last:border-0 last:pb-0">
-              <strong className="text-(--color-muted) font-medium">{labels?.moq || "MOQ"}:</strong>
-              <span className="text-gray-800">{item.MOQ}</span>
+              <strong className="text-(--color-muted) font-medium">{t("enquiry.moqLabel")}:</strong>
+              <span className="text-gray-800">{moqText}</span>
             </p>
           ) : null}
           {item.notes ? (
             <div className="pt-2 mt-1 border-t border-dashed border-gray-200">
               <strong className="block text-(--color-muted) font-medium mb-1 text-xs uppercase tracking-wide">
-                {labels?.notes || "Notes"}:
+                {t("enquiry.notesLabel")}:
               </strong>
               <p className="text-gray-700 bg-gray-50 p-2 rounded text-xs">{item.notes}</p>
             </div>
@@ -240,7 +359,7 @@ export default function EnquiryItem({ item, onUpdate, onRemove, labels }: Enquir
                 d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
               />
             </svg>
-            {labels?.edit || "Edit Details"}
+            {t("enquiry.editLabel")}
           </button>
         </div>
       )}
@@ -8,7 +8,7 @@
  * Validated with Zod for prop safety.
  */
 
-import { useEffect, useCallback, useSyncExternalStore } from "react";
+import { useEffect, useSyncExternalStore } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { z } from "zod";
 import {
@@ -16,6 +16,7 @@ import {
   removeEnquiryItem,
   updateEnquiryItem,
   clearEnquiryItems,
+  subscribeToEnquiryItems,
   type EnquiryItem,
 } from "@/lib/utils/enquiry";
 
@@ -23,52 +24,24 @@ const EMPTY_ITEMS: ReturnType<typeof getEnquiryItems> = [];
 
 import EnquiryItemComponent from "@/components/EnquiryItem";
 import { trackEvent } from "@/components/analytics/GA4";
+import { useLanguage } from "@/context/LanguageContext";
 
 // =============================================================================
 // ZOD VALIDATION SCHEMAS
 // =============================================================================
 
-const ItemLabelsSchema = z.object({
-  grade: z.string().optional(),
-  packFormat: z.string().optional(),
-  quantity: z.string().optional(),
-  moq: z.string().optional(),
-  notes: z.string().optional(),
-  save: z.string().optional(),
-  cancel: z.string().optional(),
-  edit: z.string().optional(),
-  gradePlaceholder: z.string().optional(),
-  packFormatPlaceholder: z.string().optional(),
-  quantityPlaceholder: z.string().optional(),
-  notesPlaceholder: z.string().optional(),
-  removeAriaLabel: z.string().optional(),
-});
-
-const EnquiryPanelLabelsSchema = z.object({
-  title: z.string().optional(),
-  emptyState: z.string().optional(),
-  emptyStateSub: z.string().optional(),
-  exportPdf: z.string().optional(),
-  submitEnquiry: z.string().optional(),
-  clearAll: z.string().optional(),
-  confirmClear: z.string().optional(),
-  itemLabels: ItemLabelsSchema.optional(),
-  closePanelAria: z.string().optional(),
-});
-
 const EnquiryPanelPropsSchema = z.object({
   isOpen: z.boolean(),
   onClose: z.function(),
   onExportPDF: z.function(),
   onSubmit: z.function(),
-  labels: EnquiryPanelLabelsSchema.optional(),
+  onShare: z.function().optional(),
 });
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export type EnquiryPanelLabels = z.infer<typeof EnquiryPanelLabelsSchema>;
 export type EnquiryPanelProps = z.infer<typeof EnquiryPanelPropsSchema>;
 
 // =============================================================================
@@ -80,7 +53,7 @@ export default function EnquiryPanel({
   onClose,
   onExportPDF,
   onSubmit,
-  labels,
+  onShare,
 }: EnquiryPanelProps) {
   // Validate props in development
   if (process.env.NODE_ENV === "development") {
@@ -89,37 +62,28 @@ export default function EnquiryPanel({
       onClose,
       onExportPDF,
       onSubmit,
-      labels,
+      onShare,
     });
     if (!result.success) {
       console.warn("[EnquiryPanel] Prop validation warning:", result.error.flatten());
     }
   }
 
-  const items = useSyncExternalStore(
-    useCallback((callback) => {
-      window.addEventListener("enquiryUpdated", callback);
-      return () => window.removeEventListener("enquiryUpdated", callback);
-    }, []),
-    getEnquiryItems,
-    () => EMPTY_ITEMS
-  );
+  const { t } = useLanguage();
+  const items = useSyncExternalStore(subscribeToEnquiryItems, getEnquiryItems, () => EMPTY_ITEMS);
 
   const handleItemUpdate = (id: string, updates: Partial<EnquiryItem>) => {
     updateEnquiryItem(id, updates);
-    window.dispatchEvent(new Event("enquiryUpdated"));
   };
 
   const handleRemove = (id: string) => {
     removeEnquiryItem(id);
-    window.dispatchEvent(new Event("enquiryUpdated"));
     trackEvent("enquiry_item_removed", { item_id: id });
   };
 
   const handleClear = () => {
-    if (confirm(labels?.confirmClear || "Are you sure you want to clear all items?")) {
+    if (confirm(t("enquiry.panel.confirmClear"))) {
       clearEnquiryItems();
-      window.dispatchEvent(new Event("enquiryUpdated"));
       trackEvent("enquiry_cleared");
     }
   };
@@ -134,6 +98,11 @@ export default function EnquiryPanel({
     onSubmit();
   };
 
+  const handleShare = () => {
+    trackEvent("enquiry_share_initiated", { item_count: items.length });
+    onShare?.();
+  };
+
   // Lock body scroll when panel is open
   useEffect(() => {
     if (isOpen) {
@@ -173,12 +142,12 @@ export default function EnquiryPanel({
                 id="enquiry-panel-title"
                 className="text-xl font-semibold text-(--color-graphite)"
               >
-                {labels?.title || "Your Enquiry"} ({items.length})
+                {t("enquiry.panel.title")} ({items.length})
               </h2>
               <button
                 onClick={onClose}
                 className="text-(--color-muted) hover:text-(--color-graphite) focus:outline-2 focus:outline-gold focus:rounded-full p-2 transition-colors"
-                aria-label={labels?.closePanelAria || "Close panel"}
+                aria-label={t("enquiry.panel.closePanelAria")}
               >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path
@@ -195,11 +164,9 @@ export default function EnquiryPanel({
               {items.length === 0 ? (
                 <div className="text-center py-12">
                   <p className="text-(--color-muted) mb-4 text-lg">
-                    {labels?.emptyState || "Your enquiry list is empty"}
-                  </p>
-                  <p className="text-sm text-(--color-muted)">
-                    {labels?.emptyStateSub || "Browse our products to add items."}
+                    {t("enquiry.panel.emptyState")}
                   </p>
+                  <p className="text-sm text-(--color-muted)">{t("enquiry.panel.emptyStateSub")}</p>
                 </div>
               ) : (
                 <>
@@ -210,7 +177,6 @@ export default function EnquiryPanel({
                         item={item}
                         onUpdate={handleItemUpdate}
                         onRemove={handleRemove}
-                        labels={labels?.itemLabels ?? {}}
                       />
                     ))}
                   </div>
@@ -219,16 +185,24 @@ export default function EnquiryPanel({
                   <div className="bg-paper p-4 rounded-xl border border-sand mb-6">
                     <h4 className="text-sm font-bold text-deep-brown mb-3 flex items-center gap-2">
                       <span className="w-2 h-2 bg-almond-gold rounded-full animate-pulse"></span>
-                      Response Times
+                      {t("enquiry.panel.responseTimes")}
                     </h4>
                     <div className="space-y-2 text-xs">
                       <div className="flex items-center gap-2">
-                        <span className="text-almond-gold font-semibold">📧 Email:</span>
-                        <span className="text-(--color-slate)">24-48 hours response</span>
+                        <span className="text-almond-gold font-semibold">
+                          📧 {t("enquiry.panel.emailLabel")}
+                        </span>
+                        <span className="text-(--color-slate)">
+                          {t("enquiry.panel.emailResponse")}
+                        </span>
                       </div>
                       <div className="flex items-center gap-2">
-                        <span className="text-almond-gold font-semibold">📱 WhatsApp:</span>
-                        <span className="text-(--color-slate)">12 hours response</span>
+                        <span className="text-almond-gold font-semibold">
+                          📱 {t("enquiry.panel.whatsappLabel")}
+                        </span>
+                        <span className="text-(--color-slate)">
+                          {t("enquiry.panel.whatsappResponse")}
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -239,20 +213,28 @@ export default function EnquiryPanel({
                         onClick={handleExport}
                         className="col-span-1 bg-black text-white px-4 py-3 rounded-full font-semibold tracking-wide hover:bg-(--color-graphite) transition shadow-sm focus:ring-2 focus:ring-offset-2 focus:ring-black"
                       >
-                        {labels?.exportPdf || "Export PDF"}
+                        {t("enquiry.panel.exportPdf")}
                       </button>
                       <button
                         onClick={handleSubmit}
                         className="col-span-1 bg-gold hover:bg-gold-dark text-white px-4 py-3 rounded-full font-semibold tracking-wide transition shadow-sm focus:ring-2 focus:ring-offset-2 focus:ring-gold"
                       >
-                        {labels?.submitEnquiry || "Submit Items"}
+                        {t("enquiry.panel.submitEnquiry")}
                       </button>
                     </div>
+                    {onShare ? (
+                      <button
+                        onClick={handleShare}
+                        className="w-full border border-gold text-gold-dark hover:bg-gold/10 px-4 py-3 rounded-full font-semibold tracking-wide transition focus:ring-2 focus:ring-offset-2 focus:ring-gold"
+                      >
+                        {t("enquiry.panel.shareList")}
+                      </button>
+                    ) : null}
                     <button
                       onClick={handleClear}
                       className="w-full text-xs text-red-500 hover:text-red-700 hover:bg-red-50 px-4 py-2 rounded-lg font-medium transition"
                     >
-                      {labels?.clearAll || "Clear all items"}
+                      {t("enquiry.panel.clearAll")}
                     </button>
                   </div>
                 </>
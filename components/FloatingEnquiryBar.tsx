@@ -2,8 +2,10 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import { z } from "zod";
-import { useCallback, useSyncExternalStore } from "react";
-import { getEnquiryItems } from "@/lib/utils/enquiry";
+import { useSyncExternalStore } from "react";
+import { getEnquiryItems, subscribeToEnquiryItems } from "@/lib/utils/enquiry";
+import { formatQuantity } from "@/lib/utils/quantity";
+import { useLanguage } from "@/context/LanguageContext";
 
 const EMPTY_ITEMS: ReturnType<typeof getEnquiryItems> = [];
 
@@ -11,17 +13,7 @@ const EMPTY_ITEMS: ReturnType<typeof getEnquiryItems> = [];
 // ZOD VALIDATION SCHEMAS
 // =============================================================================
 
-const FloatingEnquiryLabelsSchema = z.object({
-  item: z.string().optional(),
-  items: z.string().optional(),
-  inYourEnquiry: z.string().optional(),
-  readyToSubmit: z.string().optional(),
-  viewEnquiry: z.string().optional(),
-  submitEnquiry: z.string().optional(),
-});
-
 const FloatingEnquiryBarPropsSchema = z.object({
-  labels: FloatingEnquiryLabelsSchema.optional(),
   whatsappNumber: z.string().optional(),
 });
 
@@ -29,7 +21,6 @@ const FloatingEnquiryBarPropsSchema = z.object({
 // TYPES
 // =============================================================================
 
-export type FloatingEnquiryLabels = z.infer<typeof FloatingEnquiryLabelsSchema>;
 export type FloatingEnquiryBarProps = z.infer<typeof FloatingEnquiryBarPropsSchema>;
 
 // =============================================================================
@@ -37,25 +28,18 @@ export type FloatingEnquiryBarProps = z.infer<typeof FloatingEnquiryBarPropsSche
 // =============================================================================
 
 export default function FloatingEnquiryBar({
-  labels,
   whatsappNumber = "919878122400",
 }: FloatingEnquiryBarProps) {
   // Validate props in dev
   if (process.env.NODE_ENV === "development") {
-    const result = FloatingEnquiryBarPropsSchema.safeParse({ labels, whatsappNumber });
+    const result = FloatingEnquiryBarPropsSchema.safeParse({ whatsappNumber });
     if (!result.success) {
       console.warn("[FloatingEnquiryBar] Prop validation warning:", result.error.flatten());
     }
   }
 
-  const items = useSyncExternalStore(
-    useCallback((callback) => {
-      window.addEventListener("enquiryUpdated", callback);
-      return () => window.removeEventListener("enquiryUpdated", callback);
-    }, []),
-    getEnquiryItems,
-    () => EMPTY_ITEMS
-  );
+  const { t } = useLanguage();
+  const items = useSyncExternalStore(subscribeToEnquiryItems, getEnquiryItems, () => EMPTY_ITEMS);
 
   const itemCount = items.length;
   const isVisible = itemCount > 0;
@@ -73,10 +57,10 @@ export default function FloatingEnquiryBar({
 
       message += `${index + 1}. ${title}`;
       if (item.MOQ) {
-        message += ` (MOQ: ${item.MOQ})`;
+        message += ` (MOQ: ${formatQuantity(item.MOQ)})`;
       }
 
-      if (item.quantity) message += ` - Qty: ${item.quantity}`;
+      if (item.quantity) message += ` - Qty: ${formatQuantity(item.quantity)}`;
       if (item.packFormat) message += ` (${item.packFormat})`;
 
       message += "\n";
@@ -130,14 +114,14 @@ export default function FloatingEnquiryBar({
                 </div>
 
                 <span className="font-semibold text-lg">
-                  {itemCount} {itemCount === 1 ? labels?.item || "Item" : labels?.items || "Items"}
+                  {t("enquiry.floatingBar.itemCount", { count: itemCount })}
                   <span className="text-white/60 text-sm font-normal ml-1 hidden xs:inline">
-                    {labels?.inYourEnquiry || "in your enquiry"}
+                    {t("enquiry.floatingBar.inYourEnquiry")}
                   </span>
                 </span>
               </div>
               <p className="text-sm text-gold-light/90 hidden md:block italic">
-                {labels?.readyToSubmit || "Ready to request a quote?"}
+                {t("enquiry.floatingBar.readyToSubmit")}
               </p>
             </div>
 
@@ -147,13 +131,13 @@ export default function FloatingEnquiryBar({
                 onClick={handleOpenPanel}
                 className="flex-1 sm:flex-none px-6 py-2.5 border border-white/20 hover:bg-white/10 text-white rounded-lg font-medium transition-all hover:scale-105 active:scale-95 focus:outline-2 focus:outline-white focus:outline-offset-2"
               >
-                {labels?.viewEnquiry || "View List"}
+                {t("enquiry.floatingBar.viewEnquiry")}
               </button>
               <button
                 onClick={handleSubmit}
                 className="flex-1 sm:flex-none px-6 py-2.5 bg-gold hover:bg-gold-dark text-white rounded-lg font-bold shadow-lg shadow-gold/20 transition-all hover:scale-105 active:scale-95 focus:outline-2 focus:outline-white focus:outline-offset-2 flex items-center justify-center gap-2"
               >
-                <span>{labels?.submitEnquiry || "Request Quote"}</span>
+                <span>{t("enquiry.floatingBar.submitEnquiry")}</span>
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path
                     strokeLinecap="round"
@@ -4,6 +4,7 @@ import Link from "next/link";
 import { z } from "zod";
 import type { SanityImageSource } from "@sanity/image-url";
 import { useLanguage } from "@/context/LanguageContext";
+import { getLocalized, type LocaleString, type LocaleText } from "@/lib/i18n";
 import OptimizedImage from "@/components/ui/OptimizedImage";
 
 // =============================================================================
@@ -33,17 +34,17 @@ const FooterDataSchema = z.object({
 });
 
 const FooterLabelsSchema = z.object({
-  companyDescription: z.string().optional(),
-  companyTitle: z.string().optional(),
-  quickLinksTitle: z.string().optional(),
-  productsTitle: z.string().optional(),
-  certificationsTitle: z.string().optional(),
-  copyrightText: z.string().optional(),
-  privacyNote: z.string().optional(),
-  privacyPolicyText: z.string().optional(),
-  servingText: z.string().optional(),
-  isoLabel: z.string().optional(),
-  fssaiLabel: z.string().optional(),
+  companyDescription: z.custom<LocaleText>().optional(),
+  companyTitle: z.custom<LocaleString>().optional(),
+  quickLinksTitle: z.custom<LocaleString>().optional(),
+  productsTitle: z.custom<LocaleString>().optional(),
+  certificationsTitle: z.custom<LocaleString>().optional(),
+  copyrightText: z.custom<LocaleString>().optional(),
+  privacyNote: z.custom<LocaleString>().optional(),
+  privacyPolicyText: z.custom<LocaleString>().optional(),
+  servingText: z.custom<LocaleString>().optional(),
+  isoLabel: z.custom<LocaleString>().optional(),
+  fssaiLabel: z.custom<LocaleString>().optional(),
 });
 
 const AccessibilityLabelsSchema = z
@@ -148,7 +149,7 @@ export default function Footer({
     }
   }
 
-  useLanguage();
+  const { language } = useLanguage();
 
   // Safe defaults
   const footer = {
@@ -201,10 +202,14 @@ export default function Footer({
 
   const currentYear = new Date().getFullYear();
   const copyright =
-    labels?.copyrightText ||
+    getLocalized(labels?.copyrightText, language) ||
     footer.copyrightText ||
     `© ${currentYear} ${companyName}. All rights reserved.`;
 
+  const isoLabel = getLocalized(labels?.isoLabel, language);
+  const fssaiLabel = getLocalized(labels?.fssaiLabel, language);
+  const servingText = getLocalized(labels?.servingText, language);
+
   return (
     <footer className="bg-deep-brown pt-12 md:pt-16 pb-8 md:pb-10 relative overflow-hidden text-ivory border-t-4 border-gold">
       <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[80%] h-px bg-gold/20"></div>
@@ -228,10 +233,10 @@ export default function Footer({
                 />
               </Link>
               <h3 className="text-2xl md:text-3xl font-bold mb-2 md:mb-3 text-gold-light! font-heading tracking-wide">
-                {labels?.companyTitle || companyName}
+                {getLocalized(labels?.companyTitle, language) || companyName}
               </h3>
               <p className="text-sm md:text-base leading-normal md:leading-relaxed text-ivory/90! max-w-sm">
-                {labels?.companyDescription}
+                {getLocalized(labels?.companyDescription, language)}
               </p>
             </div>
 
@@ -275,7 +280,7 @@ export default function Footer({
           {/* Quick Links */}
           <div className="lg:col-span-2">
             <h4 className="text-lg md:text-xl font-bold mb-4 md:mb-6 text-gold-light! tracking-widest uppercase border-b-2 border-gold/30 pb-2 inline-block">
-              {labels?.quickLinksTitle || "Quick Links"}
+              {getLocalized(labels?.quickLinksTitle, language) || "Quick Links"}
             </h4>
             <ul className="space-y-1 md:space-y-3">
               {footer.quickLinks.map((link, index) => (
@@ -302,7 +307,7 @@ export default function Footer({
           {/* Product Categories */}
           <div className="lg:col-span-3">
             <h4 className="text-lg md:text-xl font-bold mb-4 md:mb-6 text-gold-light! tracking-widest uppercase border-b-2 border-gold/30 pb-2 inline-block">
-              {labels?.productsTitle || "Our Range"}
+              {getLocalized(labels?.productsTitle, language) || "Our Range"}
             </h4>
             <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2 md:gap-y-3">
               {dynamicProductLinks.map((link) => (
@@ -321,18 +326,18 @@ export default function Footer({
           {/* Certifications */}
           <div className="lg:col-span-3">
             <h4 className="text-lg md:text-xl font-bold mb-4 md:mb-6 text-gold-light! tracking-widest uppercase border-b-2 border-gold/30 pb-2 inline-block">
-              {labels?.certificationsTitle || "Certifications"}
+              {getLocalized(labels?.certificationsTitle, language) || "Certifications"}
             </h4>
             <div className="space-y-3 md:space-y-5">
               <div className="flex flex-wrap gap-3">
-                {labels?.isoLabel ? (
+                {isoLabel ? (
                   <div className="px-4 py-2 border border-gold/40 rounded bg-gold/10 text-xs font-bold text-gold tracking-wider uppercase">
-                    {labels.isoLabel}
+                    {isoLabel}
                   </div>
                 ) : null}
-                {labels?.fssaiLabel ? (
+                {fssaiLabel ? (
                   <div className="px-4 py-2 border border-gold/40 rounded bg-gold/10 text-xs font-bold text-gold tracking-wider uppercase">
-                    {labels.fssaiLabel}
+                    {fssaiLabel}
                   </div>
                 ) : null}
               </div>
@@ -344,9 +349,9 @@ export default function Footer({
                 Make an Enquiry
               </button>
 
-              {labels?.servingText ? (
+              {servingText ? (
                 <p className="text-xs text-ivory/50! italic border-l-2 border-gold/30 pl-3">
-                  {labels.servingText}
+                  {servingText}
                 </p>
               ) : null}
             </div>
@@ -362,7 +367,7 @@ export default function Footer({
               href="/privacy-policy"
               className="text-ivory/60! hover:text-gold transition-colors"
             >
-              {labels?.privacyPolicyText || "Privacy Policy"}
+              {getLocalized(labels?.privacyPolicyText, language) || "Privacy Policy"}
             </Link>
             {footer.privacyNote ? (
               <span className="text-ivory/40! hidden md:inline">| {footer.privacyNote}</span>
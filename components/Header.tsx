@@ -8,6 +8,8 @@ import MobileMenu from "./MobileMenu";
 import ProductsDropdown from "./ProductsDropdown";
 import LanguageSwitcher from "./LanguageSwitcher";
 
+import { useLanguage } from "@/context/LanguageContext";
+import { getLocalized, type LocaleString } from "@/lib/i18n";
 import { urlForImage } from "@/lib/sanity/image";
 import type { SanityImageSource } from "@sanity/image-url";
 
@@ -49,13 +51,13 @@ const SiteSettingsSchema = z
       .optional(),
     navigation: z
       .object({
-        home: z.string().optional(),
-        products: z.string().optional(),
-        catalogue: z.string().optional(),
+        home: z.custom<LocaleString>().optional(),
+        products: z.custom<LocaleString>().optional(),
+        catalogue: z.custom<LocaleString>().optional(),
         homeUrl: z.string().optional(),
         productsUrl: z.string().optional(),
         catalogueUrl: z.string().optional(),
-        productsLabel: z.string().optional(),
+        productsLabel: z.custom<LocaleString>().optional(),
       })
       .optional(),
   })
@@ -97,6 +99,7 @@ export default function Header({ initialHeader, products, siteSettings }: Header
     }
   }
 
+  const { language, t } = useLanguage();
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
@@ -117,11 +120,11 @@ export default function Header({ initialHeader, products, siteSettings }: Header
 
   // Dynamic Navigation Labels & URLs
   const nav = siteSettings?.navigation;
-  const homeLabel = nav?.home || "Home";
+  const homeLabel = getLocalized(nav?.home, language) || t("navigation.home");
   const homeUrl = nav?.homeUrl || "/";
   // const catalogueLabel = nav?.catalogue || "Catalogue";
   // const catalogueUrl = nav?.catalogueUrl || "/catalogue";
-  const productsLabel = nav?.productsLabel || nav?.products || "Products";
+  const productsLabel = getLocalized(nav?.productsLabel, language) || t("navigation.products");
   const tradeButtonText = header.tradeButtonText || "Get Quote";
 
   return (
@@ -184,7 +187,7 @@ export default function Header({ initialHeader, products, siteSettings }: Header
                 products={products || []}
                 labels={
                   siteSettings as unknown as {
-                    navigation: { productsLabel: string; productsUrl: string };
+                    navigation: { productsLabel: LocaleString; productsUrl: string };
                   }
                 }
               />
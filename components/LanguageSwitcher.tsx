@@ -58,7 +58,7 @@ export default function LanguageSwitcher() {
       <button
         onClick={() => setIsOpen(!isOpen)}
         className="flex items-center space-x-2 px-3 py-2 rounded-lg hover:bg-beige transition-colors focus:outline-2 focus:outline-gold"
-        aria-label={t("selectLanguage")}
+        aria-label={t("navigation.selectLanguage")}
         aria-expanded={isOpen}
         aria-haspopup="listbox"
       >
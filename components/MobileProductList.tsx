@@ -5,6 +5,8 @@ import { urlForImage } from "@/lib/sanity/image";
 import type { SanityImageSource } from "@sanity/image-url";
 import { useLanguage } from "@/context/LanguageContext";
 import { getLocalized, type LocaleString, type LocaleText } from "@/lib/i18n";
+import { filterProducts, type ProductFilters } from "@/lib/utils/product-filters";
+import { formatQuantity, toQuantity } from "@/lib/utils/quantity";
 import OptimizedImage from "@/components/ui/OptimizedImage";
 
 // =============================================================================
@@ -17,9 +19,11 @@ const ProductSchema = z.object({
   category: z.string(),
   description: z.custom<LocaleText>().optional(),
   heroImage: z.custom<SanityImageSource>().optional(),
-  MOQ: z.string().optional(),
+  MOQ: z.unknown().optional(),
   packFormats: z.array(z.string()).optional(),
   grades: z.array(z.string()).optional(),
+  specifications: z.object({ origin: z.string().nullish() }).nullish(),
+  applications: z.array(z.string()).nullish(),
 });
 
 const LabelsSchema = z.object({
@@ -34,6 +38,7 @@ const MobileProductListPropsSchema = z.object({
   selectedProducts: z.custom<Set<string>>((val) => val instanceof Set),
   toggleProductSelection: z.function(),
   labels: LabelsSchema.optional(),
+  filters: z.record(z.string(), z.string().optional()).optional(),
 });
 
 type Product = z.infer<typeof ProductSchema>;
@@ -43,6 +48,8 @@ interface MobileProductListProps {
   selectedProducts: Set<string>;
   toggleProductSelection: (id: string) => void;
   labels?: z.infer<typeof LabelsSchema>;
+  /** Listing filters, e.g. parsed from the URL with parseProductFilters */
+  filters?: ProductFilters | undefined;
 }
 
 // =============================================================================
@@ -54,6 +61,7 @@ export default function MobileProductList({
   selectedProducts,
   toggleProductSelection,
   labels = {},
+  filters,
 }: MobileProductListProps) {
   // Runtime validation in development
   if (process.env.NODE_ENV === "development") {
@@ -62,6 +70,7 @@ export default function MobileProductList({
       selectedProducts,
       toggleProductSelection,
       labels,
+      filters,
     });
     if (!result.success) {
       console.warn("[MobileProductList] Prop validation warning:", result.error.flatten());
@@ -76,9 +85,11 @@ export default function MobileProductList({
   const packagingLabel = labels?.packagingLabel || "Packaging:";
   const quantityLabel = labels?.quantityLabel || "Quantity:";
 
+  const visibleProducts = filters ? filterProducts(products, filters, language) : products;
+
   return (
     <div className="space-y-6 pb-32">
-      {products.map((product) => {
+      {visibleProducts.map((product) => {
         const productTitle = getLocalized(product.title, language);
         const productDescription = getLocalized(product.description, language);
         const isSelected = selectedProducts.has(product._id);
@@ -167,12 +178,14 @@ export default function MobileProductList({
                 ) : null}
 
                 {/* MOQ */}
-                {product.MOQ ? (
+                {toQuantity(product.MOQ) ? (
                   <div className="flex items-baseline gap-2">
                     <span className="text-xs font-bold text-gold-dark uppercase tracking-wider min-w-[80px]">
                       {quantityLabel}
                     </span>
-                    <span className="text-deep-brown font-medium">{product.MOQ}</span>
+                    <span className="text-deep-brown font-medium">
+                      {formatQuantity(toQuantity(product.MOQ))}
+                    </span>
                   </div>
                 ) : null}
               </div>
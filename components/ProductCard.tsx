@@ -9,6 +9,7 @@ import type { SanityImageSource } from "@sanity/image-url";
 import { getLocalized, type LocaleString, type LocaleText } from "@/lib/i18n";
 import { useLanguage, type Language } from "@/context/LanguageContext";
 import { getGoogleDriveImageUrl } from "@/lib/utils";
+import { formatQuantity, toQuantity } from "@/lib/utils/quantity";
 import OptimizedImage from "@/components/ui/OptimizedImage";
 
 // =============================================================================
@@ -46,7 +47,7 @@ const ProductSchema = z.object({
   applications: z.array(z.string()).optional().nullable(),
   heroImage: z.custom<SanityImageSource>().optional().nullable(),
   heroImageUrl: z.string().optional().nullable(),
-  MOQ: z.string().optional().nullable(),
+  MOQ: z.unknown().optional(),
   grades: z.array(z.string()).optional().nullable(),
   packFormats: z.array(z.string()).optional().nullable(),
 });
@@ -132,6 +133,7 @@ export default function ProductCard({ product, onAddToEnquiry, labels }: Product
   const appLabel = labels?.productCard?.applicationsLabel || "Applications:";
   const packLabel = labels?.productCard?.packLabel || "Pack:";
   const moqLabel = labels?.productCard?.moqLabel || "Min. Order:";
+  const moqText = formatQuantity(toQuantity(product.MOQ));
 
   const quickItems = (product.listSections?.[0]?.items || []).slice(0, 2).map((item) => {
     const isNestedItem = typeof item === "object" && item !== null && "text" in item;
@@ -255,12 +257,12 @@ export default function ProductCard({ product, onAddToEnquiry, labels }: Product
           ) : null}
 
           {/* MOQ */}
-          {product.MOQ ? (
+          {moqText ? (
             <div className="flex items-start gap-2">
               <span className="text-almond-gold font-semibold text-xs uppercase tracking-wider min-w-28 shrink-0">
                 {moqLabel}
               </span>
-              <span className="text-text-muted text-xs font-medium">{product.MOQ}</span>
+              <span className="text-text-muted text-xs font-medium">{moqText}</span>
             </div>
           ) : null}
         </div>
@@ -18,7 +18,7 @@ import ProductVarietiesSection, {
 import ProductGradingSection, {
   type ProductGrade,
 } from "@/components/sections/ProductGradingSection";
-import { Globe, Package, Hourglass, Warehouse, ChevronDown } from "lucide-react";
+import { Globe, Package, Hourglass, Warehouse, ChevronDown, FileDown } from "lucide-react";
 
 // =============================================================================
 // ZOD SCHEMAS & TYPES
@@ -122,13 +122,14 @@ const LabelsSchema = z.object({
     addToEnquiry: z.string().optional(),
     backToProducts: z.string().optional(),
     programSuffix: z.string().optional(),
+    downloadSpecSheet: z.string().optional(),
   }),
   common: z.object({
     addToEnquiry: z.string().optional(),
   }),
   navigation: z.object({
-    home: z.string().optional(),
-    products: z.string().optional(),
+    home: z.custom<LocaleString>().optional(),
+    products: z.custom<LocaleString>().optional(),
     homeUrl: z.string().optional(),
     productsUrl: z.string().optional(),
   }),
@@ -269,14 +270,14 @@ export default function ProductDetail({ product, labels }: ProductDetailProps) {
               href={labels.navigation.homeUrl || "/"}
               className="hover:text-gold transition-colors"
             >
-              {labels.navigation.home || "Home"}
+              {getLocalized(labels.navigation.home, language) || "Home"}
             </Link>
             <span>{labels.apiConfig.breadcrumbSeparator || "/"}</span>
             <Link
               href={labels.navigation.productsUrl || "/products"}
               className="hover:text-gold transition-colors"
             >
-              {labels.navigation.products || "Products"}
+              {getLocalized(labels.navigation.products, language) || "Products"}
             </Link>
             <span>{labels.apiConfig.breadcrumbSeparator || "/"}</span>
             <span className="text-deep-brown">{productTitle}</span>
@@ -541,6 +542,18 @@ export default function ProductDetail({ product, labels }: ProductDetailProps) {
                     Product Forms
                   </button>
                 </div>
+                {product.slug?.current ? (
+                  // Serves the uploaded spec sheet, or one generated in the visitor's language
+                  <a
+                    href={`/products/${product.slug.current}/spec-sheet.pdf?lang=${language}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-2 text-sm font-semibold text-deep-brown hover:text-gold transition-colors"
+                  >
+                    <FileDown className="w-4 h-4" />
+                    {labels.productDetail.downloadSpecSheet || "Download Spec Sheet"}
+                  </a>
+                ) : null}
               </div>
             </div>
 
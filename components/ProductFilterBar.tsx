@@ -0,0 +1,174 @@
+"use client";
+
+/**
+ * Product Filter Bar Component
+ *
+ * Search box, facet selects and sort order for the product listing.
+ * Fully controlled: the parent owns the filters and keeps them in the URL.
+ */
+
+import { useId } from "react";
+import { Search, X } from "lucide-react";
+
+import { useLanguage } from "@/context/LanguageContext";
+import { formatCategory } from "@/lib/utils";
+import {
+  hasActiveProductFilters,
+  PRODUCT_SORTS,
+  type ProductFacets,
+  type ProductFilters,
+  type ProductSort,
+} from "@/lib/utils/product-filters";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ProductFilterBarProps {
+  filters: ProductFilters;
+  facets: ProductFacets;
+  resultCount: number;
+  onChange: (filters: ProductFilters) => void;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const CONTROL_CLASS =
+  "w-full px-3 py-2 border border-sand rounded-lg text-sm text-deep-brown bg-white focus:ring-2 focus:ring-gold/50 focus:border-gold outline-none transition-all";
+
+const LABEL_CLASS = "block text-xs font-bold uppercase tracking-wider text-gold-dark mb-1";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function ProductFilterBar({
+  filters,
+  facets,
+  resultCount,
+  onChange,
+}: ProductFilterBarProps) {
+  const id = useId();
+  const { t } = useLanguage();
+
+  const sortLabels: Record<ProductSort, string> = {
+    order: t("productFilters.sortOrder"),
+    title: t("productFilters.sortTitle"),
+  };
+
+  const update = (key: keyof ProductFilters, value: string) => {
+    onChange({ ...filters, [key]: value || undefined });
+  };
+
+  const facetSelects: Array<{
+    key: "category" | "origin" | "application";
+    label: string;
+    options: string[];
+    format?: (value: string) => string;
+  }> = [
+    {
+      key: "category",
+      label: t("productFilters.categoryLabel"),
+      options: facets.categories,
+      format: formatCategory,
+    },
+    { key: "origin", label: t("productFilters.originLabel"), options: facets.origins },
+    {
+      key: "application",
+      label: t("productFilters.applicationLabel"),
+      options: facets.applications,
+    },
+  ];
+
+  return (
+    <div
+      role="search"
+      className="mb-10 md:mb-16 bg-white/90 backdrop-blur-md p-4 md:p-6 rounded-2xl shadow-sm border border-sand"
+    >
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        <div className="sm:col-span-2 lg:col-span-1">
+          <label htmlFor={`${id}-q`} className={LABEL_CLASS}>
+            {t("productFilters.searchLabel")}
+          </label>
+          <div className="relative">
+            <Search
+              className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-muted pointer-events-none"
+              aria-hidden="true"
+            />
+            <input
+              id={`${id}-q`}
+              name="q"
+              type="search"
+              value={filters.q ?? ""}
+              onChange={(e) => update("q", e.target.value)}
+              placeholder={t("productFilters.searchPlaceholder")}
+              maxLength={100}
+              className={`${CONTROL_CLASS} pl-9`}
+            />
+          </div>
+        </div>
+
+        {facetSelects.map(({ key, label, options, format }) =>
+          options.length > 0 ? (
+            <div key={key}>
+              <label htmlFor={`${id}-${key}`} className={LABEL_CLASS}>
+                {label}
+              </label>
+              <select
+                id={`${id}-${key}`}
+                name={key}
+                value={filters[key] ?? ""}
+                onChange={(e) => update(key, e.target.value)}
+                className={CONTROL_CLASS}
+              >
+                <option value="">{t("productFilters.allOption")}</option>
+                {options.map((option) => (
+                  <option key={option} value={option}>
+                    {format ? format(option) : option}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null
+        )}
+
+        <div>
+          <label htmlFor={`${id}-sort`} className={LABEL_CLASS}>
+            {t("productFilters.sortLabel")}
+          </label>
+          <select
+            id={`${id}-sort`}
+            name="sort"
+            value={filters.sort ?? "order"}
+            onChange={(e) => update("sort", e.target.value)}
+            className={CONTROL_CLASS}
+          >
+            {PRODUCT_SORTS.map((sort) => (
+              <option key={sort} value={sort}>
+                {sortLabels[sort]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between gap-4 text-sm">
+        <p className="text-text-muted" aria-live="polite">
+          {t("productFilters.resultsLabel", { count: resultCount })}
+        </p>
+        {hasActiveProductFilters(filters) ? (
+          <button
+            type="button"
+            onClick={() => onChange({ sort: filters.sort })}
+            className="inline-flex items-center gap-1 font-semibold text-gold-dark hover:text-deep-brown transition-colors"
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+            {t("productFilters.clearLabel")}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useRef, useEffect } from "react";
 import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import { useLanguage } from "@/context/LanguageContext";
+import { getLocalized, type LocaleString } from "@/lib/i18n";
 import { z } from "zod";
 
 // =============================================================================
@@ -21,7 +22,7 @@ const ProductExcerptSchema = z.object({
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const LabelsSchema = z.object({
   navigation: z.object({
-    productsLabel: z.string().optional(),
+    productsLabel: z.custom<LocaleString>().optional(),
     productsUrl: z.string().optional(),
   }),
 });
@@ -45,7 +46,7 @@ interface ProductsDropdownProps {
 export default function ProductsDropdown({ products, labels }: ProductsDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  useLanguage();
+  const { language } = useLanguage();
 
   // Close on click outside
   useEffect(() => {
@@ -76,7 +77,7 @@ export default function ProductsDropdown({ products, labels }: ProductsDropdownP
     return () => document.removeEventListener("keydown", handleEscape);
   }, [isOpen]);
 
-  const labelText = labels?.navigation?.productsLabel || "Products";
+  const labelText = getLocalized(labels?.navigation?.productsLabel, language) || "Products";
   const baseUrl = labels?.navigation?.productsUrl || "/products";
 
   return (
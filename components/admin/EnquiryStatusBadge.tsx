@@ -0,0 +1,36 @@
+/**
+ * Enquiry Status Badge
+ * Colour-coded pill for an enquiry's pipeline stage.
+ */
+
+import type { EnquiryStatus } from "@prisma/client";
+import { cn } from "@/lib/utils";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STATUS_STYLES: Record<EnquiryStatus, string> = {
+  new: "bg-blue-50 text-blue-800 border-blue-200",
+  contacted: "bg-amber-50 text-amber-800 border-amber-200",
+  qualified: "bg-purple-50 text-purple-800 border-purple-200",
+  converted: "bg-green-50 text-green-800 border-green-200",
+  closed: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function EnquiryStatusBadge({ status }: { status: EnquiryStatus }) {
+  return (
+    <span
+      className={cn(
+        "inline-block rounded-full border px-2.5 py-0.5 text-xs font-semibold capitalize",
+        STATUS_STYLES[status]
+      )}
+    >
+      {status}
+    </span>
+  );
+}
@@ -14,6 +14,14 @@ import { z } from "zod";
 
 import { createTradeEnquirySchema, type TradeEnquiryInput } from "@/lib/validation/schemas";
 import { getEnquiryItems } from "@/lib/utils/enquiry";
+import {
+  DEFAULT_UNIT_LABELS,
+  formatQuantity,
+  MAX_QUANTITY_AMOUNT,
+  QUANTITY_UNITS,
+  type Quantity,
+  type QuantityUnit,
+} from "@/lib/utils/quantity";
 import { trackEvent } from "@/components/analytics/GA4";
 import { useLanguage } from "@/context/LanguageContext";
 
@@ -26,26 +34,10 @@ const ProductItemSchema = z.object({
   title: z.string(),
 });
 
-const FormLabelsSchema = z.object({
-  nameLabel: z.string().optional(),
-  companyLabel: z.string().optional(),
-  roleLabel: z.string().optional(),
-  emailLabel: z.string().optional(),
-  phoneLabel: z.string().optional(),
-  countryLabel: z.string().optional(),
-  productInterestLabel: z.string().optional(),
-  quantityLabel: z.string().optional(),
-  messageLabel: z.string().optional(),
-  submitButton: z.string().optional(),
-  submittingButton: z.string().optional(),
-  successMessage: z.string().optional(),
-  errorMessage: z.string().optional(),
+const FormConfigSchema = z.object({
   requiredIndicator: z.string().optional(),
   tradeEnquiryEndpoint: z.string().optional(),
-  tradeQuantityPlaceholder: z.string().optional(),
   honeypotTabIndex: z.number().optional(),
-  sampleRequestMessage: z.string().optional(),
-  enquiryListIntro: z.string().optional(),
   populateEventName: z.string().optional(),
 });
 
@@ -57,22 +49,16 @@ const AnalyticsConfigSchema = z.object({
 
 const ValidationConfigSchema = z.object({
   nameMinLength: z.number().optional(),
-  nameMinError: z.string().optional(),
-  emailInvalidError: z.string().optional(),
   messageMinLength: z.number().optional(),
-  messageMinError: z.string().optional(),
   companyMinLength: z.number().optional(),
-  companyRequiredError: z.string().optional(),
   phoneMinLength: z.number().optional(),
-  phoneRequiredError: z.string().optional(),
   countryMinLength: z.number().optional(),
-  countryRequiredError: z.string().optional(),
   honeypotMaxLength: z.number().optional(),
 });
 
 const TradeEnquiryFormPropsSchema = z.object({
   productList: z.array(ProductItemSchema).optional(),
-  formLabels: FormLabelsSchema.optional(),
+  formConfig: FormConfigSchema.optional(),
   analytics: AnalyticsConfigSchema.optional(),
   validation: ValidationConfigSchema.optional(),
   initialProduct: z.string().optional(),
@@ -84,7 +70,7 @@ const TradeEnquiryFormPropsSchema = z.object({
 // =============================================================================
 
 export type ProductItem = z.infer<typeof ProductItemSchema>;
-export type FormLabels = z.infer<typeof FormLabelsSchema>;
+export type FormConfig = z.infer<typeof FormConfigSchema>;
 export type AnalyticsConfig = z.infer<typeof AnalyticsConfigSchema>;
 export type ValidationConfig = z.infer<typeof ValidationConfigSchema>;
 export type TradeEnquiryFormProps = z.infer<typeof TradeEnquiryFormPropsSchema>;
@@ -97,26 +83,10 @@ type Complete<T> = {
 // DEFAULT VALUES
 // =============================================================================
 
-const DEFAULT_LABELS: Complete<FormLabels> = {
-  nameLabel: "Name",
-  companyLabel: "Company",
-  roleLabel: "Role (Optional)",
-  emailLabel: "Email",
-  phoneLabel: "Phone",
-  countryLabel: "Country",
-  productInterestLabel: "Products of Interest",
-  quantityLabel: "Estimated Quantity",
-  messageLabel: "Message",
-  submitButton: "Submit Enquiry",
-  submittingButton: "Submitting...",
-  successMessage: "Thank you for your enquiry. Our team will contact you shortly.",
-  errorMessage: "Something went wrong. Please try again.",
+const DEFAULT_CONFIG: Complete<FormConfig> = {
   requiredIndicator: "*",
   tradeEnquiryEndpoint: "/api/contact/trade",
-  tradeQuantityPlaceholder: "e.g., 1 MT, 500 kg",
   honeypotTabIndex: -1,
-  sampleRequestMessage: "I am interested in requesting a sample for {product}.",
-  enquiryListIntro: "Please find the following products in my enquiry:",
   populateEventName: "populateEnquiryForm",
 };
 
@@ -128,16 +98,10 @@ const DEFAULT_ANALYTICS: Complete<AnalyticsConfig> = {
 
 const DEFAULT_VALIDATION: Complete<ValidationConfig> = {
   nameMinLength: 2,
-  nameMinError: "Name must be at least 2 characters",
-  emailInvalidError: "Please enter a valid email",
   messageMinLength: 10,
-  messageMinError: "Message must be at least 10 characters",
   companyMinLength: 2,
-  companyRequiredError: "Company is required",
   phoneMinLength: 10,
-  phoneRequiredError: "Phone is required",
   countryMinLength: 2,
-  countryRequiredError: "Country is required",
   honeypotMaxLength: 0,
 };
 
@@ -147,20 +111,20 @@ const DEFAULT_VALIDATION: Complete<ValidationConfig> = {
 
 export default function TradeEnquiryForm({
   productList,
-  formLabels,
+  formConfig,
   analytics,
   validation,
   initialProduct,
   initialAction,
 }: TradeEnquiryFormProps) {
-  useLanguage();
+  const { language, t } = useLanguage();
   const searchParams = useSearchParams();
 
   // Runtime prop validation in dev
   if (process.env.NODE_ENV === "development") {
     const result = TradeEnquiryFormPropsSchema.safeParse({
       productList,
-      formLabels,
+      formConfig,
       analytics,
       validation,
       initialProduct,
@@ -174,20 +138,30 @@ export default function TradeEnquiryForm({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<"success" | "error" | null>(null);
   const [selectedProducts, setSelectedProducts] = useState<string[]>([]);
+  const [quantityAmount, setQuantityAmount] = useState("");
+  const [quantityUnit, setQuantityUnit] = useState<QuantityUnit>("mt");
 
   // Merge with defaults
-  const labels = useMemo(
-    () => ({ ...DEFAULT_LABELS, ...formLabels }) as Complete<FormLabels>,
-    [formLabels]
+  const config = useMemo(
+    () => ({ ...DEFAULT_CONFIG, ...formConfig }) as Complete<FormConfig>,
+    [formConfig]
   );
   const analyticsConfig = useMemo(
     () => ({ ...DEFAULT_ANALYTICS, ...analytics }) as Complete<AnalyticsConfig>,
     [analytics]
   );
-  const validationConfig = useMemo(
-    () => ({ ...DEFAULT_VALIDATION, ...validation }) as Complete<ValidationConfig>,
-    [validation]
-  );
+  const validationConfig = useMemo(() => {
+    const limits = { ...DEFAULT_VALIDATION, ...validation } as Complete<ValidationConfig>;
+    return {
+      ...limits,
+      nameMinError: t("validation.nameMinError", { min: limits.nameMinLength }),
+      emailInvalidError: t("validation.emailInvalidError"),
+      messageMinError: t("validation.messageMinError", { min: limits.messageMinLength }),
+      companyRequiredError: t("validation.companyRequiredError"),
+      phoneRequiredError: t("validation.phoneRequiredError"),
+      countryRequiredError: t("validation.countryRequiredError"),
+    };
+  }, [validation, t]);
 
   // Localized products list
   const products = useMemo(
@@ -239,13 +213,22 @@ export default function TradeEnquiryForm({
     setValue("productInterest", selectedProducts);
   }, [selectedProducts, setValue]);
 
+  // Sync structured quantity with form; a blank amount means "not specified"
+  useEffect(() => {
+    const amount = Number(quantityAmount);
+    setValue(
+      "quantity",
+      quantityAmount.trim() && amount > 0 ? { amount, unit: quantityUnit } : undefined
+    );
+  }, [quantityAmount, quantityUnit, setValue]);
+
   // Handle sample request action
   useEffect(() => {
     if (initialAction === "sample" && initialProduct) {
-      const message = labels.sampleRequestMessage.replace("{product}", initialProduct);
+      const message = t("forms.sampleRequestMessage", { product: initialProduct });
       setValue("message", message);
     }
-  }, [initialAction, initialProduct, setValue, labels.sampleRequestMessage]);
+  }, [initialAction, initialProduct, setValue, t]);
 
   // Handle pending enquiry population from session storage
   useEffect(() => {
@@ -254,16 +237,19 @@ export default function TradeEnquiryForm({
       try {
         const items = JSON.parse(pendingData) as Array<{
           productTitle: string;
-          quantity?: string;
+          quantity?: Quantity;
         }>;
         if (items.length > 0) {
           const productTitles = items.map((item) => item.productTitle);
           setSelectedProducts(productTitles);
           setValue("productInterest", productTitles);
 
-          const intro = labels.enquiryListIntro;
+          const intro = t("forms.enquiryListIntro");
           const itemsList = items
-            .map((item) => `- ${item.productTitle}${item.quantity ? ` (${item.quantity})` : ""}`)
+            .map(
+              (item) =>
+                `- ${item.productTitle}${item.quantity ? ` (${formatQuantity(item.quantity)})` : ""}`
+            )
             .join("\n");
           setValue("message", `${intro}\n${itemsList}`);
         }
@@ -275,7 +261,7 @@ export default function TradeEnquiryForm({
         sessionStorage.removeItem("pendingEnquiryPopulation");
       }
     }
-  }, [setValue, labels.enquiryListIntro]);
+  }, [setValue, t]);
 
   // Handle populate event from enquiry builder
   useEffect(() => {
@@ -286,18 +272,21 @@ export default function TradeEnquiryForm({
         setSelectedProducts(productTitles);
         setValue("productInterest", productTitles);
 
-        const intro = labels.enquiryListIntro;
+        const intro = t("forms.enquiryListIntro");
         const itemsList = items
-          .map((item) => `- ${item.productTitle}${item.quantity ? ` (${item.quantity})` : ""}`)
+          .map(
+            (item) =>
+              `- ${item.productTitle}${item.quantity ? ` (${formatQuantity(item.quantity)})` : ""}`
+          )
           .join("\n");
         setValue("message", `${intro}\n${itemsList}`);
       }
     };
 
-    const eventName = labels.populateEventName;
+    const eventName = config.populateEventName;
     window.addEventListener(eventName, handlePopulate);
     return () => window.removeEventListener(eventName, handlePopulate);
-  }, [setValue, labels.enquiryListIntro, labels.populateEventName]);
+  }, [setValue, t, config.populateEventName]);
 
   const onSubmit = useCallback(
     async (data: TradeEnquiryInput) => {
@@ -310,16 +299,17 @@ export default function TradeEnquiryForm({
       setSubmitStatus(null);
 
       try {
-        const response = await fetch(labels.tradeEnquiryEndpoint, {
+        const response = await fetch(config.tradeEnquiryEndpoint, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(data),
+          body: JSON.stringify({ ...data, language }),
         });
 
         if (response.ok) {
           setSubmitStatus("success");
           reset();
           setSelectedProducts([]);
+          setQuantityAmount("");
 
           trackEvent(analyticsConfig.eventFormSubmission, {
             [analyticsConfig.paramFormType]: analyticsConfig.formTypeTrade,
@@ -336,7 +326,7 @@ export default function TradeEnquiryForm({
         setIsSubmitting(false);
       }
     },
-    [labels.tradeEnquiryEndpoint, analyticsConfig, reset]
+    [config.tradeEnquiryEndpoint, analyticsConfig, reset, language]
   );
 
   const toggleProduct = useCallback((productTitle: string) => {
@@ -356,7 +346,7 @@ export default function TradeEnquiryForm({
         type="text"
         {...register("honeypot")}
         className="hidden"
-        tabIndex={labels.honeypotTabIndex}
+        tabIndex={config.honeypotTabIndex}
         autoComplete="off"
         aria-hidden="true"
       />
@@ -365,9 +355,9 @@ export default function TradeEnquiryForm({
         {/* Name Field */}
         <div>
           <label htmlFor="trade-name" className="block text-sm font-medium text-foreground mb-2">
-            {labels.nameLabel}{" "}
+            {t("forms.nameLabel")}{" "}
             <span className="text-red-500" aria-hidden="true">
-              {labels.requiredIndicator}
+              {config.requiredIndicator}
             </span>
           </label>
           <input
@@ -392,9 +382,9 @@ export default function TradeEnquiryForm({
         {/* Company Field */}
         <div>
           <label htmlFor="trade-company" className="block text-sm font-medium text-foreground mb-2">
-            {labels.companyLabel}{" "}
+            {t("forms.companyLabel")}{" "}
             <span className="text-red-500" aria-hidden="true">
-              {labels.requiredIndicator}
+              {config.requiredIndicator}
             </span>
           </label>
           <input
@@ -419,7 +409,7 @@ export default function TradeEnquiryForm({
         {/* Role Field */}
         <div>
           <label htmlFor="trade-role" className="block text-sm font-medium text-foreground mb-2">
-            {labels.roleLabel}
+            {t("forms.roleLabel")}
           </label>
           <input
             id="trade-role"
@@ -433,9 +423,9 @@ export default function TradeEnquiryForm({
         {/* Email Field */}
         <div>
           <label htmlFor="trade-email" className="block text-sm font-medium text-foreground mb-2">
-            {labels.emailLabel}{" "}
+            {t("forms.emailLabel")}{" "}
             <span className="text-red-500" aria-hidden="true">
-              {labels.requiredIndicator}
+              {config.requiredIndicator}
             </span>
           </label>
           <input
@@ -460,9 +450,9 @@ export default function TradeEnquiryForm({
         {/* Phone Field */}
         <div>
           <label htmlFor="trade-phone" className="block text-sm font-medium text-foreground mb-2">
-            {labels.phoneLabel}{" "}
+            {t("forms.phoneLabel")}{" "}
             <span className="text-red-500" aria-hidden="true">
-              {labels.requiredIndicator}
+              {config.requiredIndicator}
             </span>
           </label>
           <input
@@ -487,9 +477,9 @@ export default function TradeEnquiryForm({
         {/* Country Field */}
         <div>
           <label htmlFor="trade-country" className="block text-sm font-medium text-foreground mb-2">
-            {labels.countryLabel}{" "}
+            {t("forms.countryLabel")}{" "}
             <span className="text-red-500" aria-hidden="true">
-              {labels.requiredIndicator}
+              {config.requiredIndicator}
             </span>
           </label>
           <input
@@ -515,12 +505,12 @@ export default function TradeEnquiryForm({
       {/* Product Interest Selection */}
       <fieldset className="space-y-3">
         <legend className="block text-sm font-semibold text-deep-brown mb-3">
-          {labels.productInterestLabel}
+          {t("forms.productInterestLabel")}
         </legend>
         <div
           className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3"
           role="group"
-          aria-label="Product selection"
+          aria-label={t("forms.productSelectionAria")}
         >
           {products.map((product) => {
             const isSelected = selectedProducts.includes(product.title);
@@ -558,24 +548,44 @@ export default function TradeEnquiryForm({
       {/* Quantity Field */}
       <div>
         <label htmlFor="trade-quantity" className="block text-sm font-medium text-foreground mb-2">
-          {labels.quantityLabel}
+          {t("forms.quantityLabel")}
         </label>
-        <input
-          id="trade-quantity"
-          type="text"
-          {...register("quantity")}
-          placeholder={labels.tradeQuantityPlaceholder}
-          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-2 focus:outline-gold transition-colors"
-          autoComplete="off"
-        />
+        <div className="flex gap-3">
+          <input
+            id="trade-quantity"
+            type="number"
+            inputMode="decimal"
+            min="0"
+            max={MAX_QUANTITY_AMOUNT}
+            step="any"
+            value={quantityAmount}
+            onChange={(e) => setQuantityAmount(e.target.value)}
+            placeholder={t("forms.tradeQuantityPlaceholder")}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-2 focus:outline-gold transition-colors"
+            autoComplete="off"
+          />
+          <select
+            id="trade-quantity-unit"
+            value={quantityUnit}
+            onChange={(e) => setQuantityUnit(e.target.value as QuantityUnit)}
+            aria-label={t("forms.quantityUnitLabel")}
+            className="px-4 py-3 border border-gray-300 rounded-lg bg-white focus:outline-2 focus:outline-gold transition-colors"
+          >
+            {QUANTITY_UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {DEFAULT_UNIT_LABELS[unit]}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Message Field */}
       <div>
         <label htmlFor="trade-message" className="block text-sm font-medium text-foreground mb-2">
-          {labels.messageLabel}{" "}
+          {t("forms.messageLabel")}{" "}
           <span className="text-red-500" aria-hidden="true">
-            {labels.requiredIndicator}
+            {config.requiredIndicator}
           </span>
         </label>
         <textarea
@@ -603,7 +613,7 @@ export default function TradeEnquiryForm({
           role="alert"
           aria-live="polite"
         >
-          {labels.successMessage}
+          {t("forms.successMessage")}
         </div>
       ) : null}
 
@@ -614,7 +624,7 @@ export default function TradeEnquiryForm({
           role="alert"
           aria-live="assertive"
         >
-          {labels.errorMessage}
+          {t("forms.errorMessage")}
         </div>
       ) : null}
 
@@ -624,7 +634,7 @@ export default function TradeEnquiryForm({
         disabled={isSubmitting}
         className="w-full bg-gold hover:bg-gold-dark text-white px-6 py-3 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed focus:outline-2 focus:outline-gold-dark focus:outline-offset-2 active:scale-95 shadow-md hover:shadow-lg"
       >
-        {isSubmitting ? labels.submittingButton : labels.submitButton}
+        {isSubmitting ? t("forms.submittingButton") : t("forms.submitButton")}
       </button>
     </form>
   );
@@ -135,7 +135,7 @@ export default function ContactContent({
   const siteSettings = parseSiteSettings(rawSiteSettings);
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const formLabels = (siteSettings.forms ?? {}) as any;
+  const formConfig = (siteSettings.forms ?? {}) as any;
   const routing = siteSettings.routing ?? {};
 
   const initialProduct = searchParams.get(routing.queryParamProduct ?? "product") ?? "";
@@ -194,7 +194,7 @@ export default function ContactContent({
           >
             <TradeEnquiryForm
               productList={productListTyped}
-              formLabels={formLabels}
+              formConfig={formConfig}
               analytics={analyticsConfig}
               validation={validationConfig}
               initialProduct={initialProduct}
@@ -0,0 +1,179 @@
+"use client";
+
+/**
+ * Shared Enquiry Content Component
+ *
+ * Previews an enquiry list opened from a share link and restores it into the
+ * visitor's local list. When a local list already exists the visitor chooses
+ * whether to merge the shared items into it or replace it.
+ */
+
+import { useState, useSyncExternalStore } from "react";
+import { motion } from "framer-motion";
+import { z } from "zod";
+import { getEnquiryItems, restoreEnquiryItems, subscribeToEnquiryItems } from "@/lib/utils/enquiry";
+import { formatQuantity, QuantitySchema } from "@/lib/utils/quantity";
+import { trackEvent } from "@/components/analytics/GA4";
+import { showToast } from "@/components/ui/Toast";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const SharedItemSchema = z.object({
+  productId: z.string(),
+  productTitle: z.string(),
+  grade: z.string().optional(),
+  packFormat: z.string().optional(),
+  quantity: QuantitySchema.optional(),
+  MOQ: QuantitySchema.optional(),
+  notes: z.string().optional(),
+});
+
+const SharedEnquiryLabelsSchema = z.object({
+  eyebrow: z.string().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  addLabel: z.string().optional(),
+  mergeLabel: z.string().optional(),
+  replaceLabel: z.string().optional(),
+  existingItemsNotice: z.string().optional(),
+  restoredMessage: z.string().optional(),
+  grade: z.string().optional(),
+  packFormat: z.string().optional(),
+  quantity: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const SharedEnquiryContentPropsSchema = z.object({
+  items: z.array(SharedItemSchema),
+  labels: SharedEnquiryLabelsSchema,
+});
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SharedEnquiryContentProps = z.infer<typeof SharedEnquiryContentPropsSchema>;
+
+type RestoreMode = "merge" | "replace";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function SharedEnquiryContent({ items, labels }: SharedEnquiryContentProps) {
+  // Validate props in development
+  if (process.env.NODE_ENV === "development") {
+    const result = SharedEnquiryContentPropsSchema.safeParse({ items, labels });
+    if (!result.success) {
+      console.warn("[SharedEnquiryContent] Prop validation warning:", result.error.flatten());
+    }
+  }
+
+  const [isRestored, setIsRestored] = useState(false);
+
+  const localCount = useSyncExternalStore(
+    subscribeToEnquiryItems,
+    () => getEnquiryItems().length,
+    () => 0
+  );
+
+  const handleRestore = (mode: RestoreMode) => {
+    restoreEnquiryItems(items, mode);
+    window.dispatchEvent(new Event("openEnquiryPanel"));
+    trackEvent("enquiry_share_restored", { mode, item_count: items.length });
+
+    setIsRestored(true);
+    showToast(labels.restoredMessage ?? "Items added to your enquiry list.", "success");
+  };
+
+  const details = (item: SharedEnquiryContentProps["items"][number]) =>
+    [
+      [labels.grade ?? "Grade", item.grade],
+      [labels.packFormat ?? "Pack", item.packFormat],
+      [labels.quantity ?? "Qty", formatQuantity(item.quantity)],
+    ].filter((entry): entry is [string, string] => Boolean(entry[1]));
+
+  return (
+    <div className="bg-background min-h-screen pt-[72px] md:pt-24 pb-16 md:pb-24">
+      <div className="container mx-auto px-4 md:px-6 lg:px-8 max-w-3xl">
+        <motion.header
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+          className="text-center mb-10"
+        >
+          <p className="uppercase tracking-[0.4em] text-xs text-(--color-muted) mb-4">
+            {labels.eyebrow ?? "Shared with you"}
+          </p>
+          <h1 className="text-3xl md:text-4xl font-bold text-deep-brown mb-4 font-heading">
+            {labels.title ?? "Shared Enquiry List"}
+          </h1>
+          <p className="text-(--color-slate) leading-relaxed">
+            {labels.description ??
+              "Review the products below and add them to your own enquiry list to request a quote."}
+          </p>
+        </motion.header>
+
+        <ul className="space-y-3 mb-8">
+          {items.map((item, index) => (
+            <li
+              key={`${item.productId}-${index}`}
+              className="bg-white p-5 rounded-2xl border border-sand shadow-sm"
+            >
+              <p className="font-semibold text-deep-brown">{item.productTitle}</p>
+              {details(item).length > 0 ? (
+                <p className="text-sm text-(--color-slate) mt-1">
+                  {details(item)
+                    .map(([label, value]) => `${label}: ${value}`)
+                    .join(" · ")}
+                </p>
+              ) : null}
+              {item.notes ? (
+                <p className="text-sm text-(--color-muted) mt-2">
+                  {labels.notes ?? "Notes"}: {item.notes}
+                </p>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+
+        {localCount > 0 && !isRestored ? (
+          <div className="space-y-3">
+            <p className="text-sm text-center text-(--color-slate)">
+              {(
+                labels.existingItemsNotice ??
+                "You already have {count} item(s) in your enquiry list."
+              ).replace("{count}", String(localCount))}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <button
+                onClick={() => handleRestore("merge")}
+                className="bg-gold hover:bg-gold-dark text-white px-6 py-3 rounded-full font-semibold tracking-wide transition shadow-sm focus:ring-2 focus:ring-offset-2 focus:ring-gold"
+              >
+                {labels.mergeLabel ?? "Merge with my list"}
+              </button>
+              <button
+                onClick={() => handleRestore("replace")}
+                className="border border-deep-brown text-deep-brown hover:bg-deep-brown hover:text-white px-6 py-3 rounded-full font-semibold tracking-wide transition focus:ring-2 focus:ring-offset-2 focus:ring-deep-brown"
+              >
+                {labels.replaceLabel ?? "Replace my list"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => handleRestore("replace")}
+            disabled={isRestored}
+            className="w-full bg-gold hover:bg-gold-dark disabled:opacity-60 text-white px-6 py-3 rounded-full font-semibold tracking-wide transition shadow-sm focus:ring-2 focus:ring-offset-2 focus:ring-gold"
+          >
+            {isRestored
+              ? (labels.restoredMessage ?? "Items added to your enquiry list.")
+              : (labels.addLabel ?? "Add to my enquiry list")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
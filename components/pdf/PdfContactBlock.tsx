@@ -0,0 +1,47 @@
+/**
+ * PDF Contact Block
+ * A labelled list of fields, e.g. the buyer's contact details or the
+ * document's date and reference. Empty values are skipped.
+ */
+
+import { Text, View } from "@react-pdf/renderer";
+
+import type { PdfTheme } from "@/lib/pdf/document";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PdfField {
+  /** Omitted for lines that speak for themselves, e.g. a country */
+  label?: string;
+  value: string | null | undefined;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function PdfContactBlock({
+  theme,
+  title,
+  fields,
+}: {
+  theme: PdfTheme;
+  title?: string;
+  fields: PdfField[];
+}) {
+  const visible = fields.filter((field) => Boolean(field.value));
+
+  return (
+    <View style={{ marginBottom: "5mm" }}>
+      {title ? <Text style={{ ...theme.emphasis, marginBottom: "1.5mm" }}>{title}</Text> : null}
+      {visible.map(({ label, value }, index) => (
+        <Text key={index} style={{ marginBottom: "1mm", color: theme.colors.darkGray }}>
+          {label ? <Text style={{ color: theme.colors.black }}>{label} </Text> : null}
+          {value}
+        </Text>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * PDF Cover Page
+ * Full-bleed branded page with the catalogue artwork, a double border and
+ * the logo, used for the front and back covers. Content is centred.
+ */
+
+import { Image, Page, View } from "@react-pdf/renderer";
+import type { ReactNode } from "react";
+
+import type { PdfTheme } from "@/lib/pdf/document";
+import type { PdfImage } from "@/lib/pdf/images";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function PdfCoverPage({
+  theme,
+  background,
+  logo,
+  children,
+}: {
+  theme: PdfTheme;
+  background: PdfImage | null;
+  logo: PdfImage | null;
+  children: ReactNode;
+}) {
+  const border = (inset: string, color: string) => (
+    <View
+      fixed
+      style={{ position: "absolute", top: inset, left: inset, right: inset, bottom: inset }}
+    >
+      <View style={{ flexGrow: 1, borderWidth: 0.75, borderColor: color }} />
+    </View>
+  );
+
+  return (
+    <Page
+      size="A4"
+      style={{
+        fontFamily: theme.fontFamily,
+        color: theme.colors.deepBrown,
+        backgroundColor: "#E8DDD0",
+        textAlign: "center",
+      }}
+    >
+      {background ? (
+        // react-pdf images take no alt text
+        // eslint-disable-next-line jsx-a11y/alt-text
+        <Image
+          fixed
+          src={background}
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            width: "210mm",
+            height: "297mm",
+            objectFit: "cover",
+          }}
+        />
+      ) : null}
+      {border("8mm", "#A69070")}
+      {border("11mm", "#C4B090")}
+
+      <View
+        style={{ flexGrow: 1, justifyContent: "center", alignItems: "center", padding: "25mm" }}
+      >
+        {logo ? (
+          // eslint-disable-next-line jsx-a11y/alt-text
+          <Image src={logo} style={{ width: "90mm", marginBottom: "10mm" }} />
+        ) : null}
+        {children}
+      </View>
+    </Page>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * PDF Footer
+ * Footer lines and page numbers, repeated at the bottom of every page.
+ */
+
+import { Text, View } from "@react-pdf/renderer";
+
+import type { PdfTheme } from "@/lib/pdf/document";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function PdfFooter({
+  theme,
+  lines,
+  locale,
+}: {
+  theme: PdfTheme;
+  lines: string[];
+  /** Locale the page numbers are formatted in */
+  locale: string;
+}) {
+  return (
+    <View
+      fixed
+      style={{
+        position: "absolute",
+        bottom: "10mm",
+        left: "14mm",
+        right: "14mm",
+        textAlign: "center",
+        fontSize: theme.fontSize.footer,
+        color: theme.colors.lightGray,
+      }}
+    >
+      {lines.map((line) => (
+        <Text key={line}>{line}</Text>
+      ))}
+      <Text
+        style={{ marginTop: "1.5mm" }}
+        // totalPages is only known on the final layout pass
+        render={({ pageNumber, totalPages }) =>
+          [pageNumber, totalPages]
+            .filter((value) => value !== undefined)
+            .map((value) => value.toLocaleString(locale))
+            .join(" / ")
+        }
+      />
+    </View>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * PDF Header
+ * Company name and document title, centred at the top of the first page.
+ */
+
+import { Text, View } from "@react-pdf/renderer";
+
+import type { PdfTheme } from "@/lib/pdf/document";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function PdfHeader({
+  theme,
+  companyName,
+  title,
+}: {
+  theme: PdfTheme;
+  companyName: string;
+  title: string;
+}) {
+  return (
+    <View style={{ marginBottom: "8mm", textAlign: "center" }}>
+      <Text
+        style={{
+          ...theme.emphasis,
+          fontSize: theme.fontSize.header,
+          color: theme.colors.deepBrown,
+        }}
+      >
+        {companyName}
+      </Text>
+      <Text
+        style={{ marginTop: "2mm", fontSize: theme.fontSize.subtitle, color: theme.colors.gray }}
+      >
+        {title}
+      </Text>
+    </View>
+  );
+}
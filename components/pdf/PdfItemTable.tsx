@@ -0,0 +1,103 @@
+/**
+ * PDF Item Table
+ * Line-item table whose header repeats on every page. Long product names
+ * and notes wrap inside their cell, and a row is never split across pages.
+ */
+
+import { Text, View } from "@react-pdf/renderer";
+
+import { alignTo, type PdfTheme } from "@/lib/pdf/document";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PdfColumn {
+  header: string;
+  /** Relative width; the CMS column widths are used as weights */
+  width: number;
+  align?: "start" | "end";
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function PdfItemTable({
+  theme,
+  columns,
+  rows,
+  summary,
+}: {
+  theme: PdfTheme;
+  columns: PdfColumn[];
+  rows: string[][];
+  /** Closing row aligned to the reading end, e.g. a total */
+  summary?: { label: string; value: string } | undefined;
+}) {
+  const rowDirection = theme.rtl ? "row-reverse" : "row";
+  const border =
+    theme.tableTheme === "grid" ? { borderWidth: 0.5, borderColor: theme.colors.lightGray } : {};
+
+  const cell = (column: PdfColumn) => ({
+    flexGrow: column.width,
+    flexBasis: 0,
+    padding: theme.cellPadding,
+    textAlign: alignTo(theme, column.align ?? "start"),
+    ...border,
+  });
+
+  return (
+    <View style={{ fontSize: theme.fontSize.table, marginBottom: "5mm" }}>
+      <View
+        fixed
+        style={{
+          flexDirection: rowDirection,
+          backgroundColor: theme.colors.gold,
+          color: theme.colors.white,
+          ...theme.emphasis,
+        }}
+      >
+        {columns.map((column) => (
+          <Text key={column.header} style={cell(column)}>
+            {column.header}
+          </Text>
+        ))}
+      </View>
+
+      {rows.map((row, rowIndex) => (
+        <View
+          key={rowIndex}
+          wrap={false}
+          style={{
+            flexDirection: rowDirection,
+            backgroundColor:
+              theme.tableTheme === "striped" && rowIndex % 2 === 1 ? "#f5f5f5" : "transparent",
+          }}
+        >
+          {columns.map((column, columnIndex) => (
+            <Text key={column.header} style={cell(column)}>
+              {row[columnIndex] ?? ""}
+            </Text>
+          ))}
+        </View>
+      ))}
+
+      {summary ? (
+        <View
+          wrap={false}
+          style={{
+            flexDirection: rowDirection,
+            justifyContent: "flex-end",
+            marginTop: "3mm",
+            fontSize: theme.fontSize.body,
+            color: theme.colors.deepBrown,
+          }}
+        >
+          <Text style={{ ...theme.emphasis, marginHorizontal: "2mm" }}>{summary.label}</Text>
+          <Text>{summary.value}</Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * PDF Page
+ * A4 page with the theme's fonts, colours and margins. Leaves room at the
+ * bottom for the fixed PdfFooter. Text direction is detected per paragraph,
+ * so the components only mirror alignment and column order.
+ */
+
+import { Page } from "@react-pdf/renderer";
+import type { ReactNode } from "react";
+
+import { alignTo, type PdfTheme } from "@/lib/pdf/document";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function PdfPage({ theme, children }: { theme: PdfTheme; children: ReactNode }) {
+  return (
+    <Page
+      size="A4"
+      style={{
+        fontFamily: theme.fontFamily,
+        fontSize: theme.fontSize.body,
+        color: theme.colors.black,
+        textAlign: alignTo(theme, "start"),
+        paddingTop: "14mm",
+        paddingHorizontal: "14mm",
+        paddingBottom: "26mm",
+      }}
+    >
+      {children}
+    </Page>
+  );
+}
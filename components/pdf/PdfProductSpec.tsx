@@ -0,0 +1,129 @@
+/**
+ * PDF Product Spec
+ * One product's hero image, description, specifications, grades, varieties
+ * and applications. Sections without CMS content are left out. As a
+ * catalogue spread, the image and description fill the first page and the
+ * details start on the facing page.
+ */
+
+import { Image, Text, View } from "@react-pdf/renderer";
+
+import PdfContactBlock from "@/components/pdf/PdfContactBlock";
+import PdfItemTable from "@/components/pdf/PdfItemTable";
+import type { Language } from "@/context/LanguageContext";
+import type { SpecSheetPdfCopy } from "@/lib/pdf/copy";
+import type { PdfTheme } from "@/lib/pdf/document";
+import type { PdfImage } from "@/lib/pdf/images";
+import { getProductSpecFields, getProductSummary, type PdfProduct } from "@/lib/pdf/product";
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function PdfProductSpec({
+  theme,
+  product,
+  copy,
+  locale,
+  image,
+  emptyFieldText,
+  layout = "sheet",
+}: {
+  theme: PdfTheme;
+  product: PdfProduct;
+  copy: SpecSheetPdfCopy;
+  locale: Language;
+  image: PdfImage | null;
+  /** Shown for a grade without a description */
+  emptyFieldText: string;
+  layout?: "sheet" | "spread";
+}) {
+  const { title, description } = getProductSummary(product, locale);
+  const { specifications, standardPackaging } = getProductSpecFields(product, copy, locale);
+  const grades = product.productGrading ?? [];
+  const varieties = (product.almondVarieties ?? []).map((variety) => variety.name);
+  const applications = product.applications ?? [];
+
+  const heading = { ...theme.emphasis, marginBottom: "1.5mm", color: theme.colors.deepBrown };
+
+  return (
+    <View>
+      <Text
+        style={{
+          ...theme.emphasis,
+          fontSize: theme.fontSize.header,
+          color: theme.colors.deepBrown,
+          marginBottom: "3mm",
+        }}
+      >
+        {title}
+      </Text>
+
+      {image ? (
+        // react-pdf images take no alt text
+        // eslint-disable-next-line jsx-a11y/alt-text
+        <Image
+          src={image}
+          style={{
+            width: "100%",
+            height: layout === "spread" ? "150mm" : "70mm",
+            objectFit: "cover",
+            marginBottom: "5mm",
+          }}
+        />
+      ) : null}
+
+      {description ? (
+        <Text style={{ marginBottom: "5mm", color: theme.colors.darkGray, lineHeight: 1.4 }}>
+          {description}
+        </Text>
+      ) : null}
+
+      <View break={layout === "spread"}>
+        <PdfContactBlock theme={theme} title={copy.specificationsLabel} fields={specifications} />
+        {standardPackaging.some((field) => field.value) ? (
+          <PdfContactBlock
+            theme={theme}
+            title={copy.standardPackagingLabel}
+            fields={standardPackaging}
+          />
+        ) : null}
+
+        {grades.length > 0 ? (
+          <View>
+            {/* Keep the heading with the first rows; long tables may still break */}
+            <Text style={heading} minPresenceAhead={40}>
+              {copy.gradesLabel}
+            </Text>
+            <PdfItemTable
+              theme={theme}
+              columns={[
+                { header: copy.gradeHeader, width: 1 },
+                { header: copy.descriptionHeader, width: 3 },
+              ]}
+              rows={grades.map((grade) => [grade.grade, grade.description || emptyFieldText])}
+            />
+          </View>
+        ) : null}
+
+        {varieties.length > 0 ? (
+          <View wrap={false} style={{ marginBottom: "5mm" }}>
+            <Text style={heading}>{copy.varietiesLabel}</Text>
+            <Text style={{ color: theme.colors.darkGray }}>{varieties.join(" · ")}</Text>
+          </View>
+        ) : null}
+
+        {applications.length > 0 ? (
+          <View wrap={false} style={{ marginBottom: "5mm" }}>
+            <Text style={heading}>{copy.applicationsLabel}</Text>
+            {applications.map((application) => (
+              <Text key={application} style={{ marginBottom: "1mm", color: theme.colors.darkGray }}>
+                {`• ${application}`}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+      </View>
+    </View>
+  );
+}
@@ -4,21 +4,31 @@
  * Product Showcase Section Component
  *
  * Displays a grid of products with modal for specs and enquiry functionality.
- * Uses useState for modal state - requires client component.
+ * When given filters, also shows the filter bar and keeps the URL in sync with it
+ * so a shared link reproduces the same view.
+ * Uses useState for modal and filter state - requires client component.
  *
  * All content is passed via props from parent components that fetch from Sanity CMS.
  * Data is validated with Zod schemas for runtime type safety.
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { motion } from "framer-motion";
 import { z } from "zod";
 import { Package } from "lucide-react";
 
 import ProductCard from "@/components/ProductCard";
+import ProductFilterBar from "@/components/ProductFilterBar";
 import ProductModal from "@/components/ProductModal";
 import DecorativeBackground from "@/components/ui/DecorativeBackground";
+import { useLanguage } from "@/context/LanguageContext";
 import { getGoogleDriveImageUrl } from "@/lib/utils";
+import {
+  filterProducts,
+  getProductFacets,
+  toProductFiltersQuery,
+  type ProductFilters,
+} from "@/lib/utils/product-filters";
 import OptimizedImage from "@/components/ui/OptimizedImage";
 
 // =============================================================================
@@ -38,6 +48,8 @@ interface ProductShowcaseProps {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   siteSettings?: any;
   headerData?: HeaderData;
+  /** Initial filters from the URL; omit to show every product without a filter bar */
+  filters?: ProductFilters | undefined;
 }
 
 // =============================================================================
@@ -55,6 +67,8 @@ const ProductSchema = z.object({
   ctaLine: z.unknown().optional(),
   description: z.unknown().optional(),
   heroImage: z.unknown().optional(),
+  specifications: z.object({ origin: z.string().nullish() }).nullish(),
+  applications: z.array(z.string()).nullish(),
 });
 
 const HeaderDataSchema = z.object({
@@ -68,6 +82,7 @@ const ProductShowcasePropsSchema = z.object({
   initialProducts: z.array(ProductSchema).optional(),
   siteSettings: z.unknown().optional(),
   headerData: HeaderDataSchema.optional(),
+  filters: z.record(z.string(), z.string().optional()).optional(),
 });
 
 // =============================================================================
@@ -117,13 +132,16 @@ export default function ProductShowcase({
   initialProducts,
   siteSettings,
   headerData,
+  filters: initialFilters,
 }: ProductShowcaseProps) {
   // Validate props in development
   if (process.env.NODE_ENV === "development") {
-    validateProps({ initialProducts, siteSettings, headerData });
+    validateProps({ initialProducts, siteSettings, headerData, filters: initialFilters });
   }
 
-  const products = initialProducts ?? [];
+  const { language, t } = useLanguage();
+  const products = useMemo(() => initialProducts ?? [], [initialProducts]);
+  const [filters, setFilters] = useState<ProductFilters | undefined>(initialFilters);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [selectedProduct] = useState<any>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -142,6 +160,23 @@ export default function ProductShowcase({
     [analyticsEventName]
   );
 
+  // Replace rather than push history so typing in the search box does not
+  // leave one back-button step per keystroke
+  const handleFiltersChange = useCallback((next: ProductFilters) => {
+    setFilters(next);
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${toProductFiltersQuery(next)}${window.location.hash}`
+    );
+  }, []);
+
+  const facets = useMemo(() => getProductFacets(products), [products]);
+  const visibleProducts = useMemo(
+    () => (filters ? filterProducts(products, filters, language) : products),
+    [products, filters, language]
+  );
+
   const handleCloseModal = useCallback(() => {
     setIsModalOpen(false);
   }, []);
@@ -192,12 +227,27 @@ export default function ProductShowcase({
           </div>
         ) : null}
 
+        {filters ? (
+          <ProductFilterBar
+            filters={filters}
+            facets={facets}
+            resultCount={visibleProducts.length}
+            onChange={handleFiltersChange}
+          />
+        ) : null}
+
         {/* Products Grid */}
-        <ProductsGrid
-          products={products}
-          siteSettings={siteSettings}
-          onAddToEnquiry={handleAddToEnquiry}
-        />
+        {visibleProducts.length > 0 ? (
+          <ProductsGrid
+            products={visibleProducts}
+            siteSettings={siteSettings}
+            onAddToEnquiry={handleAddToEnquiry}
+          />
+        ) : (
+          <p className="text-center text-lg text-deep-brown/80 py-16">
+            {t("productFilters.noResults")}
+          </p>
+        )}
 
         {/* Product Modal */}
         <ProductModal
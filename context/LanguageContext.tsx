@@ -1,122 +1,83 @@
 "use client";
 
-import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
-import { z } from "zod";
+import { createContext, useContext, useState, useEffect, useMemo, type ReactNode } from "react";
+import { useRouter } from "next/navigation";
+
+import {
+  DEFAULT_LANGUAGE,
+  getDirection,
+  LANGUAGE_COOKIE,
+  localizePath,
+  splitLanguagePath,
+  type LANGUAGES,
+} from "@/lib/i18n";
+import { createTranslator, type MessageOverrides, type Translator } from "@/lib/i18n/translate";
 
 // =============================================================================
-// ZOD SCHEMAS & TYPES
+// TYPES
 // =============================================================================
 
-const LanguageSchema = z.enum(["en", "ar", "hi", "fr"]);
-export type Language = z.infer<typeof LanguageSchema>;
-
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const TranslationKeySchema = z.enum([
-  "home",
-  "about",
-  "products",
-  "contact",
-  "trade",
-  "selectLanguage",
-]);
-type TranslationKey = z.infer<typeof TranslationKeySchema>;
-
-// Strict Dictionary Type
-type Translations = Record<Language, Record<TranslationKey, string>>;
+export type Language = (typeof LANGUAGES)[number];
 
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: TranslationKey | string) => string;
+  /** Looks up a UI message from the catalogue in lib/i18n/messages */
+  t: Translator;
   dir: "ltr" | "rtl";
 }
 
-// =============================================================================
-// STATIC DATA (UI LABELS)
-// =============================================================================
-
-const TRANSLATIONS: Translations = {
-  en: {
-    home: "Home",
-    about: "About Us",
-    products: "Products",
-    contact: "Contact",
-    trade: "Get Quote",
-    selectLanguage: "Select Language",
-  },
-  ar: {
-    home: "الرئيسية",
-    about: "من نحن",
-    products: "منتجاتنا",
-    contact: "اتصل بنا",
-    trade: "احصل على عرض سعر",
-    selectLanguage: "اختر اللغة",
-  },
-  hi: {
-    home: "होम",
-    about: "हमारे बारे में",
-    products: "उत्पाद",
-    contact: "संपर्क करें",
-    trade: "कोटेशन प्राप्त करें",
-    selectLanguage: "भाषा चुनें",
-  },
-  fr: {
-    home: "Accueil",
-    about: "À propos",
-    products: "Produits",
-    contact: "Contact",
-    trade: "Obtenir un devis",
-    selectLanguage: "Choisir la langue",
-  },
-};
-
 // =============================================================================
 // CONTEXT
 // =============================================================================
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
-export function LanguageProvider({ children }: { children: ReactNode }) {
-  const [language, setLanguage] = useState<Language>("en");
-  const [isClient, setIsClient] = useState(false);
+interface LanguageProviderProps {
+  children: ReactNode;
+  /** Language resolved on the server for this request, so SSR and hydration agree */
+  initialLanguage?: Language | undefined;
+  /** CMS labels that replace catalogue messages (the siteSettings label groups) */
+  overrides?: MessageOverrides | undefined;
+}
 
-  // Hydration safety
-  useEffect(() => {
-    // eslint-disable-next-line react-hooks/set-state-in-effect
-    setIsClient(true);
-
-    // Attempt to recover saved language
-    try {
-      const savedLang = localStorage.getItem("language");
-      const result = LanguageSchema.safeParse(savedLang);
-      if (result.success) {
-        setLanguage(result.data);
-      }
-    } catch {
-      // Ignore localStorage errors
-    }
-  }, []);
+export function LanguageProvider({
+  children,
+  initialLanguage = DEFAULT_LANGUAGE,
+  overrides,
+}: LanguageProviderProps) {
+  const router = useRouter();
+  const [language, setLanguage] = useState<Language>(initialLanguage);
+
+  // Follow the server when it re-renders in another language (e.g. after a refresh)
+  const [serverLanguage, setServerLanguage] = useState(initialLanguage);
+  if (initialLanguage !== serverLanguage) {
+    setServerLanguage(initialLanguage);
+    setLanguage(initialLanguage);
+  }
 
   // Update document attributes
   useEffect(() => {
-    if (!isClient) return;
-
     document.documentElement.lang = language;
-    document.documentElement.dir = language === "ar" ? "rtl" : "ltr";
-    localStorage.setItem("language", language);
-  }, [language, isClient]);
-
-  const t = (key: TranslationKey | string) => {
-    // Fallback for dynamic keys not in schema
-    const keys = Object.keys(TRANSLATIONS[language]);
-    if (keys.includes(key)) {
-      return TRANSLATIONS[language][key as TranslationKey];
-    }
-    return key;
-  };
+    document.documentElement.dir = getDirection(language);
+  }, [language]);
+
+  const t = useMemo(() => createTranslator(language, overrides), [language, overrides]);
 
   const handleSetLanguage = (lang: Language) => {
+    if (lang === language) return;
+
     setLanguage(lang);
+    document.cookie = `${LANGUAGE_COOKIE}=${lang}; path=/; max-age=31536000; samesite=lax`;
+
+    // A locale prefix in the URL outranks the cookie, so move to the new prefix;
+    // otherwise re-render the server components in the new language
+    const { pathname, search, hash } = window.location;
+    if (splitLanguagePath(pathname).language) {
+      router.replace(`${localizePath(pathname, lang)}${search}${hash}`, { scroll: false });
+    } else {
+      router.refresh();
+    }
   };
 
   return (
@@ -125,7 +86,7 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
         language,
         setLanguage: handleSetLanguage,
         t,
-        dir: language === "ar" ? "rtl" : "ltr",
+        dir: getDirection(language),
       }}
     >
       {children}
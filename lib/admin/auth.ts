@@ -0,0 +1,107 @@
+import { headers } from "next/headers";
+import { env } from "@/lib/env";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AdminCredentials {
+  username: string;
+  password: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const ADMIN_REALM = "Divyansh Admin";
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Parses the configured ADMIN_CREDENTIALS ("user:pass,user2:pass2") into pairs.
+ * Malformed entries are ignored.
+ */
+function getConfiguredCredentials(): AdminCredentials[] {
+  const raw = env.ADMIN_CREDENTIALS;
+  if (!raw) return [];
+
+  return raw
+    .split(",")
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      if (separator <= 0) return null;
+      return {
+        username: entry.slice(0, separator).trim(),
+        password: entry.slice(separator + 1).trim(),
+      };
+    })
+    .filter((entry): entry is AdminCredentials => !!entry && !!entry.password);
+}
+
+/**
+ * Compares two strings in constant time relative to the expected value.
+ */
+function safeEqual(actual: string, expected: string): boolean {
+  let mismatch = actual.length === expected.length ? 0 : 1;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= (actual.charCodeAt(i) || 0) ^ expected.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Decodes an HTTP Basic Authorization header.
+ * @returns The supplied credentials, or null if the header is missing or malformed
+ */
+export function parseBasicAuth(header: string | null): AdminCredentials | null {
+  if (!header?.startsWith("Basic ")) return null;
+
+  try {
+    const decoded = atob(header.slice("Basic ".length).trim());
+    const separator = decoded.indexOf(":");
+    if (separator <= 0) return null;
+
+    return {
+      username: decoded.slice(0, separator),
+      password: decoded.slice(separator + 1),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks an Authorization header against the configured admin credentials.
+ * @returns The authenticated user name, or null if access should be denied
+ */
+export function authenticateAdmin(header: string | null): string | null {
+  const supplied = parseBasicAuth(header);
+  if (!supplied) return null;
+
+  const match = getConfiguredCredentials().find(
+    (credentials) =>
+      credentials.username === supplied.username &&
+      safeEqual(supplied.password, credentials.password)
+  );
+
+  return match?.username ?? null;
+}
+
+/**
+ * Resolves the signed-in admin user for the current request.
+ * The proxy already rejects unauthenticated requests to /admin, so this throws
+ * only if a server action or page is reached without going through it.
+ */
+export async function requireAdminUser(): Promise<string> {
+  const requestHeaders = await headers();
+  const username = authenticateAdmin(requestHeaders.get("authorization"));
+
+  if (!username) {
+    throw new Error("[Admin] Unauthenticated request");
+  }
+
+  return username;
+}
@@ -0,0 +1,240 @@
+import "server-only";
+
+import { EnquiryStatus, EnquiryType, type Prisma, type QuantityUnit } from "@prisma/client";
+import { z } from "zod";
+
+import { getEmailSettings } from "@/lib/email/settings";
+import { prisma } from "@/lib/prisma";
+import type { Quantity } from "@/lib/utils/quantity";
+
+// =============================================================================
+// STATUS LIFECYCLE
+// =============================================================================
+
+/**
+ * Allowed status transitions for the sales pipeline.
+ * Leads move forward one stage at a time and can be closed from any open stage.
+ */
+export const ENQUIRY_STATUS_TRANSITIONS: Record<EnquiryStatus, EnquiryStatus[]> = {
+  [EnquiryStatus.new]: [EnquiryStatus.contacted, EnquiryStatus.closed],
+  [EnquiryStatus.contacted]: [EnquiryStatus.qualified, EnquiryStatus.closed],
+  [EnquiryStatus.qualified]: [EnquiryStatus.converted, EnquiryStatus.closed],
+  [EnquiryStatus.converted]: [EnquiryStatus.closed],
+  [EnquiryStatus.closed]: [],
+};
+
+export const ENQUIRY_STATUSES = Object.values(EnquiryStatus);
+export const ENQUIRY_TYPES = Object.values(EnquiryType);
+
+/**
+ * Checks whether an enquiry may move from one status to another.
+ */
+export function canTransition(from: EnquiryStatus, to: EnquiryStatus): boolean {
+  return ENQUIRY_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// =============================================================================
+// ZOD SCHEMAS
+// =============================================================================
+
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value) => (value ? value : undefined));
+
+const optionalDate = z
+  .string()
+  .optional()
+  .transform((value) => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  });
+
+/**
+ * Filters accepted by the enquiry list, parsed from URL search params.
+ * Invalid values are dropped rather than rejected so a bad link still renders.
+ */
+export const EnquiryFiltersSchema = z.object({
+  status: z.enum(EnquiryStatus).optional().catch(undefined),
+  type: z.enum(EnquiryType).optional().catch(undefined),
+  country: optionalText,
+  email: optionalText,
+  product: optionalText,
+  from: optionalDate,
+  to: optionalDate,
+  stalledDays: z.coerce.number().int().min(1).optional().catch(undefined),
+  page: z.coerce.number().int().min(1).optional().catch(undefined),
+});
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EnquiryFilters = z.infer<typeof EnquiryFiltersSchema>;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const ENQUIRY_PAGE_SIZE = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Normalizes raw Next.js search params (which may contain arrays) into filters.
+ */
+export function parseEnquiryFilters(
+  searchParams: Record<string, string | string[] | undefined>
+): EnquiryFilters {
+  const flat = Object.fromEntries(
+    Object.entries(searchParams).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value[0] : value,
+    ])
+  );
+  return EnquiryFiltersSchema.parse(flat);
+}
+
+/**
+ * Builds the Prisma where clause for the given filters.
+ * Status, type, email and creation date hit the indexes on the enquiries table.
+ * `productTitles` are the filtered product's titles in every language.
+ */
+function buildWhere(filters: EnquiryFilters, productTitles: string[]): Prisma.EnquiryWhereInput {
+  const where: Prisma.EnquiryWhereInput = {};
+
+  if (filters.status) where.status = filters.status;
+  if (filters.type) where.type = filters.type;
+  if (filters.email) where.email = filters.email;
+  if (filters.country) where.country = { contains: filters.country, mode: "insensitive" };
+
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      // "to" is inclusive of the whole selected day
+      ...(filters.to && { lt: new Date(filters.to.getTime() + DAY_MS) }),
+    };
+  }
+
+  // Leads with no status change for N days (e.g. stuck at "contacted")
+  if (filters.stalledDays) {
+    const cutoff = new Date(Date.now() - filters.stalledDays * DAY_MS);
+    where.AND = [
+      { createdAt: { lt: cutoff } },
+      { statusEvents: { none: { createdAt: { gte: cutoff } } } },
+    ];
+  }
+
+  // Line items carry the Sanity product id; product interest only has the
+  // titles the visitor saw, in their language
+  if (filters.product) {
+    where.OR = [
+      { items: { some: { productId: filters.product } } },
+      ...productTitles.map((title) => ({ productInterest: { array_contains: [title] } })),
+    ];
+  }
+
+  return where;
+}
+
+/**
+ * Lists enquiries newest first, one page at a time.
+ * The product filter is a Sanity product id; pass that product's localized
+ * titles to also match enquiries that have no line items.
+ */
+export async function listEnquiries(filters: EnquiryFilters, productTitles: string[] = []) {
+  const where = buildWhere(filters, productTitles);
+  const page = filters.page ?? 1;
+
+  const [enquiries, total] = await Promise.all([
+    prisma.enquiry.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * ENQUIRY_PAGE_SIZE,
+      take: ENQUIRY_PAGE_SIZE,
+      select: {
+        id: true,
+        createdAt: true,
+        type: true,
+        status: true,
+        name: true,
+        email: true,
+        company: true,
+        country: true,
+        productInterest: true,
+        _count: { select: { items: true } },
+      },
+    }),
+    prisma.enquiry.count({ where }),
+  ]);
+
+  return {
+    enquiries,
+    total,
+    page,
+    pageCount: Math.max(1, Math.ceil(total / ENQUIRY_PAGE_SIZE)),
+  };
+}
+
+/**
+ * Loads a single enquiry with its line items and status history.
+ * Accepts either the raw id or a reference carrying the configured
+ * enquiry ID prefix (e.g. "ENQ-<id>").
+ */
+export async function getEnquiry(idOrReference: string) {
+  const { enquiryIdPrefix } = await getEmailSettings();
+  const id =
+    enquiryIdPrefix && idOrReference.startsWith(enquiryIdPrefix)
+      ? idOrReference.slice(enquiryIdPrefix.length)
+      : idOrReference;
+
+  return prisma.enquiry.findUnique({
+    where: { id },
+    include: {
+      items: { orderBy: { position: "asc" } },
+      statusEvents: { orderBy: { createdAt: "asc" } },
+      quotations: {
+        orderBy: { createdAt: "desc" },
+        select: { id: true, number: true, status: true, createdAt: true },
+      },
+    },
+  });
+}
+
+/**
+ * Reads the product interest JSON column as a list of titles.
+ */
+export function getProductInterest(value: Prisma.JsonValue | null): string[] {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : [];
+}
+
+/**
+ * Combines a stored amount/unit column pair into a quantity, or null.
+ */
+export function getStoredQuantity(
+  amount: Prisma.Decimal | null,
+  unit: QuantityUnit | null
+): Quantity | null {
+  return amount !== null && unit !== null ? { amount: amount.toNumber(), unit } : null;
+}
+
+/**
+ * Formats the time between two dates as a compact duration, e.g. "2d 4h" or "35m".
+ */
+export function formatElapsed(start: Date, end: Date): string {
+  const minutes = Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
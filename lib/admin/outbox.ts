@@ -0,0 +1,72 @@
+import "server-only";
+
+import { OutboxStatus, type OutboxKind, type Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { prisma } from "@/lib/prisma";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const OUTBOX_STATUSES = Object.values(OutboxStatus);
+export const OUTBOX_PAGE_SIZE = 100;
+
+// =============================================================================
+// ZOD SCHEMAS
+// =============================================================================
+
+export const OutboxStatusFilterSchema = z.enum(OutboxStatus).catch(OutboxStatus.dead);
+
+const targetSchema = z.object({
+  to: z.union([z.string(), z.array(z.string())]).optional(),
+  url: z.string().optional(),
+  subject: z.string().optional(),
+});
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Lists the most recent outbox messages in one status, with per-status counts
+ * for the filter tabs.
+ */
+export async function listOutboxMessages(status: OutboxStatus) {
+  const [messages, groups] = await Promise.all([
+    prisma.outboxMessage.findMany({
+      where: { status },
+      orderBy: { updatedAt: "desc" },
+      take: OUTBOX_PAGE_SIZE,
+    }),
+    prisma.outboxMessage.groupBy({ by: ["status"], _count: { _all: true } }),
+  ]);
+
+  const counts = Object.fromEntries(OUTBOX_STATUSES.map((value) => [value, 0])) as Record<
+    OutboxStatus,
+    number
+  >;
+  for (const group of groups) {
+    counts[group.status] = group._count._all;
+  }
+
+  return { messages, counts };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Short human description of where a message is going, e.g. the recipient
+ * and subject of an email or the URL of a webhook.
+ */
+export function describeOutboxTarget(kind: OutboxKind, payload: Prisma.JsonValue): string {
+  const result = targetSchema.safeParse(payload);
+  if (!result.success) return "—";
+
+  if (kind === "webhook") return result.data.url ?? "—";
+
+  const to = Array.isArray(result.data.to) ? result.data.to.join(", ") : (result.data.to ?? "—");
+  return result.data.subject ? `${to} · ${result.data.subject}` : to;
+}
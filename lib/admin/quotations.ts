@@ -0,0 +1,209 @@
+import "server-only";
+
+import { EnquiryStatus, Incoterm, type Prisma } from "@prisma/client";
+
+import { getProductInterest, getStoredQuantity } from "@/lib/admin/enquiries";
+import { prisma } from "@/lib/prisma";
+import { convertQuantity, convertsExactly, type Quantity } from "@/lib/utils/quantity";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const INCOTERMS = Object.values(Incoterm);
+
+export const QUOTATION_CURRENCIES = ["USD", "EUR", "GBP", "AED", "SAR", "INR"] as const;
+
+/**
+ * Starting values for a new draft; sales adjusts them per buyer.
+ */
+export const QUOTATION_DEFAULTS = {
+  currency: "USD",
+  incoterm: Incoterm.FOB,
+  validityDays: 30,
+  paymentTerms: "30% advance by T/T, balance against copy of shipping documents.",
+  numberPrefix: "QT-",
+} as const;
+
+/**
+ * Quotations are prepared once sales has qualified the lead.
+ */
+export const QUOTABLE_STATUSES: EnquiryStatus[] = [
+  EnquiryStatus.qualified,
+  EnquiryStatus.converted,
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type QuotationWithDetails = NonNullable<Awaited<ReturnType<typeof getQuotation>>>;
+
+export interface QuotationLine {
+  id: string;
+  productTitle: string;
+  grade: string | null;
+  packFormat: string | null;
+  quantity: Quantity;
+  unitPrice: number | null;
+  priceUnit: Quantity["unit"];
+  /** Quantity converted to the price unit, times the unit price */
+  amount: number | null;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Loads a quotation with its priced lines and the enquiry it answers.
+ */
+export async function getQuotation(id: string) {
+  return prisma.quotation.findUnique({
+    where: { id },
+    include: {
+      items: { orderBy: { position: "asc" } },
+      enquiry: {
+        select: {
+          id: true,
+          status: true,
+          name: true,
+          email: true,
+          company: true,
+          country: true,
+          language: true,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Creates a draft quotation for an enquiry, copying its line items (or, for
+ * trade enquiries without lines, one line per product of interest).
+ */
+export async function createDraftQuotation(
+  enquiryId: string,
+  actor: string
+): Promise<string | null> {
+  const enquiry = await prisma.enquiry.findUnique({
+    where: { id: enquiryId },
+    include: { items: { orderBy: { position: "asc" } } },
+  });
+
+  if (!enquiry || !QUOTABLE_STATUSES.includes(enquiry.status)) {
+    return null;
+  }
+
+  const enquiryQuantity = getStoredQuantity(enquiry.quantityAmount, enquiry.quantityUnit);
+  const items: Prisma.QuotationItemCreateWithoutQuotationInput[] =
+    enquiry.items.length > 0
+      ? enquiry.items.map((item, position) => {
+          const unit = item.quantityUnit ?? "mt";
+          return {
+            position,
+            productTitle: item.productTitle,
+            grade: item.grade,
+            packFormat: item.packFormat,
+            quantityAmount: item.quantityAmount ?? 1,
+            quantityUnit: unit,
+            priceUnit: unit,
+          };
+        })
+      : getProductInterest(enquiry.productInterest).map((productTitle, position) => ({
+          position,
+          productTitle,
+          quantityAmount: enquiryQuantity?.amount ?? 1,
+          quantityUnit: enquiryQuantity?.unit ?? "mt",
+          priceUnit: enquiryQuantity?.unit ?? "mt",
+        }));
+
+  const quotation = await prisma.quotation.create({
+    data: {
+      enquiryId,
+      createdBy: actor,
+      currency: QUOTATION_DEFAULTS.currency,
+      incoterm: QUOTATION_DEFAULTS.incoterm,
+      validUntil: new Date(Date.now() + QUOTATION_DEFAULTS.validityDays * DAY_MS),
+      paymentTerms: QUOTATION_DEFAULTS.paymentTerms,
+      items: { create: items },
+    },
+    select: { id: true },
+  });
+
+  return quotation.id;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Formats the sequential quotation number, e.g. "QT-2026-0042".
+ */
+export function formatQuotationNumber(
+  quotation: { number: number; createdAt: Date },
+  prefix: string = QUOTATION_DEFAULTS.numberPrefix
+): string {
+  return `${prefix}${quotation.createdAt.getFullYear()}-${String(quotation.number).padStart(4, "0")}`;
+}
+
+/**
+ * Prices each line and totals the quotation. Lines without a unit price, or
+ * priced per a unit their quantity does not convert to exactly, are left out
+ * of the total, which is null until at least one line is priced.
+ */
+export function getQuotationLines(items: QuotationWithDetails["items"]): {
+  lines: QuotationLine[];
+  total: number | null;
+  isFullyPriced: boolean;
+} {
+  const lines = items.map((item) => {
+    const quantity: Quantity = { amount: item.quantityAmount.toNumber(), unit: item.quantityUnit };
+    const unitPrice = item.unitPrice?.toNumber() ?? null;
+    const amount =
+      unitPrice === null || !convertsExactly(quantity.unit, item.priceUnit)
+        ? null
+        : roundMoney(convertQuantity(quantity, item.priceUnit).amount * unitPrice);
+
+    return {
+      id: item.id,
+      productTitle: item.productTitle,
+      grade: item.grade,
+      packFormat: item.packFormat,
+      quantity,
+      unitPrice,
+      priceUnit: item.priceUnit,
+      amount,
+    };
+  });
+
+  const priced = lines.filter((line) => line.amount !== null);
+
+  return {
+    lines,
+    total:
+      priced.length > 0
+        ? roundMoney(priced.reduce((sum, line) => sum + (line.amount ?? 0), 0))
+        : null,
+    isFullyPriced: priced.length === lines.length,
+  };
+}
+
+/**
+ * Formats an amount in the quotation currency, e.g. "$12,500.00".
+ */
+export function formatMoney(amount: number, currency: string, locale = "en"): string {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
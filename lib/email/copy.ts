@@ -0,0 +1,212 @@
+import { z } from "zod";
+
+import type { Language } from "@/context/LanguageContext";
+import { getLocalized, localeStringSchema } from "@/lib/i18n";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+export const acknowledgementCopySchema = z.object({
+  enabled: z.boolean().optional(),
+  subject: localeStringSchema.optional(),
+  heading: localeStringSchema.optional(),
+  greeting: localeStringSchema.optional(),
+  intro: localeStringSchema.optional(),
+  referenceLabel: localeStringSchema.optional(),
+  summaryTitle: localeStringSchema.optional(),
+  productsLabel: localeStringSchema.optional(),
+  quantityLabel: localeStringSchema.optional(),
+  notSpecifiedText: localeStringSchema.optional(),
+  responseTime: localeStringSchema.optional(),
+  signOff: localeStringSchema.optional(),
+});
+
+export const statusUpdateCopySchema = z.object({
+  subject: localeStringSchema.optional(),
+  heading: localeStringSchema.optional(),
+  greeting: localeStringSchema.optional(),
+  intro: localeStringSchema.optional(),
+  referenceLabel: localeStringSchema.optional(),
+  statusLabel: localeStringSchema.optional(),
+  statusContacted: localeStringSchema.optional(),
+  statusQualified: localeStringSchema.optional(),
+  statusConverted: localeStringSchema.optional(),
+  statusClosed: localeStringSchema.optional(),
+  signOff: localeStringSchema.optional(),
+});
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type LocalizedDefaults = Record<string, Record<Language, string>>;
+type CopyOverrides<K extends PropertyKey> = Partial<
+  Record<K, Partial<Record<Language, string | undefined>> | undefined>
+>;
+
+export type AcknowledgementCopyOverrides = z.infer<typeof acknowledgementCopySchema>;
+export type StatusUpdateCopyOverrides = z.infer<typeof statusUpdateCopySchema>;
+export type AcknowledgementCopy = Record<keyof typeof ACKNOWLEDGEMENT_DEFAULTS, string>;
+export type StatusUpdateCopy = Record<keyof typeof STATUS_UPDATE_DEFAULTS, string>;
+
+// =============================================================================
+// DEFAULT FALLBACK VALUES
+// =============================================================================
+
+const GREETING = {
+  en: "Dear {name},",
+  ar: "عزيزي/عزيزتي {name}،",
+  hi: "प्रिय {name},",
+  fr: "Bonjour {name},",
+};
+
+const REFERENCE_LABEL = {
+  en: "Your reference",
+  ar: "رقمك المرجعي",
+  hi: "आपका संदर्भ क्रमांक",
+  fr: "Votre référence",
+};
+
+const SIGN_OFF = {
+  en: "Warm regards,\nDivyansh International",
+  ar: "مع أطيب التحيات،\nديفيانش إنترناشونال",
+  hi: "सादर,\nदिव्यांश इंटरनेशनल",
+  fr: "Cordialement,\nDivyansh International",
+};
+
+export const ACKNOWLEDGEMENT_DEFAULTS = {
+  subject: {
+    en: "We have received your enquiry {reference}",
+    ar: "تم استلام استفسارك {reference}",
+    hi: "आपकी पूछताछ प्राप्त हो गई है {reference}",
+    fr: "Nous avons bien reçu votre demande {reference}",
+  },
+  heading: {
+    en: "Thank you for your enquiry",
+    ar: "شكراً لاستفسارك",
+    hi: "आपकी पूछताछ के लिए धन्यवाद",
+    fr: "Merci pour votre demande",
+  },
+  greeting: GREETING,
+  intro: {
+    en: "We have received your quote request and our trade team is reviewing it.",
+    ar: "لقد استلمنا طلب عرض السعر الخاص بك ويقوم فريق التجارة لدينا بمراجعته.",
+    hi: "हमें आपका कोटेशन अनुरोध प्राप्त हो गया है और हमारी ट्रेड टीम इसकी समीक्षा कर रही है।",
+    fr: "Nous avons bien reçu votre demande de devis et notre équipe commerciale l'examine.",
+  },
+  referenceLabel: REFERENCE_LABEL,
+  summaryTitle: {
+    en: "Summary of your request",
+    ar: "ملخص طلبك",
+    hi: "आपके अनुरोध का सारांश",
+    fr: "Récapitulatif de votre demande",
+  },
+  productsLabel: {
+    en: "Products",
+    ar: "المنتجات",
+    hi: "उत्पाद",
+    fr: "Produits",
+  },
+  quantityLabel: {
+    en: "Quantity",
+    ar: "الكمية",
+    hi: "मात्रा",
+    fr: "Quantité",
+  },
+  notSpecifiedText: {
+    en: "Not specified",
+    ar: "غير محدد",
+    hi: "निर्दिष्ट नहीं",
+    fr: "Non précisé",
+  },
+  responseTime: {
+    en: "Our team typically responds within 24–48 business hours. For urgent requirements, simply reply to this email.",
+    ar: "يرد فريقنا عادةً خلال 24 إلى 48 ساعة عمل. للمتطلبات العاجلة، يرجى الرد على هذا البريد الإلكتروني.",
+    hi: "हमारी टीम आमतौर पर 24–48 कार्य घंटों के भीतर जवाब देती है। तत्काल आवश्यकताओं के लिए, कृपया इस ईमेल का उत्तर दें।",
+    fr: "Notre équipe répond généralement sous 24 à 48 heures ouvrées. Pour toute demande urgente, répondez simplement à cet e-mail.",
+  },
+  signOff: SIGN_OFF,
+} satisfies LocalizedDefaults;
+
+export const STATUS_UPDATE_DEFAULTS = {
+  subject: {
+    en: "Update on your enquiry {reference}",
+    ar: "تحديث بشأن استفسارك {reference}",
+    hi: "आपकी पूछताछ पर अपडेट {reference}",
+    fr: "Mise à jour de votre demande {reference}",
+  },
+  heading: {
+    en: "Your enquiry has been updated",
+    ar: "تم تحديث استفسارك",
+    hi: "आपकी पूछताछ अपडेट की गई है",
+    fr: "Votre demande a été mise à jour",
+  },
+  greeting: GREETING,
+  intro: {
+    en: "Here is the latest status of your enquiry with us.",
+    ar: "إليك آخر حالة لاستفسارك لدينا.",
+    hi: "हमारे साथ आपकी पूछताछ की नवीनतम स्थिति यह है।",
+    fr: "Voici le dernier statut de votre demande.",
+  },
+  referenceLabel: REFERENCE_LABEL,
+  statusLabel: {
+    en: "Status",
+    ar: "الحالة",
+    hi: "स्थिति",
+    fr: "Statut",
+  },
+  statusContacted: {
+    en: "Our team has been in touch",
+    ar: "تواصل فريقنا معك",
+    hi: "हमारी टीम ने आपसे संपर्क किया है",
+    fr: "Notre équipe vous a contacté",
+  },
+  statusQualified: {
+    en: "Under review for quotation",
+    ar: "قيد المراجعة لإعداد عرض السعر",
+    hi: "कोटेशन के लिए समीक्षाधीन",
+    fr: "En cours d'étude pour devis",
+  },
+  statusConverted: {
+    en: "Order confirmed",
+    ar: "تم تأكيد الطلب",
+    hi: "ऑर्डर की पुष्टि हो गई",
+    fr: "Commande confirmée",
+  },
+  statusClosed: {
+    en: "Closed",
+    ar: "مغلق",
+    hi: "बंद",
+    fr: "Clôturée",
+  },
+  signOff: SIGN_OFF,
+} satisfies LocalizedDefaults;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Resolves localized copy for one language.
+ * CMS text in the requested language wins, then the built-in translation,
+ * so an English-only CMS edit never replaces the Arabic/Hindi/French defaults.
+ */
+export function resolveCopy<T extends LocalizedDefaults>(
+  defaults: T,
+  overrides: CopyOverrides<keyof T> | undefined,
+  language: Language
+): Record<keyof T, string> {
+  const copy = {} as Record<keyof T, string>;
+  for (const field of Object.keys(defaults) as Array<keyof T & string>) {
+    copy[field] = overrides?.[field]?.[language] || getLocalized(defaults[field], language);
+  }
+  return copy;
+}
+
+/**
+ * Replaces `{key}` placeholders in CMS copy
+ */
+export function fillPlaceholders(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
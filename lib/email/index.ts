@@ -0,0 +1,27 @@
+export type {
+  AcknowledgementCopy,
+  AcknowledgementCopyOverrides,
+  StatusUpdateCopy,
+  StatusUpdateCopyOverrides,
+} from "@/lib/email/copy";
+export {
+  ACKNOWLEDGEMENT_DEFAULTS,
+  STATUS_UPDATE_DEFAULTS,
+  acknowledgementCopySchema,
+  fillPlaceholders,
+  resolveCopy,
+  statusUpdateCopySchema,
+} from "@/lib/email/copy";
+export type { EmailBlock, EmailLayoutOptions, RenderedLayout } from "@/lib/email/layout";
+export { escapeHtml, renderLayout } from "@/lib/email/layout";
+export type {
+  CustomerAcknowledgementData,
+  InternalNotificationData,
+  RenderedEmail,
+  StatusUpdateData,
+} from "@/lib/email/templates";
+export {
+  renderCustomerAcknowledgement,
+  renderInternalNotification,
+  renderStatusUpdate,
+} from "@/lib/email/templates";
@@ -0,0 +1,164 @@
+import type { Language } from "@/context/LanguageContext";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Content building blocks. Templates describe their body as blocks so the
+ * same content renders to both HTML and plain text, and every value is
+ * escaped in one place.
+ */
+export type EmailBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "field"; label: string; value: string }
+  | { type: "highlight"; label: string; value: string };
+
+export interface EmailLayoutOptions {
+  brandName: string;
+  heading: string;
+  blocks: EmailBlock[];
+  language?: Language;
+  /** Inbox preview text, hidden in the rendered body */
+  preheader?: string;
+}
+
+export interface RenderedLayout {
+  html: string;
+  text: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const COLORS = {
+  deepBrown: "#3b2f2f",
+  gold: "#c5a059",
+  ivory: "#faf7f2",
+  text: "#2b2b2b",
+  muted: "#6b6b6b",
+  border: "#e8e0d4",
+} as const;
+
+const FONT_STACK =
+  "Helvetica, Arial, 'Noto Sans', 'Noto Sans Arabic', 'Noto Sans Devanagari', sans-serif";
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Escapes HTML to prevent XSS in email content
+ */
+export function escapeHtml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+/**
+ * Escapes text and keeps its line breaks
+ */
+function escapeMultiline(text: string): string {
+  return escapeHtml(text).replace(/\r?\n/g, "<br />");
+}
+
+function renderBlockHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case "heading":
+      return `<h3 style="margin:24px 0 8px;font-size:16px;color:${COLORS.deepBrown};">${escapeHtml(block.text)}</h3>`;
+    case "paragraph":
+      return `<p style="margin:0 0 16px;font-size:15px;line-height:1.6;color:${COLORS.text};">${escapeMultiline(block.text)}</p>`;
+    case "field":
+      return `<p style="margin:0 0 8px;font-size:15px;line-height:1.5;color:${COLORS.text};"><strong>${escapeHtml(block.label)}:</strong> ${escapeMultiline(block.value)}</p>`;
+    case "highlight":
+      return `<p style="margin:0 0 16px;padding:12px 16px;background:${COLORS.ivory};border:1px solid ${COLORS.border};border-radius:6px;font-size:15px;color:${COLORS.text};"><span style="color:${COLORS.muted};">${escapeHtml(block.label)}</span><br /><strong style="font-size:17px;color:${COLORS.deepBrown};">${escapeHtml(block.value)}</strong></p>`;
+  }
+}
+
+function renderBlockText(block: EmailBlock): string {
+  switch (block.type) {
+    case "heading":
+      return `${block.text}\n${"-".repeat(block.text.length)}`;
+    case "paragraph":
+      return block.text;
+    case "field":
+    case "highlight":
+      return `${block.label}: ${block.value}`;
+  }
+}
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+
+/**
+ * Wraps template blocks in the shared branded layout.
+ * @returns HTML (inline styles, table based for email clients) and plain text
+ */
+export function renderLayout({
+  brandName,
+  heading,
+  blocks,
+  language = "en",
+  preheader,
+}: EmailLayoutOptions): RenderedLayout {
+  const dir = language === "ar" ? "rtl" : "ltr";
+  const align = dir === "rtl" ? "right" : "left";
+  const year = new Date().getFullYear();
+
+  const html = `<!DOCTYPE html>
+<html lang="${language}" dir="${dir}">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(heading)}</title>
+  </head>
+  <body style="margin:0;padding:0;background:${COLORS.ivory};font-family:${FONT_STACK};">
+    ${preheader ? `<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(preheader)}</div>` : ""}
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:${COLORS.ivory};padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border:1px solid ${COLORS.border};border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="background:${COLORS.deepBrown};padding:20px 32px;text-align:${align};">
+                <span style="font-size:20px;font-weight:bold;letter-spacing:0.5px;color:${COLORS.gold};">${escapeHtml(brandName)}</span>
+              </td>
+            </tr>
+            <tr>
+              <td dir="${dir}" style="padding:32px;text-align:${align};">
+                <h2 style="margin:0 0 20px;font-size:22px;color:${COLORS.deepBrown};">${escapeHtml(heading)}</h2>
+                ${blocks.map(renderBlockHtml).join("\n                ")}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 32px;border-top:1px solid ${COLORS.border};font-size:12px;color:${COLORS.muted};text-align:${align};">
+                &copy; ${year} ${escapeHtml(brandName)}
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  const text = [
+    brandName.toUpperCase(),
+    "",
+    heading,
+    "=".repeat(heading.length),
+    "",
+    blocks.map(renderBlockText).join("\n\n"),
+    "",
+    "--",
+    `© ${year} ${brandName}`,
+  ].join("\n");
+
+  return { html, text };
+}
@@ -0,0 +1,78 @@
+import "server-only";
+
+import { z } from "zod";
+
+import { statusUpdateCopySchema } from "@/lib/email/copy";
+import { env } from "@/lib/env";
+import { client } from "@/lib/sanity/client";
+import { siteSettingsQuery } from "@/lib/sanity/queries";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const siteSettingsSchema = z
+  .object({
+    emailTemplates: z
+      .object({
+        fromName: z.string().optional(),
+        fromEmail: z.string().email().optional(),
+        statusUpdate: statusUpdateCopySchema.optional(),
+      })
+      .passthrough()
+      .optional(),
+    apiConfig: z
+      .object({
+        enquiryIdPrefix: z.string().optional(),
+        fallbackEmail: z.string().email().optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+// =============================================================================
+// DEFAULT FALLBACK VALUES
+// =============================================================================
+
+const DEFAULTS = {
+  fromName: "Divyansh International",
+  fromEmail: "onboarding@resend.dev",
+  enquiryIdPrefix: "ENQ-",
+  fallbackEmail: "trade@divyanshint.com",
+} as const;
+
+// =============================================================================
+// GET CONFIGURATION
+// =============================================================================
+
+/**
+ * Sender details and customer-facing copy for emails sent outside the
+ * contact routes (e.g. status updates from the admin dashboard).
+ */
+export async function getEmailSettings() {
+  let settings: z.infer<typeof siteSettingsSchema> | null = null;
+
+  try {
+    const result = siteSettingsSchema.safeParse(await client.fetch(siteSettingsQuery));
+    if (!result.success && process.env.NODE_ENV === "development") {
+      console.warn("[Email] Settings validation failed:", result.error.issues);
+    }
+    settings = result.success ? result.data : null;
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[Email] Failed to fetch settings:", error);
+    }
+  }
+
+  const fromName = settings?.emailTemplates?.fromName ?? DEFAULTS.fromName;
+  const fromEmail = settings?.emailTemplates?.fromEmail ?? DEFAULTS.fromEmail;
+
+  return {
+    brandName: fromName,
+    from: `${fromName} <${fromEmail}>`,
+    replyTo: env.CONTACT_EMAIL || (settings?.apiConfig?.fallbackEmail ?? DEFAULTS.fallbackEmail),
+    enquiryIdPrefix: settings?.apiConfig?.enquiryIdPrefix ?? DEFAULTS.enquiryIdPrefix,
+    statusUpdate: settings?.emailTemplates?.statusUpdate,
+  };
+}
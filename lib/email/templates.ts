@@ -0,0 +1,142 @@
+import type { EnquiryStatus } from "@prisma/client";
+
+import type { Language } from "@/context/LanguageContext";
+import type { AcknowledgementCopy, StatusUpdateCopy } from "@/lib/email/copy";
+import { fillPlaceholders } from "@/lib/email/copy";
+import { type EmailBlock, renderLayout } from "@/lib/email/layout";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface InternalNotificationData {
+  brandName: string;
+  subject: string;
+  title: string;
+  fields: Array<{ label: string; value: string }>;
+  message?: { label: string; body: string };
+}
+
+export interface CustomerAcknowledgementData {
+  brandName: string;
+  language: Language;
+  copy: AcknowledgementCopy;
+  name: string;
+  reference: string | null;
+  products: string[];
+  quantity?: string | undefined;
+  listSeparator: string;
+}
+
+export interface StatusUpdateData {
+  brandName: string;
+  language: Language;
+  copy: StatusUpdateCopy;
+  name: string;
+  reference: string;
+  status: EnquiryStatus;
+}
+
+// =============================================================================
+// TEMPLATES
+// =============================================================================
+
+/**
+ * Notification sent to the sales inbox when an enquiry arrives
+ */
+export function renderInternalNotification(data: InternalNotificationData): RenderedEmail {
+  const blocks: EmailBlock[] = data.fields.map(({ label, value }) => ({
+    type: "field",
+    label,
+    value,
+  }));
+
+  if (data.message) {
+    blocks.push({ type: "heading", text: data.message.label });
+    blocks.push({ type: "paragraph", text: data.message.body });
+  }
+
+  return {
+    subject: data.subject,
+    ...renderLayout({ brandName: data.brandName, heading: data.title, blocks }),
+  };
+}
+
+/**
+ * Auto-reply confirming receipt of an enquiry, in the submitter's language
+ */
+export function renderCustomerAcknowledgement(data: CustomerAcknowledgementData): RenderedEmail {
+  const { copy } = data;
+  const placeholders = { name: data.name, reference: data.reference ?? "" };
+
+  const blocks: EmailBlock[] = [
+    { type: "paragraph", text: fillPlaceholders(copy.greeting, placeholders) },
+    { type: "paragraph", text: copy.intro },
+  ];
+
+  if (data.reference) {
+    blocks.push({ type: "highlight", label: copy.referenceLabel, value: data.reference });
+  }
+
+  blocks.push(
+    { type: "heading", text: copy.summaryTitle },
+    {
+      type: "field",
+      label: copy.productsLabel,
+      value: data.products.length ? data.products.join(data.listSeparator) : copy.notSpecifiedText,
+    },
+    { type: "field", label: copy.quantityLabel, value: data.quantity || copy.notSpecifiedText },
+    { type: "paragraph", text: copy.responseTime },
+    { type: "paragraph", text: copy.signOff }
+  );
+
+  return {
+    subject: fillPlaceholders(copy.subject, placeholders).trim(),
+    ...renderLayout({
+      brandName: data.brandName,
+      heading: copy.heading,
+      blocks,
+      language: data.language,
+      preheader: copy.intro,
+    }),
+  };
+}
+
+/**
+ * Tells the customer their enquiry moved to a new pipeline stage
+ */
+export function renderStatusUpdate(data: StatusUpdateData): RenderedEmail {
+  const { copy } = data;
+  const placeholders = { name: data.name, reference: data.reference };
+
+  const statusText: Partial<Record<EnquiryStatus, string>> = {
+    contacted: copy.statusContacted,
+    qualified: copy.statusQualified,
+    converted: copy.statusConverted,
+    closed: copy.statusClosed,
+  };
+
+  const blocks: EmailBlock[] = [
+    { type: "paragraph", text: fillPlaceholders(copy.greeting, placeholders) },
+    { type: "paragraph", text: copy.intro },
+    { type: "highlight", label: copy.referenceLabel, value: data.reference },
+    { type: "field", label: copy.statusLabel, value: statusText[data.status] ?? data.status },
+    { type: "paragraph", text: copy.signOff },
+  ];
+
+  return {
+    subject: fillPlaceholders(copy.subject, placeholders).trim(),
+    ...renderLayout({
+      brandName: data.brandName,
+      heading: copy.heading,
+      blocks,
+      language: data.language,
+    }),
+  };
+}
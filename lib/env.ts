@@ -21,11 +21,61 @@ export const env = createEnv({
 
     // Webhooks
     ENQUIRY_WEBHOOK_URL: z.string().url().optional().describe("Webhook for form submissions"),
+    ENQUIRY_WEBHOOK_SECRET: z
+      .string()
+      .min(16)
+      .optional()
+      .describe("HMAC signing secret for ENQUIRY_WEBHOOK_URL (required when the URL is set)"),
+    WEBHOOK_ENDPOINTS: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("JSON array of {id, url, secret, events} webhook endpoints"),
     SANITY_WEBHOOK_SECRET: z
       .string()
       .min(1)
       .optional()
       .describe("Secret for Sanity revalidation webhooks"),
+
+    // Rate Limiting
+    RATE_LIMIT_STORE: z
+      .enum(["postgres", "memory"])
+      .default("postgres")
+      .describe("Where API rate-limit counters are stored"),
+
+    // Proxies (Client IP Resolution)
+    TRUSTED_PROXY_COUNT: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(1)
+      .describe("Number of trusted proxies that append to X-Forwarded-For"),
+    TRUSTED_PROXY_CIDRS: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Comma-separated CIDR ranges of trusted proxies"),
+
+    // Admin (Sales Dashboard)
+    ADMIN_CREDENTIALS: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Comma-separated user:password pairs for the /admin area"),
+
+    // Outbox Worker
+    CRON_SECRET: z
+      .string()
+      .min(16)
+      .optional()
+      .describe("Bearer token required by the outbox processing cron route"),
+
+    // PDF Generation
+    PDF_FONT_BASE_URL: z
+      .string()
+      .url()
+      .optional()
+      .describe("Self-hosted copy of assets/fonts, used instead of the bundled PDF fonts"),
   },
 
   // ===========================================================================
@@ -59,7 +109,15 @@ export const env = createEnv({
     RESEND_API_KEY: process.env["RESEND_API_KEY"],
     CONTACT_EMAIL: process.env["CONTACT_EMAIL"],
     ENQUIRY_WEBHOOK_URL: process.env["ENQUIRY_WEBHOOK_URL"],
+    ENQUIRY_WEBHOOK_SECRET: process.env["ENQUIRY_WEBHOOK_SECRET"],
+    WEBHOOK_ENDPOINTS: process.env["WEBHOOK_ENDPOINTS"],
     SANITY_WEBHOOK_SECRET: process.env["SANITY_WEBHOOK_SECRET"],
+    RATE_LIMIT_STORE: process.env["RATE_LIMIT_STORE"],
+    TRUSTED_PROXY_COUNT: process.env["TRUSTED_PROXY_COUNT"],
+    TRUSTED_PROXY_CIDRS: process.env["TRUSTED_PROXY_CIDRS"],
+    ADMIN_CREDENTIALS: process.env["ADMIN_CREDENTIALS"],
+    CRON_SECRET: process.env["CRON_SECRET"],
+    PDF_FONT_BASE_URL: process.env["PDF_FONT_BASE_URL"],
 
     // Client
     NEXT_PUBLIC_SANITY_PROJECT_ID: process.env["NEXT_PUBLIC_SANITY_PROJECT_ID"],
@@ -1,11 +1,41 @@
+import { z } from "zod";
+
 import type { Language } from "@/context/LanguageContext";
 
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const LANGUAGES = ["en", "ar", "hi", "fr"] as const;
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+const RTL_LANGUAGES: ReadonlySet<Language> = new Set(["ar"]);
+
+/** Cookie that remembers the visitor's language between visits */
+export const LANGUAGE_COOKIE = "language";
+
+/**
+ * Language read from untrusted input (query strings, request bodies, stored
+ * rows). Unknown or missing values fall back to the default language rather
+ * than failing the request.
+ */
+export const languageSchema = z.enum(LANGUAGES).catch(DEFAULT_LANGUAGE);
+
+/** A `localeString` or `localeText` value from the CMS */
+export const localeStringSchema = z.object({
+  en: z.string().optional(),
+  ar: z.string().optional(),
+  hi: z.string().optional(),
+  fr: z.string().optional(),
+});
+
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export type LocaleString = Partial<Record<Language, string>>;
-export type LocaleText = Partial<Record<Language, string>>;
+export type LocaleString = Partial<Record<Language, string | undefined>>;
+export type LocaleText = Partial<Record<Language, string | undefined>>;
 
 // =============================================================================
 // UTILITIES
@@ -46,3 +76,48 @@ export function getLocalized(
 
   return "";
 }
+
+/**
+ * Type guard for localeString/localeText values read from the CMS. System
+ * keys such as `_type` are allowed; every language present must be a string.
+ */
+export function isLocaleString(value: unknown): value is LocaleString {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const record = value as Record<string, unknown>;
+  return LANGUAGES.every((language) => {
+    const text = record[language];
+    return text === undefined || typeof text === "string";
+  });
+}
+
+/**
+ * Type guard for values read from cookies, headers and URLs
+ */
+export function isLanguage(value: unknown): value is Language {
+  return (LANGUAGES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Text direction of a language, for the <html dir> attribute
+ */
+export function getDirection(language: Language): "ltr" | "rtl" {
+  return RTL_LANGUAGES.has(language) ? "rtl" : "ltr";
+}
+
+/**
+ * Splits a locale prefix off a pathname, e.g. "/ar/products" becomes
+ * { language: "ar", path: "/products" }. Unprefixed paths have no language.
+ */
+export function splitLanguagePath(pathname: string): { language: Language | null; path: string } {
+  const [, segment, ...rest] = pathname.split("/");
+  if (!isLanguage(segment)) return { language: null, path: pathname };
+  return { language: segment, path: `/${rest.join("/")}` };
+}
+
+/**
+ * Prefixes a site path with a language, e.g. ("/products", "fr") becomes "/fr/products"
+ */
+export function localizePath(path: string, language: Language): string {
+  const { path: unprefixed } = splitLanguagePath(path);
+  return unprefixed === "/" ? `/${language}` : `/${language}${unprefixed}`;
+}
@@ -0,0 +1,177 @@
+import type { Language } from "@/context/LanguageContext";
+import { DEFAULT_LANGUAGE, getLocalized, isLanguage, LANGUAGES } from "@/lib/i18n";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CoverageDocument {
+  _id: string;
+  _type: string;
+  [key: string]: unknown;
+}
+
+/** A language that is missing (or blank) in one localeString/localeText field */
+export interface MissingTranslation {
+  language: Language;
+  documentId: string;
+  documentType: string;
+  documentTitle: string;
+  path: string;
+}
+
+export interface LanguageCoverage {
+  language: Language;
+  total: number;
+  translated: number;
+  missing: number;
+  /** Percentage of fields translated, 0-100 */
+  coverage: number;
+}
+
+export interface TranslationReport {
+  documents: number;
+  fields: number;
+  languages: LanguageCoverage[];
+  missing: MissingTranslation[];
+}
+
+interface LocaleField {
+  path: string;
+  value: Record<string, unknown>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const LOCALE_TYPES: ReadonlySet<string> = new Set(["localeString", "localeText"]);
+
+/**
+ * Matches `localeString`/`localeText` objects. Seeded values carry no `_type`,
+ * so objects keyed only by language codes are treated the same way.
+ */
+function isLocaleValue(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+
+  const record = value as Record<string, unknown>;
+  if (typeof record["_type"] === "string") return LOCALE_TYPES.has(record["_type"]);
+
+  const keys = Object.keys(record).filter((key) => !key.startsWith("_"));
+  return keys.length > 0 && keys.every(isLanguage);
+}
+
+function isTranslated(value: unknown): boolean {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/**
+ * Every locale field in a document with its path, e.g. `forms.nameLabel` or
+ * `introParagraphs[2]`. System fields (`_id`, `_type`, ...) are skipped.
+ */
+function findLocaleFields(value: unknown, path = ""): LocaleField[] {
+  if (isLocaleValue(value)) return [{ path, value }];
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findLocaleFields(item, `${path}[${index}]`));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => !key.startsWith("_"))
+      .flatMap(([key, child]) => findLocaleFields(child, path ? `${path}.${key}` : key));
+  }
+
+  return [];
+}
+
+function getDocumentTitle(doc: CoverageDocument): string {
+  const title = doc["title"] ?? doc["name"];
+
+  if (typeof title === "string" && title) return title;
+  if (isLocaleValue(title)) return getLocalized(title, DEFAULT_LANGUAGE) || doc._id;
+
+  return doc._id;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/** Every content document, excluding Sanity's system and asset documents */
+export const COVERAGE_DOCUMENTS_QUERY =
+  '*[!(_id in path("_.**")) && !(_type match "system.*") && !(_type match "sanity.*")]';
+
+/**
+ * Walks the documents for localeString/localeText fields and counts, per
+ * language, how many of them are translated. Fields with no text in any
+ * language are unused and left out of the totals.
+ */
+export function createTranslationReport(
+  documents: CoverageDocument[],
+  languages: readonly Language[] = LANGUAGES
+): TranslationReport {
+  const missing: MissingTranslation[] = [];
+  const translatedCounts = new Map<Language, number>(languages.map((language) => [language, 0]));
+  let fields = 0;
+
+  for (const doc of documents) {
+    const documentTitle = getDocumentTitle(doc);
+
+    for (const { path, value } of findLocaleFields(doc)) {
+      if (!LANGUAGES.some((language) => isTranslated(value[language]))) continue;
+      fields++;
+
+      for (const language of languages) {
+        if (isTranslated(value[language])) {
+          translatedCounts.set(language, (translatedCounts.get(language) ?? 0) + 1);
+        } else {
+          missing.push({
+            language,
+            documentId: doc._id,
+            documentType: doc._type,
+            documentTitle,
+            path,
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    documents: documents.length,
+    fields,
+    languages: languages.map((language) => {
+      const translated = translatedCounts.get(language) ?? 0;
+      return {
+        language,
+        total: fields,
+        translated,
+        missing: fields - translated,
+        coverage: fields === 0 ? 100 : (translated / fields) * 100,
+      };
+    }),
+    missing,
+  };
+}
+
+/**
+ * Required languages whose coverage is below the threshold (a percentage)
+ */
+export function getCoverageFailures(
+  report: TranslationReport,
+  requiredLanguages: readonly Language[],
+  threshold: number
+): LanguageCoverage[] {
+  return report.languages.filter(
+    ({ language, coverage }) => requiredLanguages.includes(language) && coverage < threshold
+  );
+}
+
+/**
+ * Coverage as a display percentage. Rounds down so a nearly complete
+ * language never shows as 100%.
+ */
+export function formatCoverage(coverage: number): string {
+  return `${(Math.floor(coverage * 10) / 10).toFixed(1)}%`;
+}
@@ -0,0 +1,116 @@
+import type { LocaleMessages } from "@/lib/i18n/messages";
+
+/**
+ * Arabic UI messages
+ */
+const ar: LocaleMessages = {
+  navigation: {
+    home: "الرئيسية",
+    about: "من نحن",
+    products: "منتجاتنا",
+    contact: "اتصل بنا",
+    catalogue: "الكتالوج",
+    trade: "احصل على عرض سعر",
+    selectLanguage: "اختر اللغة",
+  },
+  enquiry: {
+    addedToast: "تمت إضافة {product} إلى طلبك!",
+    pdfError: "تعذّر إنشاء ملف PDF. يرجى المحاولة مرة أخرى.",
+    emptyEnquiryError: "قائمة طلبك فارغة.",
+    openBuilderAria: "فتح قائمة الطلب",
+    gradeLabel: "الدرجة",
+    packFormatLabel: "نوع التعبئة",
+    quantityLabel: "الكمية",
+    unitLabel: "الوحدة",
+    moqLabel: "الحد الأدنى للطلب",
+    notesLabel: "ملاحظات",
+    gradePlaceholder: "اختر الدرجة",
+    packFormatPlaceholder: "اختر نوع التعبئة",
+    quantityPlaceholder: "أدخل الكمية",
+    notesPlaceholder: "أضف ملاحظات (اختياري)",
+    selectPlaceholder: "اختر…",
+    otherOption: "أخرى (يرجى التحديد)",
+    belowMoqWarning: "أقل من الحد الأدنى للطلب البالغ {moq}",
+    saveLabel: "حفظ",
+    cancelLabel: "إلغاء",
+    editLabel: "تعديل التفاصيل",
+    removeAriaLabel: "إزالة المنتج",
+    floatingBar: {
+      itemCount:
+        "{count, plural, zero {لا منتجات} one {منتج واحد} two {منتجان} few {# منتجات} many {# منتجًا} other {# منتج}}",
+      inYourEnquiry: "في طلبك",
+      readyToSubmit: "هل أنت جاهز لطلب عرض سعر؟",
+      viewEnquiry: "عرض القائمة",
+      submitEnquiry: "اطلب عرض سعر",
+    },
+    panel: {
+      title: "طلبك",
+      emptyState: "قائمة طلبك فارغة",
+      emptyStateSub: "تصفّح منتجاتنا لإضافة عناصر.",
+      exportPdf: "تصدير PDF",
+      submitEnquiry: "إرسال العناصر",
+      clearAll: "مسح جميع العناصر",
+      confirmClear: "هل أنت متأكد من أنك تريد مسح جميع العناصر؟",
+      closePanelAria: "إغلاق اللوحة",
+      shareList: "مشاركة هذه القائمة",
+      shareSuccess: "تم نسخ رابط المشاركة.",
+      shareError: "تعذّر إنشاء رابط المشاركة.",
+      responseTimes: "أوقات الرد",
+      emailLabel: "البريد الإلكتروني:",
+      emailResponse: "رد خلال 24-48 ساعة",
+      whatsappLabel: "واتساب:",
+      whatsappResponse: "رد خلال 12 ساعة",
+    },
+    builder: {
+      buttonLabel: "قائمة الطلب",
+    },
+  },
+  productFilters: {
+    searchLabel: "بحث",
+    searchPlaceholder: "ابحث عن المنتجات…",
+    categoryLabel: "الفئة",
+    originLabel: "المنشأ",
+    applicationLabel: "الاستخدام",
+    allOption: "الكل",
+    sortLabel: "ترتيب حسب",
+    sortOrder: "المميزة",
+    sortTitle: "الاسم (أ–ي)",
+    clearLabel: "مسح عوامل التصفية",
+    resultsLabel:
+      "{count, plural, zero {لا منتجات} one {منتج واحد} two {منتجان} few {# منتجات} many {# منتجًا} other {# منتج}}",
+    noResults: "لا توجد منتجات تطابق عوامل التصفية هذه. جرّب إزالة بعضها.",
+  },
+  catalogueViewer: {
+    downloadPdf: "تنزيل PDF",
+  },
+  forms: {
+    nameLabel: "الاسم",
+    companyLabel: "الشركة",
+    roleLabel: "المنصب (اختياري)",
+    emailLabel: "البريد الإلكتروني",
+    phoneLabel: "الهاتف",
+    countryLabel: "الدولة",
+    productInterestLabel: "المنتجات المطلوبة",
+    productSelectionAria: "اختيار المنتجات",
+    quantityLabel: "الكمية التقديرية",
+    quantityUnitLabel: "الوحدة",
+    tradeQuantityPlaceholder: "مثال: 500",
+    messageLabel: "الرسالة",
+    submitButton: "إرسال الطلب",
+    submittingButton: "جارٍ الإرسال...",
+    successMessage: "شكرًا لطلبك. سيتواصل معك فريقنا قريبًا.",
+    errorMessage: "حدث خطأ ما. يرجى المحاولة مرة أخرى.",
+    sampleRequestMessage: "أرغب في طلب عينة من {product}.",
+    enquiryListIntro: "يرجى الاطلاع على المنتجات التالية في طلبي:",
+  },
+  validation: {
+    nameMinError: "يجب ألا يقل الاسم عن {min} أحرف",
+    emailInvalidError: "يرجى إدخال بريد إلكتروني صالح",
+    messageMinError: "يجب ألا تقل الرسالة عن {min} أحرف",
+    companyRequiredError: "اسم الشركة مطلوب",
+    phoneRequiredError: "رقم الهاتف مطلوب",
+    countryRequiredError: "الدولة مطلوبة",
+  },
+};
+
+export default ar;
@@ -0,0 +1,118 @@
+/**
+ * English UI messages, the source catalogue the other locales are typed against.
+ *
+ * Top-level groups mirror the siteSettings label groups: a CMS label at the
+ * same path (e.g. enquiry.panel.title) overrides the entry. Messages use ICU
+ * syntax: {name} interpolates a value and {count, plural, one {…} other {…}}
+ * picks a plural form, with # standing for the number.
+ */
+const en = {
+  navigation: {
+    home: "Home",
+    about: "About Us",
+    products: "Products",
+    contact: "Contact",
+    catalogue: "Catalogue",
+    trade: "Get Quote",
+    selectLanguage: "Select Language",
+  },
+  enquiry: {
+    addedToast: "{product} added to enquiry!",
+    pdfError: "Failed to generate PDF. Please try again.",
+    emptyEnquiryError: "Your enquiry list is empty.",
+    openBuilderAria: "Open Enquiry Builder",
+    gradeLabel: "Grade",
+    packFormatLabel: "Pack Format",
+    quantityLabel: "Quantity",
+    unitLabel: "Unit",
+    moqLabel: "MOQ",
+    notesLabel: "Notes",
+    gradePlaceholder: "Select grade",
+    packFormatPlaceholder: "Select pack format",
+    quantityPlaceholder: "Enter quantity",
+    notesPlaceholder: "Add notes (optional)",
+    selectPlaceholder: "Select…",
+    otherOption: "Other (please specify)",
+    belowMoqWarning: "Below the minimum order of {moq}",
+    saveLabel: "Save",
+    cancelLabel: "Cancel",
+    editLabel: "Edit Details",
+    removeAriaLabel: "Remove item",
+    floatingBar: {
+      itemCount: "{count, plural, one {# Item} other {# Items}}",
+      inYourEnquiry: "in your enquiry",
+      readyToSubmit: "Ready to request a quote?",
+      viewEnquiry: "View List",
+      submitEnquiry: "Request Quote",
+    },
+    panel: {
+      title: "Your Enquiry",
+      emptyState: "Your enquiry list is empty",
+      emptyStateSub: "Browse our products to add items.",
+      exportPdf: "Export PDF",
+      submitEnquiry: "Submit Items",
+      clearAll: "Clear all items",
+      confirmClear: "Are you sure you want to clear all items?",
+      closePanelAria: "Close panel",
+      shareList: "Share this list",
+      shareSuccess: "Share link copied to clipboard.",
+      shareError: "Could not create a share link.",
+      responseTimes: "Response Times",
+      emailLabel: "Email:",
+      emailResponse: "24-48 hours response",
+      whatsappLabel: "WhatsApp:",
+      whatsappResponse: "12 hours response",
+    },
+    builder: {
+      buttonLabel: "Enquiry List",
+    },
+  },
+  productFilters: {
+    searchLabel: "Search",
+    searchPlaceholder: "Search products…",
+    categoryLabel: "Category",
+    originLabel: "Origin",
+    applicationLabel: "Application",
+    allOption: "All",
+    sortLabel: "Sort by",
+    sortOrder: "Featured",
+    sortTitle: "Name (A–Z)",
+    clearLabel: "Clear filters",
+    resultsLabel: "{count, plural, one {# product} other {# products}}",
+    noResults: "No products match these filters. Try clearing some of them.",
+  },
+  catalogueViewer: {
+    downloadPdf: "Download PDF",
+  },
+  forms: {
+    nameLabel: "Name",
+    companyLabel: "Company",
+    roleLabel: "Role (Optional)",
+    emailLabel: "Email",
+    phoneLabel: "Phone",
+    countryLabel: "Country",
+    productInterestLabel: "Products of Interest",
+    productSelectionAria: "Product selection",
+    quantityLabel: "Estimated Quantity",
+    quantityUnitLabel: "Unit",
+    tradeQuantityPlaceholder: "e.g., 500",
+    messageLabel: "Message",
+    submitButton: "Submit Enquiry",
+    submittingButton: "Submitting...",
+    successMessage: "Thank you for your enquiry. Our team will contact you shortly.",
+    errorMessage: "Something went wrong. Please try again.",
+    sampleRequestMessage: "I am interested in requesting a sample for {product}.",
+    enquiryListIntro: "Please find the following products in my enquiry:",
+  },
+  validation: {
+    nameMinError: "Name must be at least {min, plural, one {# character} other {# characters}}",
+    emailInvalidError: "Please enter a valid email",
+    messageMinError:
+      "Message must be at least {min, plural, one {# character} other {# characters}}",
+    companyRequiredError: "Company is required",
+    phoneRequiredError: "Phone is required",
+    countryRequiredError: "Country is required",
+  },
+};
+
+export default en;
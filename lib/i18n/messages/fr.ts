@@ -0,0 +1,116 @@
+import type { LocaleMessages } from "@/lib/i18n/messages";
+
+/**
+ * French UI messages
+ */
+const fr: LocaleMessages = {
+  navigation: {
+    home: "Accueil",
+    about: "À propos",
+    products: "Produits",
+    contact: "Contact",
+    catalogue: "Catalogue",
+    trade: "Obtenir un devis",
+    selectLanguage: "Choisir la langue",
+  },
+  enquiry: {
+    addedToast: "{product} ajouté à votre demande !",
+    pdfError: "Impossible de générer le PDF. Veuillez réessayer.",
+    emptyEnquiryError: "Votre liste de demande est vide.",
+    openBuilderAria: "Ouvrir la liste de demande",
+    gradeLabel: "Calibre",
+    packFormatLabel: "Conditionnement",
+    quantityLabel: "Quantité",
+    unitLabel: "Unité",
+    moqLabel: "Commande min.",
+    notesLabel: "Remarques",
+    gradePlaceholder: "Choisir le calibre",
+    packFormatPlaceholder: "Choisir le conditionnement",
+    quantityPlaceholder: "Saisir la quantité",
+    notesPlaceholder: "Ajouter des remarques (facultatif)",
+    selectPlaceholder: "Choisir…",
+    otherOption: "Autre (veuillez préciser)",
+    belowMoqWarning: "Inférieur à la commande minimale de {moq}",
+    saveLabel: "Enregistrer",
+    cancelLabel: "Annuler",
+    editLabel: "Modifier les détails",
+    removeAriaLabel: "Retirer l’article",
+    floatingBar: {
+      itemCount: "{count, plural, one {# article} other {# articles}}",
+      inYourEnquiry: "dans votre demande",
+      readyToSubmit: "Prêt à demander un devis ?",
+      viewEnquiry: "Voir la liste",
+      submitEnquiry: "Demander un devis",
+    },
+    panel: {
+      title: "Votre demande",
+      emptyState: "Votre liste de demande est vide",
+      emptyStateSub: "Parcourez nos produits pour ajouter des articles.",
+      exportPdf: "Exporter en PDF",
+      submitEnquiry: "Envoyer les articles",
+      clearAll: "Vider la liste",
+      confirmClear: "Voulez-vous vraiment retirer tous les articles ?",
+      closePanelAria: "Fermer le panneau",
+      shareList: "Partager cette liste",
+      shareSuccess: "Lien de partage copié dans le presse-papiers.",
+      shareError: "Impossible de créer un lien de partage.",
+      responseTimes: "Délais de réponse",
+      emailLabel: "E-mail :",
+      emailResponse: "réponse sous 24 à 48 heures",
+      whatsappLabel: "WhatsApp :",
+      whatsappResponse: "réponse sous 12 heures",
+    },
+    builder: {
+      buttonLabel: "Liste de demande",
+    },
+  },
+  productFilters: {
+    searchLabel: "Rechercher",
+    searchPlaceholder: "Rechercher des produits…",
+    categoryLabel: "Catégorie",
+    originLabel: "Origine",
+    applicationLabel: "Utilisation",
+    allOption: "Tous",
+    sortLabel: "Trier par",
+    sortOrder: "En vedette",
+    sortTitle: "Nom (A–Z)",
+    clearLabel: "Effacer les filtres",
+    resultsLabel: "{count, plural, one {# produit} other {# produits}}",
+    noResults: "Aucun produit ne correspond à ces filtres. Essayez d’en retirer quelques-uns.",
+  },
+  catalogueViewer: {
+    downloadPdf: "Télécharger le PDF",
+  },
+  forms: {
+    nameLabel: "Nom",
+    companyLabel: "Société",
+    roleLabel: "Fonction (facultatif)",
+    emailLabel: "E-mail",
+    phoneLabel: "Téléphone",
+    countryLabel: "Pays",
+    productInterestLabel: "Produits souhaités",
+    productSelectionAria: "Sélection de produits",
+    quantityLabel: "Quantité estimée",
+    quantityUnitLabel: "Unité",
+    tradeQuantityPlaceholder: "ex. 500",
+    messageLabel: "Message",
+    submitButton: "Envoyer la demande",
+    submittingButton: "Envoi en cours...",
+    successMessage: "Merci pour votre demande. Notre équipe vous contactera rapidement.",
+    errorMessage: "Une erreur s’est produite. Veuillez réessayer.",
+    sampleRequestMessage: "Je souhaite demander un échantillon de {product}.",
+    enquiryListIntro: "Veuillez trouver ci-dessous les produits de ma demande :",
+  },
+  validation: {
+    nameMinError:
+      "Le nom doit comporter au moins {min, plural, one {# caractère} other {# caractères}}",
+    emailInvalidError: "Veuillez saisir une adresse e-mail valide",
+    messageMinError:
+      "Le message doit comporter au moins {min, plural, one {# caractère} other {# caractères}}",
+    companyRequiredError: "La société est obligatoire",
+    phoneRequiredError: "Le téléphone est obligatoire",
+    countryRequiredError: "Le pays est obligatoire",
+  },
+};
+
+export default fr;
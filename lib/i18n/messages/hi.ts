@@ -0,0 +1,114 @@
+import type { LocaleMessages } from "@/lib/i18n/messages";
+
+/**
+ * Hindi UI messages
+ */
+const hi: LocaleMessages = {
+  navigation: {
+    home: "होम",
+    about: "हमारे बारे में",
+    products: "उत्पाद",
+    contact: "संपर्क करें",
+    catalogue: "कैटलॉग",
+    trade: "कोटेशन प्राप्त करें",
+    selectLanguage: "भाषा चुनें",
+  },
+  enquiry: {
+    addedToast: "{product} आपकी पूछताछ में जोड़ा गया!",
+    pdfError: "PDF नहीं बन सका। कृपया पुनः प्रयास करें।",
+    emptyEnquiryError: "आपकी पूछताछ सूची खाली है।",
+    openBuilderAria: "पूछताछ सूची खोलें",
+    gradeLabel: "ग्रेड",
+    packFormatLabel: "पैकिंग प्रकार",
+    quantityLabel: "मात्रा",
+    unitLabel: "इकाई",
+    moqLabel: "न्यूनतम ऑर्डर",
+    notesLabel: "टिप्पणियाँ",
+    gradePlaceholder: "ग्रेड चुनें",
+    packFormatPlaceholder: "पैकिंग प्रकार चुनें",
+    quantityPlaceholder: "मात्रा दर्ज करें",
+    notesPlaceholder: "टिप्पणी जोड़ें (वैकल्पिक)",
+    selectPlaceholder: "चुनें…",
+    otherOption: "अन्य (कृपया बताएँ)",
+    belowMoqWarning: "न्यूनतम ऑर्डर {moq} से कम",
+    saveLabel: "सहेजें",
+    cancelLabel: "रद्द करें",
+    editLabel: "विवरण संपादित करें",
+    removeAriaLabel: "आइटम हटाएँ",
+    floatingBar: {
+      itemCount: "{count, plural, one {# आइटम} other {# आइटम}}",
+      inYourEnquiry: "आपकी पूछताछ में",
+      readyToSubmit: "कोटेशन के लिए तैयार हैं?",
+      viewEnquiry: "सूची देखें",
+      submitEnquiry: "कोटेशन माँगें",
+    },
+    panel: {
+      title: "आपकी पूछताछ",
+      emptyState: "आपकी पूछताछ सूची खाली है",
+      emptyStateSub: "आइटम जोड़ने के लिए हमारे उत्पाद देखें।",
+      exportPdf: "PDF निर्यात करें",
+      submitEnquiry: "आइटम भेजें",
+      clearAll: "सभी आइटम हटाएँ",
+      confirmClear: "क्या आप वाकई सभी आइटम हटाना चाहते हैं?",
+      closePanelAria: "पैनल बंद करें",
+      shareList: "यह सूची साझा करें",
+      shareSuccess: "साझा करने का लिंक कॉपी हो गया।",
+      shareError: "साझा करने का लिंक नहीं बन सका।",
+      responseTimes: "जवाब का समय",
+      emailLabel: "ईमेल:",
+      emailResponse: "24-48 घंटों में जवाब",
+      whatsappLabel: "व्हाट्सऐप:",
+      whatsappResponse: "12 घंटों में जवाब",
+    },
+    builder: {
+      buttonLabel: "पूछताछ सूची",
+    },
+  },
+  productFilters: {
+    searchLabel: "खोजें",
+    searchPlaceholder: "उत्पाद खोजें…",
+    categoryLabel: "श्रेणी",
+    originLabel: "मूल स्थान",
+    applicationLabel: "उपयोग",
+    allOption: "सभी",
+    sortLabel: "क्रमबद्ध करें",
+    sortOrder: "विशेष",
+    sortTitle: "नाम (A–Z)",
+    clearLabel: "फ़िल्टर हटाएँ",
+    resultsLabel: "{count, plural, one {# उत्पाद} other {# उत्पाद}}",
+    noResults: "इन फ़िल्टरों से कोई उत्पाद मेल नहीं खाता। कुछ फ़िल्टर हटाकर देखें।",
+  },
+  catalogueViewer: {
+    downloadPdf: "PDF डाउनलोड करें",
+  },
+  forms: {
+    nameLabel: "नाम",
+    companyLabel: "कंपनी",
+    roleLabel: "पद (वैकल्पिक)",
+    emailLabel: "ईमेल",
+    phoneLabel: "फ़ोन",
+    countryLabel: "देश",
+    productInterestLabel: "रुचि के उत्पाद",
+    productSelectionAria: "उत्पाद चयन",
+    quantityLabel: "अनुमानित मात्रा",
+    quantityUnitLabel: "इकाई",
+    tradeQuantityPlaceholder: "जैसे, 500",
+    messageLabel: "संदेश",
+    submitButton: "पूछताछ भेजें",
+    submittingButton: "भेजा जा रहा है...",
+    successMessage: "आपकी पूछताछ के लिए धन्यवाद। हमारी टीम जल्द ही आपसे संपर्क करेगी।",
+    errorMessage: "कुछ गलत हो गया। कृपया पुनः प्रयास करें।",
+    sampleRequestMessage: "मैं {product} का नमूना मँगवाना चाहता/चाहती हूँ।",
+    enquiryListIntro: "कृपया मेरी पूछताछ में निम्नलिखित उत्पाद देखें:",
+  },
+  validation: {
+    nameMinError: "नाम कम से कम {min} अक्षरों का होना चाहिए",
+    emailInvalidError: "कृपया मान्य ईमेल दर्ज करें",
+    messageMinError: "संदेश कम से कम {min} अक्षरों का होना चाहिए",
+    companyRequiredError: "कंपनी का नाम आवश्यक है",
+    phoneRequiredError: "फ़ोन नंबर आवश्यक है",
+    countryRequiredError: "देश आवश्यक है",
+  },
+};
+
+export default hi;
@@ -0,0 +1,36 @@
+import type { Language } from "@/context/LanguageContext";
+
+import ar from "@/lib/i18n/messages/ar";
+import en from "@/lib/i18n/messages/en";
+import fr from "@/lib/i18n/messages/fr";
+import hi from "@/lib/i18n/messages/hi";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type Messages = typeof en;
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends string ? string : DeepPartial<T[K]> };
+
+/**
+ * A translated catalogue. Entries may lag behind English; missing ones fall
+ * back to it and are reported in development.
+ */
+export type LocaleMessages = DeepPartial<Messages>;
+
+type Leaves<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : Leaves<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+/** Dot path of a message, e.g. "enquiry.panel.title" */
+export type MessageKey = Leaves<Messages>;
+
+// =============================================================================
+// CATALOGUE
+// =============================================================================
+
+export const MESSAGES: Record<Language, LocaleMessages> = { en, ar, hi, fr };
+
+/** siteSettings label groups that can override catalogue entries */
+export const MESSAGE_GROUPS = Object.keys(en) as Array<keyof Messages>;
@@ -0,0 +1,82 @@
+import "server-only";
+
+import { unstable_cache } from "next/cache";
+import { cookies } from "next/headers";
+
+import type { Language } from "@/context/LanguageContext";
+import { DEFAULT_LANGUAGE, isLanguage, LANGUAGE_COOKIE, languageSchema } from "@/lib/i18n";
+import { MESSAGE_GROUPS } from "@/lib/i18n/messages";
+import { createTranslator, type MessageOverrides, type Translator } from "@/lib/i18n/translate";
+import { client } from "@/lib/sanity/client";
+import { siteSettingsQuery } from "@/lib/sanity/queries";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Props of pages and layouts under app/(website)/[locale] */
+export interface LocalePageProps {
+  params: Promise<{ locale: string }>;
+}
+
+// =============================================================================
+// CACHED DATA
+// =============================================================================
+
+/**
+ * siteSettings label groups, cached until the revalidate webhook clears the
+ * "siteSettings" tag. Fetch errors are thrown so they are not cached.
+ */
+const getCachedMessageOverrides = unstable_cache(
+  async (): Promise<MessageOverrides> => {
+    const settings: Record<string, unknown> | null = await client.fetch(siteSettingsQuery);
+    return Object.fromEntries(MESSAGE_GROUPS.map((group) => [group, settings?.[group]]));
+  },
+  ["message-overrides"],
+  { tags: ["siteSettings"] }
+);
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Language of a website page. The proxy rewrites every website request onto
+ * its /[locale] route, so pages read the language from their params and can
+ * be rendered statically per language.
+ */
+export async function getPageLanguage(params: LocalePageProps["params"]): Promise<Language> {
+  const { locale } = await params;
+  return languageSchema.parse(locale);
+}
+
+/**
+ * Language of an API request, from the cookie the proxy and the language
+ * switcher keep up to date. Falls back to English.
+ */
+export async function getRequestLanguage(): Promise<Language> {
+  const fromCookie = (await cookies()).get(LANGUAGE_COOKIE)?.value;
+  return isLanguage(fromCookie) ? fromCookie : DEFAULT_LANGUAGE;
+}
+
+/**
+ * The siteSettings label groups that override catalogue messages. Only those
+ * groups are returned, as the result is passed to the client.
+ */
+export async function getMessageOverrides(): Promise<MessageOverrides> {
+  try {
+    return await getCachedMessageOverrides();
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[i18n] Failed to fetch message overrides:", error);
+    }
+    return {};
+  }
+}
+
+/**
+ * Message lookup for server code, in the given language
+ */
+export async function getTranslator(language: Language): Promise<Translator> {
+  return createTranslator(language, await getMessageOverrides());
+}
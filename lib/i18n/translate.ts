@@ -0,0 +1,179 @@
+import type { Language } from "@/context/LanguageContext";
+import { DEFAULT_LANGUAGE } from "@/lib/i18n";
+import { MESSAGES, type MessageKey } from "@/lib/i18n/messages";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * CMS labels keyed like the catalogue (the siteSettings label groups). A plain
+ * string is an English label; a localized object overrides each language it has.
+ */
+export type MessageOverrides = Record<string, unknown>;
+
+export type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const reportedMissing = new Set<string>();
+
+/**
+ * Warns once per message that a locale (or the whole catalogue) lacks it
+ */
+function reportMissing(key: string, language: Language): void {
+  if (process.env.NODE_ENV !== "development") return;
+
+  const id = `${language}:${key}`;
+  if (reportedMissing.has(id)) return;
+  reportedMissing.add(id);
+
+  console.warn(`[i18n] Missing "${language}" message: ${key}`);
+}
+
+function getPath(tree: unknown, key: string): unknown {
+  return key
+    .split(".")
+    .reduce<unknown>(
+      (node, segment) =>
+        node && typeof node === "object" ? (node as Record<string, unknown>)[segment] : undefined,
+      tree
+    );
+}
+
+function getOverride(
+  overrides: MessageOverrides,
+  key: string,
+  language: Language
+): string | undefined {
+  const value = getPath(overrides, key);
+
+  if (typeof value === "string") {
+    return language === DEFAULT_LANGUAGE && value ? value : undefined;
+  }
+
+  const localized = getPath(value, language);
+  return typeof localized === "string" && localized ? localized : undefined;
+}
+
+/**
+ * Index of the brace closing the one at `start`, or -1
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === "{") depth++;
+    if (text[index] === "}" && --depth === 0) return index;
+  }
+  return -1;
+}
+
+/**
+ * Parses "one {# item} other {# items}" into its selectors and branches
+ */
+function parseBranches(text: string): Map<string, string> {
+  const branches = new Map<string, string>();
+  let index = 0;
+
+  while (index < text.length) {
+    const open = text.indexOf("{", index);
+    if (open === -1) break;
+
+    const close = findClosingBrace(text, open);
+    if (close === -1) break;
+
+    branches.set(text.slice(index, open).trim(), text.slice(open + 1, close));
+    index = close + 1;
+  }
+
+  return branches;
+}
+
+function formatValue(value: string | number, language: Language): string {
+  return typeof value === "number" ? value.toLocaleString(language) : value;
+}
+
+/**
+ * Formats one {…} argument: a plain value, a plural or a select
+ */
+function formatArgument(argument: string, values: MessageValues, language: Language): string {
+  const [name = "", type = "", ...rest] = argument.split(",");
+  const value = values[name.trim()];
+
+  if (value === undefined) return `{${argument}}`;
+  if (!type.trim()) return formatValue(value, language);
+
+  const branches = parseBranches(rest.join(","));
+
+  if (type.trim() === "plural") {
+    const count = Number(value);
+    const branch =
+      branches.get(`=${count}`) ??
+      branches.get(new Intl.PluralRules(language).select(count)) ??
+      branches.get("other") ??
+      "";
+    return formatMessage(branch.replaceAll("#", formatValue(count, language)), values, language);
+  }
+
+  if (type.trim() === "select") {
+    return formatMessage(
+      branches.get(String(value)) ?? branches.get("other") ?? "",
+      values,
+      language
+    );
+  }
+
+  return formatValue(value, language);
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Fills in an ICU-style message: {name} interpolation plus the plural and
+ * select formats. Arguments without a value are left as written.
+ */
+export function formatMessage(
+  template: string,
+  values: MessageValues = {},
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  let result = "";
+  let index = 0;
+
+  while (index < template.length) {
+    const open = template.indexOf("{", index);
+    const close = open === -1 ? -1 : findClosingBrace(template, open);
+    if (close === -1) break;
+
+    result += template.slice(index, open);
+    result += formatArgument(template.slice(open + 1, close), values, language);
+    index = close + 1;
+  }
+
+  return result + template.slice(index);
+}
+
+/**
+ * Looks messages up in order: CMS override for the language, the language's
+ * catalogue, then English. Gaps are reported in development; an unknown key
+ * renders as itself so it is easy to spot.
+ */
+export function createTranslator(language: Language, overrides: MessageOverrides = {}): Translator {
+  return (key, values) => {
+    const override = getOverride(overrides, key, language);
+    if (override) return formatMessage(override, values, language);
+
+    const localized = getPath(MESSAGES[language], key);
+    if (typeof localized === "string") return formatMessage(localized, values, language);
+
+    reportMissing(key, language);
+    const fallback = getPath(MESSAGES[DEFAULT_LANGUAGE], key);
+    return typeof fallback === "string" ? formatMessage(fallback, values, language) : key;
+  };
+}
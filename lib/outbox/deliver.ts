@@ -0,0 +1,73 @@
+import "server-only";
+
+import type { OutboxKind } from "@prisma/client";
+
+import { EmailMessageSchema, WebhookMessageSchema } from "@/lib/outbox/types";
+import { sendEmail } from "@/lib/resend/client";
+import { getWebhookEndpoint } from "@/lib/webhooks/endpoints";
+import { signWebhookRequest } from "@/lib/webhooks/signature";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+/**
+ * Delivers a single outbox payload.
+ * @throws Error describing the failure, recorded as the message's `lastError`
+ */
+export async function deliverOutboxPayload(kind: OutboxKind, payload: unknown): Promise<void> {
+  switch (kind) {
+    case "email": {
+      const message = EmailMessageSchema.parse(payload);
+      const result = await sendEmail(message);
+      if (!result.success) {
+        throw new Error(`Email delivery failed: ${describeError(result.error)}`);
+      }
+      return;
+    }
+    case "webhook": {
+      const message = WebhookMessageSchema.parse(payload);
+      const headers = { ...message.headers };
+
+      if (message.endpointId) {
+        const endpoint = getWebhookEndpoint(message.endpointId);
+        if (!endpoint) {
+          throw new Error(`Webhook endpoint "${message.endpointId}" is no longer configured`);
+        }
+        Object.assign(headers, signWebhookRequest(endpoint.secret, message.body));
+      }
+
+      const response = await fetch(message.url, {
+        method: message.method,
+        headers,
+        body: message.body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status} ${response.statusText}`.trim());
+      }
+      return;
+    }
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Produces a readable message from the error shapes Resend and Zod return
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "object" && error !== null && "message" in error) {
+    return String(error.message);
+  }
+  return String(error);
+}
@@ -0,0 +1,31 @@
+import "server-only";
+
+import type { Prisma } from "@prisma/client";
+
+import type { OutboxMessageInput } from "@/lib/outbox/types";
+
+/**
+ * Queues notifications inside the caller's transaction, so they are stored
+ * if and only if the enquiry they describe is stored.
+ *
+ * @param tx - Interactive transaction client from `prisma.$transaction`
+ * @returns Ids of the queued messages, for immediate delivery after commit
+ */
+export async function enqueueOutboxMessages(
+  tx: Prisma.TransactionClient,
+  messages: OutboxMessageInput[],
+  options: { enquiryId?: string } = {}
+): Promise<string[]> {
+  if (messages.length === 0) return [];
+
+  const rows = await tx.outboxMessage.createManyAndReturn({
+    data: messages.map((message) => ({
+      kind: message.kind,
+      payload: message.payload as Prisma.InputJsonObject,
+      enquiryId: options.enquiryId ?? null,
+    })),
+    select: { id: true },
+  });
+
+  return rows.map((row) => row.id);
+}
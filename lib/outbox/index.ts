@@ -0,0 +1,35 @@
+import "server-only";
+
+import { after } from "next/server";
+
+import { processOutbox } from "@/lib/outbox/worker";
+
+export type {
+  EmailMessage,
+  OutboxMessageInput,
+  OutboxRunResult,
+  WebhookMessage,
+} from "@/lib/outbox/types";
+export { enqueueOutboxMessages } from "@/lib/outbox/enqueue";
+export { deliverOutboxPayload } from "@/lib/outbox/deliver";
+export { getRetryDelayMs, processOutbox, replayOutboxMessages } from "@/lib/outbox/worker";
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Attempts delivery of freshly queued messages once the response has been
+ * sent. Anything that fails here is picked up by the cron worker.
+ */
+export function deliverAfterResponse(ids: string[]) {
+  if (ids.length === 0) return;
+
+  after(async () => {
+    try {
+      await processOutbox({ ids, limit: ids.length });
+    } catch (error: unknown) {
+      console.error("[Outbox] Immediate delivery failed:", error);
+    }
+  });
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+import { SendEmailSchema } from "@/lib/resend/client";
+
+// =============================================================================
+// ZOD SCHEMAS
+// =============================================================================
+
+export const EmailMessageSchema = SendEmailSchema;
+
+export const WebhookMessageSchema = z.object({
+  /** Configured endpoint whose secret signs each delivery attempt */
+  endpointId: z.string().optional(),
+  url: z.string().url(),
+  method: z.string().default("POST"),
+  headers: z.record(z.string(), z.string()).default({}),
+  /** Serialized request body, stored verbatim so retries send identical bytes */
+  body: z.string(),
+});
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EmailMessage = z.input<typeof EmailMessageSchema>;
+export type WebhookMessage = z.input<typeof WebhookMessageSchema>;
+
+export type OutboxMessageInput =
+  | { kind: "email"; payload: EmailMessage }
+  | { kind: "webhook"; payload: WebhookMessage };
+
+export interface OutboxRunResult {
+  claimed: number;
+  delivered: number;
+  retried: number;
+  dead: number;
+}
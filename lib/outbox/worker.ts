@@ -0,0 +1,151 @@
+import "server-only";
+
+import { OutboxStatus, Prisma, type OutboxKind } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { deliverOutboxPayload, describeError } from "@/lib/outbox/deliver";
+import type { OutboxRunResult } from "@/lib/outbox/types";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DEFAULT_BATCH_SIZE = 25;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Messages stuck in "processing" longer than this are assumed to belong to a
+// worker that crashed mid-delivery and are claimed again
+const STALE_LOCK_MINUTES = 5;
+
+const MAX_ERROR_LENGTH = 2000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ClaimedMessage {
+  id: string;
+  kind: OutboxKind;
+  payload: unknown;
+  attempts: number;
+  max_attempts: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Exponential backoff with ±20% jitter: 30s, 1m, 2m, 4m … capped at 6h.
+ * @param attempt - The attempt that just failed, starting at 1
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+  const jitter = delay * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(delay + jitter);
+}
+
+/**
+ * Atomically claims due messages. `SKIP LOCKED` lets overlapping runs (cron
+ * plus post-submit delivery) work in parallel without sending anything twice.
+ */
+async function claimMessages(limit: number, ids?: string[]): Promise<ClaimedMessage[]> {
+  const idFilter = ids ? Prisma.sql`AND "id" = ANY(${ids})` : Prisma.empty;
+
+  return prisma.$queryRaw<ClaimedMessage[]>`
+    UPDATE "outbox_messages" SET
+      "status" = 'processing',
+      "locked_at" = NOW(),
+      "attempts" = "attempts" + 1,
+      "updated_at" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "outbox_messages"
+      WHERE (
+        ("status" = 'pending' AND "next_attempt_at" <= NOW())
+        OR ("status" = 'processing' AND "locked_at" < NOW() - make_interval(mins => ${STALE_LOCK_MINUTES}))
+      )
+      ${idFilter}
+      ORDER BY "next_attempt_at"
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "kind", "payload", "attempts", "max_attempts"
+  `;
+}
+
+// =============================================================================
+// WORKER
+// =============================================================================
+
+/**
+ * Delivers due outbox messages. Failures are rescheduled with exponential
+ * backoff until `maxAttempts`, after which the message is dead-lettered and
+ * waits for a manual replay.
+ *
+ * @param options.ids - Only process these messages (used right after a submission)
+ */
+export async function processOutbox(
+  options: { limit?: number; ids?: string[] } = {}
+): Promise<OutboxRunResult> {
+  const messages = await claimMessages(options.limit ?? DEFAULT_BATCH_SIZE, options.ids);
+  const result: OutboxRunResult = { claimed: messages.length, delivered: 0, retried: 0, dead: 0 };
+
+  for (const message of messages) {
+    try {
+      await deliverOutboxPayload(message.kind, message.payload);
+      await prisma.outboxMessage.update({
+        where: { id: message.id },
+        data: {
+          status: OutboxStatus.delivered,
+          deliveredAt: new Date(),
+          lockedAt: null,
+          lastError: null,
+        },
+      });
+      result.delivered++;
+    } catch (error: unknown) {
+      const isDead = message.attempts >= message.max_attempts;
+      const lastError = describeError(error).slice(0, MAX_ERROR_LENGTH);
+
+      await prisma.outboxMessage.update({
+        where: { id: message.id },
+        data: {
+          status: isDead ? OutboxStatus.dead : OutboxStatus.pending,
+          nextAttemptAt: new Date(Date.now() + getRetryDelayMs(message.attempts)),
+          lockedAt: null,
+          lastError,
+        },
+      });
+
+      if (isDead) {
+        result.dead++;
+        console.error(
+          `[Outbox] ${message.kind} ${message.id} dead-lettered after ${message.attempts} attempts:`,
+          lastError
+        );
+      } else {
+        result.retried++;
+        console.warn(
+          `[Outbox] ${message.kind} ${message.id} failed (attempt ${message.attempts}), will retry:`,
+          lastError
+        );
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Puts dead-lettered messages back in the queue with a fresh attempt budget.
+ * @param ids - Messages to replay; omit to replay every dead message
+ * @returns Number of messages requeued
+ */
+export async function replayOutboxMessages(ids?: string[]): Promise<number> {
+  const { count } = await prisma.outboxMessage.updateMany({
+    where: { status: OutboxStatus.dead, ...(ids && { id: { in: ids } }) },
+    data: { status: OutboxStatus.pending, attempts: 0, nextAttemptAt: new Date() },
+  });
+  return count;
+}
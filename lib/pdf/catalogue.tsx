@@ -0,0 +1,184 @@
+import "server-only";
+
+import { Document, Link, renderToBuffer, Text, View } from "@react-pdf/renderer";
+
+import PdfCoverPage from "@/components/pdf/PdfCoverPage";
+import PdfFooter from "@/components/pdf/PdfFooter";
+import PdfPage from "@/components/pdf/PdfPage";
+import PdfProductSpec from "@/components/pdf/PdfProductSpec";
+import type { Language } from "@/context/LanguageContext";
+import { resolveCataloguePdfCopy, resolveSpecSheetPdfCopy } from "@/lib/pdf/copy";
+import { preparePdfDocument } from "@/lib/pdf/document";
+import { loadPdfImage } from "@/lib/pdf/images";
+import { getProductSummary, getProductTexts, type PdfProduct } from "@/lib/pdf/product";
+import type { PdfSettings } from "@/lib/pdf/settings";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CataloguePdfOptions {
+  settings: PdfSettings;
+  language: Language;
+  /** Edition shown on the cover, e.g. the catalogue settings' version */
+  edition?: string | undefined;
+  /** Origin the logo and cover artwork in /public are loaded from */
+  siteUrl: string;
+}
+
+// =============================================================================
+// RENDERER
+// =============================================================================
+
+/**
+ * Renders the print catalogue: a cover, a table of contents, one spread per
+ * product (in the order given) and a back page, matching the flipbook.
+ */
+export async function renderCataloguePdf(
+  products: PdfProduct[],
+  { settings, language, edition, siteUrl }: CataloguePdfOptions
+): Promise<{ buffer: Buffer; filename: string }> {
+  const { pdfTemplate } = settings;
+
+  const [{ locale, theme }, logo, background, images] = await Promise.all([
+    preparePdfDocument({
+      language,
+      texts: [
+        ...Object.values(resolveCataloguePdfCopy(pdfTemplate.catalogueLabels, language)),
+        ...Object.values(resolveSpecSheetPdfCopy(pdfTemplate.specSheetLabels, language)),
+        pdfTemplate.companyName,
+        ...products.flatMap((product) => getProductTexts(product, language)),
+      ],
+      settings,
+    }),
+    loadPdfImage(null, new URL("/Logo.png", siteUrl).href),
+    loadPdfImage(null, new URL("/catalogue-cover-bg.png", siteUrl).href),
+    Promise.all(products.map((product) => loadPdfImage(product.heroImage, product.heroImageUrl))),
+  ]);
+  const copy = resolveCataloguePdfCopy(pdfTemplate.catalogueLabels, locale);
+  const specCopy = resolveSpecSheetPdfCopy(pdfTemplate.specSheetLabels, locale);
+  const rowDirection = theme.rtl ? "row-reverse" : "row";
+
+  // Page each product starts on, recorded while laying out. The contents page
+  // needs them before the products are laid out, so the document is rendered
+  // twice; the contents fit on the same pages both times.
+  const startPages = new Map<string, number>();
+
+  const renderDocument = () =>
+    renderToBuffer(
+      <Document title={copy.title} author={pdfTemplate.companyName} language={locale}>
+        <PdfCoverPage theme={theme} background={background} logo={logo}>
+          <Text style={{ ...theme.emphasis, fontSize: theme.fontSize.header * 1.6 }}>
+            {copy.title}
+          </Text>
+          <Text style={{ marginTop: "3mm", fontSize: theme.fontSize.subtitle }}>
+            {copy.subtitle}
+          </Text>
+          {edition ? (
+            <Text
+              style={{ marginTop: "8mm", fontSize: theme.fontSize.body, color: theme.colors.gray }}
+            >
+              {`${copy.editionLabel} ${edition}`}
+            </Text>
+          ) : null}
+        </PdfCoverPage>
+
+        <PdfPage theme={theme}>
+          <Text
+            style={{
+              ...theme.emphasis,
+              fontSize: theme.fontSize.header,
+              color: theme.colors.deepBrown,
+              marginBottom: "8mm",
+            }}
+          >
+            {copy.contentsLabel}
+          </Text>
+          {products.map((product) => (
+            <Link
+              key={product._id}
+              src={`#${product.slug.current}`}
+              style={{ color: theme.colors.black, textDecoration: "none" }}
+            >
+              <View
+                style={{
+                  flexDirection: rowDirection,
+                  justifyContent: "space-between",
+                  paddingVertical: "2.5mm",
+                  borderBottomWidth: 0.5,
+                  borderBottomColor: theme.colors.lightGray,
+                }}
+              >
+                <Text>{getProductSummary(product, locale).title}</Text>
+                <Text style={{ color: theme.colors.gray }}>
+                  {startPages.get(product.slug.current)?.toLocaleString(locale) ?? ""}
+                </Text>
+              </View>
+            </Link>
+          ))}
+          <PdfFooter theme={theme} locale={locale} lines={[pdfTemplate.companyName]} />
+        </PdfPage>
+
+        {products.map((product, index) => (
+          <PdfPage key={product._id} theme={theme}>
+            <View id={product.slug.current}>
+              <Text
+                style={{ position: "absolute" }}
+                render={({ pageNumber }) => {
+                  startPages.set(product.slug.current, pageNumber);
+                  return "";
+                }}
+              />
+              <PdfProductSpec
+                theme={theme}
+                product={product}
+                copy={specCopy}
+                locale={locale}
+                image={images[index] ?? null}
+                emptyFieldText={pdfTemplate.emptyFieldText}
+                layout="spread"
+              />
+            </View>
+            <PdfFooter theme={theme} locale={locale} lines={[pdfTemplate.companyName]} />
+          </PdfPage>
+        ))}
+
+        <PdfCoverPage theme={theme} background={background} logo={logo}>
+          <Text style={{ ...theme.emphasis, fontSize: theme.fontSize.subtitle }}>
+            {copy.tagline}
+          </Text>
+          <Text style={{ marginTop: "1.5mm", fontSize: theme.fontSize.subtitle }}>
+            {copy.websiteText}
+          </Text>
+          <Text
+            style={{
+              ...theme.emphasis,
+              marginTop: "30mm",
+              fontSize: theme.fontSize.body,
+              textTransform: "uppercase",
+              letterSpacing: 1,
+            }}
+          >
+            {copy.thankYouText}
+          </Text>
+          <Text
+            style={{
+              marginTop: "1mm",
+              fontSize: theme.fontSize.footer,
+              color: theme.colors.darkGray,
+            }}
+          >
+            {copy.valuesText}
+          </Text>
+        </PdfCoverPage>
+      </Document>
+    );
+
+  await renderDocument();
+  const buffer = await renderDocument();
+
+  return {
+    buffer,
+    filename: edition ? `product-catalogue-${edition}.pdf` : "product-catalogue.pdf",
+  };
+}
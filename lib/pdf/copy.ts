@@ -0,0 +1,442 @@
+import type { Language } from "@/context/LanguageContext";
+import { resolveCopy } from "@/lib/email/copy";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type PdfCopyOverrides<K extends PropertyKey> = Partial<
+  Record<K, Partial<Record<Language, string | undefined>> | undefined>
+>;
+
+export type EnquiryPdfCopy = Record<keyof typeof ENQUIRY_PDF_DEFAULTS, string>;
+
+/**
+ * Labels edited in the CMS `pdfTemplate`, one `localeString` per label. Each
+ * language the editor filled in overrides the built-in translation.
+ */
+export type EnquiryPdfOverrides = PdfCopyOverrides<keyof EnquiryPdfCopy>;
+
+export type QuotationPdfCopy = Record<keyof typeof QUOTATION_PDF_DEFAULTS, string>;
+export type QuotationPdfOverrides = PdfCopyOverrides<keyof QuotationPdfCopy>;
+
+export type SpecSheetPdfCopy = Record<keyof typeof SPEC_SHEET_PDF_DEFAULTS, string>;
+export type SpecSheetPdfOverrides = PdfCopyOverrides<keyof SpecSheetPdfCopy>;
+
+export type CataloguePdfCopy = Record<keyof typeof CATALOGUE_PDF_DEFAULTS, string>;
+export type CataloguePdfOverrides = PdfCopyOverrides<keyof CataloguePdfCopy>;
+
+// =============================================================================
+// DEFAULT FALLBACK VALUES
+// =============================================================================
+
+export const ENQUIRY_PDF_DEFAULTS = {
+  title: {
+    en: "Enquiry Form",
+    ar: "نموذج استفسار",
+    hi: "पूछताछ फ़ॉर्म",
+    fr: "Formulaire de demande",
+  },
+  dateLabel: {
+    en: "Date:",
+    ar: "التاريخ:",
+    hi: "दिनांक:",
+    fr: "Date :",
+  },
+  referenceLabel: {
+    en: "Reference:",
+    ar: "المرجع:",
+    hi: "संदर्भ:",
+    fr: "Référence :",
+  },
+  contactDetailsLabel: {
+    en: "Contact Details:",
+    ar: "بيانات الاتصال:",
+    hi: "संपर्क विवरण:",
+    fr: "Coordonnées :",
+  },
+  nameLabel: {
+    en: "Name:",
+    ar: "الاسم:",
+    hi: "नाम:",
+    fr: "Nom :",
+  },
+  companyLabel: {
+    en: "Company:",
+    ar: "الشركة:",
+    hi: "कंपनी:",
+    fr: "Société :",
+  },
+  emailLabel: {
+    en: "Email:",
+    ar: "البريد الإلكتروني:",
+    hi: "ईमेल:",
+    fr: "E-mail :",
+  },
+  phoneLabel: {
+    en: "Phone:",
+    ar: "الهاتف:",
+    hi: "फ़ोन:",
+    fr: "Téléphone :",
+  },
+  naText: {
+    en: "N/A",
+    ar: "غير متوفر",
+    hi: "उपलब्ध नहीं",
+    fr: "N/D",
+  },
+  totalVolumeLabel: {
+    en: "Estimated total volume:",
+    ar: "إجمالي الكمية التقديري:",
+    hi: "अनुमानित कुल मात्रा:",
+    fr: "Volume total estimé :",
+  },
+  footerText1: {
+    en: "Thank you for your enquiry.",
+    ar: "شكراً لاستفسارك.",
+    hi: "आपकी पूछताछ के लिए धन्यवाद।",
+    fr: "Merci pour votre demande.",
+  },
+  footerText2: {
+    en: "We will get back to you shortly.",
+    ar: "سنتواصل معك قريباً.",
+    hi: "हम जल्द ही आपसे संपर्क करेंगे।",
+    fr: "Nous vous répondrons rapidement.",
+  },
+  productHeader: {
+    en: "Product",
+    ar: "المنتج",
+    hi: "उत्पाद",
+    fr: "Produit",
+  },
+  gradeHeader: {
+    en: "Grade",
+    ar: "الدرجة",
+    hi: "ग्रेड",
+    fr: "Calibre",
+  },
+  packFormatHeader: {
+    en: "Pack Format",
+    ar: "نوع التعبئة",
+    hi: "पैकिंग",
+    fr: "Conditionnement",
+  },
+  quantityHeader: {
+    en: "Quantity",
+    ar: "الكمية",
+    hi: "मात्रा",
+    fr: "Quantité",
+  },
+  moqHeader: {
+    en: "MOQ",
+    ar: "الحد الأدنى للطلب",
+    hi: "न्यूनतम ऑर्डर",
+    fr: "Qté min.",
+  },
+  notesHeader: {
+    en: "Notes",
+    ar: "ملاحظات",
+    hi: "टिप्पणियाँ",
+    fr: "Remarques",
+  },
+} satisfies Record<string, Record<Language, string>>;
+
+export const QUOTATION_PDF_DEFAULTS = {
+  title: {
+    en: "Proforma Quotation",
+    ar: "عرض سعر مبدئي",
+    hi: "प्रोफ़ॉर्मा कोटेशन",
+    fr: "Devis proforma",
+  },
+  quoteNumberLabel: {
+    en: "Quotation No.:",
+    ar: "رقم العرض:",
+    hi: "कोटेशन संख्या:",
+    fr: "N° de devis :",
+  },
+  enquiryReferenceLabel: {
+    en: "Your enquiry:",
+    ar: "استفسارك:",
+    hi: "आपकी पूछताछ:",
+    fr: "Votre demande :",
+  },
+  preparedForLabel: {
+    en: "Prepared for:",
+    ar: "مُعد لـ:",
+    hi: "किसके लिए:",
+    fr: "Établi pour :",
+  },
+  validUntilLabel: {
+    en: "Valid until:",
+    ar: "صالح حتى:",
+    hi: "वैधता तिथि:",
+    fr: "Valable jusqu'au :",
+  },
+  incotermLabel: {
+    en: "Incoterms:",
+    ar: "شروط التسليم:",
+    hi: "इनकोटर्म्स:",
+    fr: "Incoterms :",
+  },
+  paymentTermsLabel: {
+    en: "Payment terms:",
+    ar: "شروط الدفع:",
+    hi: "भुगतान की शर्तें:",
+    fr: "Conditions de paiement :",
+  },
+  unitPriceHeader: {
+    en: "Unit Price",
+    ar: "سعر الوحدة",
+    hi: "इकाई मूल्य",
+    fr: "Prix unitaire",
+  },
+  amountHeader: {
+    en: "Amount",
+    ar: "المبلغ",
+    hi: "राशि",
+    fr: "Montant",
+  },
+  totalLabel: {
+    en: "Total:",
+    ar: "الإجمالي:",
+    hi: "कुल:",
+    fr: "Total :",
+  },
+  remarksLabel: {
+    en: "Remarks:",
+    ar: "ملاحظات:",
+    hi: "टिप्पणियाँ:",
+    fr: "Remarques :",
+  },
+  priceOnRequestText: {
+    en: "On request",
+    ar: "عند الطلب",
+    hi: "अनुरोध पर",
+    fr: "Sur demande",
+  },
+  footerText: {
+    en: "This proforma quotation is not a tax invoice. Prices are subject to availability at the time of order confirmation.",
+    ar: "عرض السعر المبدئي هذا ليس فاتورة ضريبية. تخضع الأسعار للتوفر عند تأكيد الطلب.",
+    hi: "यह प्रोफ़ॉर्मा कोटेशन कर चालान नहीं है। मूल्य ऑर्डर की पुष्टि के समय उपलब्धता के अधीन हैं।",
+    fr: "Ce devis proforma n'est pas une facture. Les prix sont soumis à disponibilité lors de la confirmation de commande.",
+  },
+} satisfies Record<string, Record<Language, string>>;
+
+export const SPEC_SHEET_PDF_DEFAULTS = {
+  title: {
+    en: "Product Specification Sheet",
+    ar: "ورقة مواصفات المنتج",
+    hi: "उत्पाद विनिर्देश पत्र",
+    fr: "Fiche technique produit",
+  },
+  categoryLabel: {
+    en: "Category:",
+    ar: "الفئة:",
+    hi: "श्रेणी:",
+    fr: "Catégorie :",
+  },
+  specificationsLabel: {
+    en: "Specifications",
+    ar: "المواصفات",
+    hi: "विनिर्देश",
+    fr: "Spécifications",
+  },
+  originLabel: {
+    en: "Origin:",
+    ar: "المنشأ:",
+    hi: "मूल:",
+    fr: "Origine :",
+  },
+  varietyLabel: {
+    en: "Variety:",
+    ar: "الصنف:",
+    hi: "किस्म:",
+    fr: "Variété :",
+  },
+  packagingLabel: {
+    en: "Packaging:",
+    ar: "التعبئة:",
+    hi: "पैकेजिंग:",
+    fr: "Conditionnement :",
+  },
+  shelfLifeLabel: {
+    en: "Shelf life:",
+    ar: "مدة الصلاحية:",
+    hi: "शेल्फ लाइफ:",
+    fr: "Durée de conservation :",
+  },
+  storageLabel: {
+    en: "Storage:",
+    ar: "التخزين:",
+    hi: "भंडारण:",
+    fr: "Stockage :",
+  },
+  qualityLabel: {
+    en: "Quality:",
+    ar: "الجودة:",
+    hi: "गुणवत्ता:",
+    fr: "Qualité :",
+  },
+  logisticsLabel: {
+    en: "Logistics:",
+    ar: "الخدمات اللوجستية:",
+    hi: "लॉजिस्टिक्स:",
+    fr: "Logistique :",
+  },
+  moqLabel: {
+    en: "Minimum order:",
+    ar: "الحد الأدنى للطلب:",
+    hi: "न्यूनतम ऑर्डर:",
+    fr: "Commande minimum :",
+  },
+  standardPackagingLabel: {
+    en: "Standard packaging",
+    ar: "التعبئة القياسية",
+    hi: "मानक पैकेजिंग",
+    fr: "Conditionnement standard",
+  },
+  cartonLabel: {
+    en: "Carton:",
+    ar: "الكرتون:",
+    hi: "कार्टन:",
+    fr: "Carton :",
+  },
+  bagLabel: {
+    en: "Bag:",
+    ar: "الكيس:",
+    hi: "बैग:",
+    fr: "Sac :",
+  },
+  gradesLabel: {
+    en: "Grades",
+    ar: "الدرجات",
+    hi: "ग्रेड",
+    fr: "Calibres",
+  },
+  gradeHeader: {
+    en: "Grade",
+    ar: "الدرجة",
+    hi: "ग्रेड",
+    fr: "Calibre",
+  },
+  descriptionHeader: {
+    en: "Description",
+    ar: "الوصف",
+    hi: "विवरण",
+    fr: "Description",
+  },
+  varietiesLabel: {
+    en: "Varieties",
+    ar: "الأصناف",
+    hi: "किस्में",
+    fr: "Variétés",
+  },
+  applicationsLabel: {
+    en: "Applications",
+    ar: "الاستخدامات",
+    hi: "उपयोग",
+    fr: "Applications",
+  },
+  footerText: {
+    en: "Specifications are indicative and may vary by crop year. A certificate of analysis is available with every shipment.",
+    ar: "المواصفات إرشادية وقد تختلف حسب موسم الحصاد. تتوفر شهادة تحليل مع كل شحنة.",
+    hi: "विनिर्देश सांकेतिक हैं और फसल वर्ष के अनुसार भिन्न हो सकते हैं। हर शिपमेंट के साथ विश्लेषण प्रमाणपत्र उपलब्ध है।",
+    fr: "Les spécifications sont indicatives et peuvent varier selon la récolte. Un certificat d'analyse accompagne chaque expédition.",
+  },
+} satisfies Record<string, Record<Language, string>>;
+
+export const CATALOGUE_PDF_DEFAULTS = {
+  title: {
+    en: "Product Catalogue",
+    ar: "كتالوج المنتجات",
+    hi: "उत्पाद सूची",
+    fr: "Catalogue produits",
+  },
+  subtitle: {
+    en: "Premium Dry Fruits & Nuts",
+    ar: "فواكه مجففة ومكسرات فاخرة",
+    hi: "प्रीमियम सूखे मेवे और नट्स",
+    fr: "Fruits secs et noix de qualité supérieure",
+  },
+  editionLabel: {
+    en: "Edition",
+    ar: "الإصدار",
+    hi: "संस्करण",
+    fr: "Édition",
+  },
+  contentsLabel: {
+    en: "Contents",
+    ar: "المحتويات",
+    hi: "विषय सूची",
+    fr: "Sommaire",
+  },
+  tagline: {
+    en: "Bringing Nature's Finest to You",
+    ar: "نقدم لكم أجود ما في الطبيعة",
+    hi: "प्रकृति का सर्वश्रेष्ठ, आप तक",
+    fr: "Le meilleur de la nature, pour vous",
+  },
+  thankYouText: {
+    en: "Thank You for Choosing Us",
+    ar: "شكرًا لاختياركم لنا",
+    hi: "हमें चुनने के लिए धन्यवाद",
+    fr: "Merci de nous avoir choisis",
+  },
+  valuesText: {
+    en: "Quality · Trust · Excellence",
+    ar: "الجودة · الثقة · التميز",
+    hi: "गुणवत्ता · विश्वास · उत्कृष्टता",
+    fr: "Qualité · Confiance · Excellence",
+  },
+  websiteText: {
+    en: "www.divyanshint.com",
+    ar: "www.divyanshint.com",
+    hi: "www.divyanshint.com",
+    fr: "www.divyanshint.com",
+  },
+} satisfies Record<string, Record<Language, string>>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Resolves the enquiry PDF labels for one language. A CMS label wins when it
+ * has a value for that language; otherwise the built-in translation is used.
+ */
+export function resolveEnquiryPdfCopy(
+  overrides: EnquiryPdfOverrides,
+  language: Language
+): EnquiryPdfCopy {
+  return resolveCopy(ENQUIRY_PDF_DEFAULTS, overrides, language);
+}
+
+/**
+ * Resolves the quotation PDF labels for one language, like the enquiry labels
+ */
+export function resolveQuotationPdfCopy(
+  overrides: QuotationPdfOverrides,
+  language: Language
+): QuotationPdfCopy {
+  return resolveCopy(QUOTATION_PDF_DEFAULTS, overrides, language);
+}
+
+/**
+ * Resolves the product spec sheet labels for one language, like the enquiry labels
+ */
+export function resolveSpecSheetPdfCopy(
+  overrides: SpecSheetPdfOverrides,
+  language: Language
+): SpecSheetPdfCopy {
+  return resolveCopy(SPEC_SHEET_PDF_DEFAULTS, overrides, language);
+}
+
+/**
+ * Resolves the catalogue's cover, contents and back page labels for one language
+ */
+export function resolveCataloguePdfCopy(
+  overrides: CataloguePdfOverrides,
+  language: Language
+): CataloguePdfCopy {
+  return resolveCopy(CATALOGUE_PDF_DEFAULTS, overrides, language);
+}
@@ -0,0 +1,112 @@
+import type { Language } from "@/context/LanguageContext";
+import { getFontStack, getLanguageScript, registerPdfFonts } from "@/lib/pdf/fonts";
+import { parseColor, type PdfSettings } from "@/lib/pdf/settings";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PdfColorName = keyof PdfSettings["colors"];
+
+/**
+ * Resolved look of a document, passed to every component in components/pdf
+ */
+export interface PdfTheme {
+  rtl: boolean;
+  fontFamily: string[];
+  fontSize: {
+    header: number;
+    subtitle: number;
+    body: number;
+    footer: number;
+    table: number;
+  };
+  /** Style applied to emphasised text (table headers, labels) */
+  emphasis: { fontWeight: "bold" | "normal"; fontStyle: "italic" | "normal" };
+  tableTheme: "striped" | "grid" | "plain";
+  /** Cell padding in millimetres, matching the CMS value */
+  cellPadding: string;
+  colors: Record<PdfColorName, string>;
+}
+
+export interface PdfPageOptions {
+  /** Language the buyer asked for */
+  language: Language;
+  /** Every string that will be drawn, so the right fonts get registered */
+  texts: string[];
+  settings: Pick<PdfSettings, "styling" | "colors">;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const TABLE_THEMES = ["striped", "grid", "plain"] as const;
+
+// =============================================================================
+// DOCUMENT
+// =============================================================================
+
+/**
+ * Registers the Unicode fonts a document needs and resolves its theme.
+ * When the font for the requested language cannot be loaded its labels would
+ * be unreadable, so `locale` falls back to English.
+ */
+export async function preparePdfDocument({ language, texts, settings }: PdfPageOptions): Promise<{
+  locale: Language;
+  theme: PdfTheme;
+}> {
+  const { styling, colors } = settings;
+  const scripts = await registerPdfFonts(texts);
+  const locale: Language = scripts.has(getLanguageScript(language)) ? language : "en";
+
+  return {
+    locale,
+    theme: {
+      rtl: locale === "ar",
+      fontFamily: getFontStack(scripts, styling.fontFamily),
+      fontSize: {
+        header: styling.headerFontSize,
+        subtitle: styling.subtitleFontSize,
+        body: styling.bodyFontSize,
+        footer: styling.footerFontSize,
+        table: styling.tableFontSize,
+      },
+      emphasis: {
+        fontWeight: styling.fontStyleBold.includes("bold") ? "bold" : "normal",
+        fontStyle: styling.fontStyleBold.includes("italic") ? "italic" : "normal",
+      },
+      tableTheme: TABLE_THEMES.find((theme) => theme === styling.tableTheme) ?? "striped",
+      cellPadding: `${styling.tableCellPadding}mm`,
+      colors: Object.fromEntries(
+        Object.entries(colors).map(([name, value]) => [name, `rgb(${parseColor(value).join(",")})`])
+      ) as Record<PdfColorName, string>,
+    },
+  };
+}
+
+/**
+ * Maps a reading edge to a text alignment, mirrored for right-to-left themes
+ */
+export function alignTo(
+  theme: PdfTheme,
+  edge: "start" | "end" | "center"
+): "left" | "right" | "center" {
+  if (edge === "center") return "center";
+  return (edge === "start") === theme.rtl ? "right" : "left";
+}
+
+/**
+ * Strips control characters and caps the length of user-supplied text
+ * (500 characters unless the field allows more).
+ * Line breaks are kept so multi-line notes and addresses still wrap; tabs
+ * become spaces.
+ */
+export function sanitizePdfText(text: string | null | undefined, maxLength = 500): string {
+  if (!text) return "";
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\t/g, " ")
+    .replace(/[\x00-\x09\x0B-\x1F\x7F]/g, "")
+    .slice(0, maxLength);
+}
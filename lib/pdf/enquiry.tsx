@@ -0,0 +1,134 @@
+import "server-only";
+
+import { Document, renderToBuffer } from "@react-pdf/renderer";
+
+import PdfContactBlock from "@/components/pdf/PdfContactBlock";
+import PdfFooter from "@/components/pdf/PdfFooter";
+import PdfHeader from "@/components/pdf/PdfHeader";
+import PdfItemTable from "@/components/pdf/PdfItemTable";
+import PdfPage from "@/components/pdf/PdfPage";
+import type { Language } from "@/context/LanguageContext";
+import { resolveEnquiryPdfCopy } from "@/lib/pdf/copy";
+import { preparePdfDocument, sanitizePdfText } from "@/lib/pdf/document";
+import type { PdfSettings } from "@/lib/pdf/settings";
+import { formatQuantity, sumQuantities, type Quantity } from "@/lib/utils/quantity";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EnquiryPdfItem {
+  productTitle: string;
+  grade?: string | undefined;
+  packFormat?: string | undefined;
+  quantity?: Quantity | undefined;
+  MOQ?: Quantity | undefined;
+  notes?: string | undefined;
+}
+
+export interface EnquiryPdfOptions {
+  settings: PdfSettings;
+  language: Language;
+  referenceId: string;
+  userDetails?:
+    | {
+        name?: string | undefined;
+        company?: string | undefined;
+        email?: string | undefined;
+        phone?: string | undefined;
+      }
+    | undefined;
+}
+
+// =============================================================================
+// RENDERER
+// =============================================================================
+
+/**
+ * Renders the buyer's enquiry list with their contact details, in the
+ * language they browsed in.
+ */
+export async function renderEnquiryPdf(
+  items: EnquiryPdfItem[],
+  { settings, language, referenceId, userDetails }: EnquiryPdfOptions
+): Promise<Buffer> {
+  const { pdfTemplate, styling } = settings;
+
+  // Register fonts for every script on the page (labels and buyer content)
+  const { locale, theme } = await preparePdfDocument({
+    language,
+    texts: [
+      ...Object.values(resolveEnquiryPdfCopy(pdfTemplate.labels, language)),
+      pdfTemplate.companyName,
+      ...items.flatMap((item) => [item.productTitle, item.grade, item.packFormat, item.notes]),
+      ...Object.values(userDetails ?? {}),
+    ].filter((text): text is string => Boolean(text)),
+    settings,
+  });
+  const copy = resolveEnquiryPdfCopy(pdfTemplate.labels, locale);
+  const widths = styling.columnWidths;
+
+  // Total volume across all lines, converted to metric tonnes
+  const totalVolume = sumQuantities(
+    items.map((item) => item.quantity),
+    "mt"
+  );
+
+  return renderToBuffer(
+    <Document
+      title={`${copy.title} ${referenceId}`}
+      author={pdfTemplate.companyName}
+      language={locale}
+    >
+      <PdfPage theme={theme}>
+        <PdfHeader theme={theme} companyName={pdfTemplate.companyName} title={copy.title} />
+        <PdfContactBlock
+          theme={theme}
+          fields={[
+            { label: copy.dateLabel, value: new Date().toLocaleDateString(locale) },
+            { label: copy.referenceLabel, value: referenceId },
+          ]}
+        />
+        {userDetails ? (
+          <PdfContactBlock
+            theme={theme}
+            title={copy.contactDetailsLabel}
+            fields={[
+              { label: copy.nameLabel, value: sanitizePdfText(userDetails.name) },
+              { label: copy.companyLabel, value: sanitizePdfText(userDetails.company) },
+              { label: copy.emailLabel, value: sanitizePdfText(userDetails.email) },
+              { label: copy.phoneLabel, value: sanitizePdfText(userDetails.phone) },
+            ]}
+          />
+        ) : null}
+        <PdfItemTable
+          theme={theme}
+          columns={[
+            { header: pdfTemplate.indexLabel, width: widths.index },
+            { header: copy.productHeader, width: widths.product },
+            { header: copy.gradeHeader, width: widths.grade },
+            { header: copy.packFormatHeader, width: widths.packFormat },
+            { header: copy.quantityHeader, width: widths.quantity },
+            { header: copy.moqHeader, width: widths.moq },
+            { header: copy.notesHeader, width: widths.notes },
+          ]}
+          rows={items.map((item, index) => [
+            (index + 1).toLocaleString(locale),
+            sanitizePdfText(item.productTitle) || copy.naText,
+            sanitizePdfText(item.grade) || pdfTemplate.emptyFieldText,
+            sanitizePdfText(item.packFormat) || pdfTemplate.emptyFieldText,
+            formatQuantity(item.quantity, { locale }) || pdfTemplate.emptyFieldText,
+            formatQuantity(item.MOQ, { locale }) || pdfTemplate.emptyFieldText,
+            sanitizePdfText(item.notes) || pdfTemplate.emptyFieldText,
+          ])}
+          summary={
+            totalVolume
+              ? { label: copy.totalVolumeLabel, value: formatQuantity(totalVolume, { locale }) }
+              : undefined
+          }
+        />
+        <PdfFooter theme={theme} locale={locale} lines={[copy.footerText1, copy.footerText2]} />
+      </PdfPage>
+    </Document>
+  );
+}
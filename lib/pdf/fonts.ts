@@ -0,0 +1,166 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { Font } from "@react-pdf/renderer";
+
+import type { Language } from "@/context/LanguageContext";
+import { env } from "@/lib/env";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PdfScript = "latin" | "arabic" | "devanagari";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Noto families per script, shipped in assets/fonts and read once per server
+ * instance. Setting PDF_FONT_BASE_URL loads them from a self-hosted copy with
+ * the same directory layout instead.
+ */
+const FONT_FILES: Record<PdfScript, { family: string; regular: string; bold: string }> = {
+  latin: {
+    family: "NotoSans",
+    regular: "NotoSans/NotoSans-Regular.ttf",
+    bold: "NotoSans/NotoSans-Bold.ttf",
+  },
+  arabic: {
+    family: "NotoSansArabic",
+    regular: "NotoSansArabic/NotoSansArabic-Regular.ttf",
+    bold: "NotoSansArabic/NotoSansArabic-Bold.ttf",
+  },
+  devanagari: {
+    family: "NotoSansDevanagari",
+    regular: "NotoSansDevanagari/NotoSansDevanagari-Regular.ttf",
+    bold: "NotoSansDevanagari/NotoSansDevanagari-Bold.ttf",
+  },
+};
+
+const FONT_DIRECTORY = path.join(process.cwd(), "assets", "fonts");
+
+const FONT_FETCH_TIMEOUT_MS = 10_000;
+
+// Fallback order when a character is missing from the first family
+const SCRIPT_ORDER: PdfScript[] = ["latin", "arabic", "devanagari"];
+
+// Built-in PDF fonts, keyed by the lower-case names the CMS has always used
+const STANDARD_FONTS: Record<string, string> = {
+  helvetica: "Helvetica",
+  times: "Times-Roman",
+  courier: "Courier",
+};
+
+const ARABIC_PATTERN = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const DEVANAGARI_PATTERN = /[\u0900-\u097F\uA8E0-\uA8FF]/;
+
+// Data URLs of the font files, shared by every PDF rendered on this instance
+const fontCache = new Map<string, Promise<string>>();
+
+// Families already handed to react-pdf's global font store
+const registeredFamilies = new Set<string>();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Detects which script a string needs a font for
+ */
+export function detectScript(text: string): PdfScript {
+  if (ARABIC_PATTERN.test(text)) return "arabic";
+  if (DEVANAGARI_PATTERN.test(text)) return "devanagari";
+  return "latin";
+}
+
+/**
+ * Script a language's labels are written in
+ */
+export function getLanguageScript(language: Language): PdfScript {
+  if (language === "ar") return "arabic";
+  if (language === "hi") return "devanagari";
+  return "latin";
+}
+
+async function fetchFontFile(baseUrl: string, file: string): Promise<Buffer> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/${file}`, {
+    cache: "force-cache",
+    signal: AbortSignal.timeout(FONT_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`Font request failed (${response.status}): ${file}`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+function loadFontFile(file: string): Promise<string> {
+  const cached = fontCache.get(file);
+  if (cached) return cached;
+
+  const data = env.PDF_FONT_BASE_URL
+    ? fetchFontFile(env.PDF_FONT_BASE_URL, file)
+    : readFile(path.join(FONT_DIRECTORY, file));
+  const promise = data.then((buffer) => `data:font/ttf;base64,${buffer.toString("base64")}`);
+
+  // Let the next render retry instead of caching the failure
+  promise.catch(() => fontCache.delete(file));
+  fontCache.set(file, promise);
+  return promise;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Registers the Unicode fonts needed for the given texts (Latin is always
+ * included) and returns the scripts that could be loaded.
+ */
+export async function registerPdfFonts(texts: string[]): Promise<Set<PdfScript>> {
+  const needed = new Set<PdfScript>(["latin", ...texts.map(detectScript)]);
+  const scripts = new Set<PdfScript>();
+
+  await Promise.all(
+    [...needed].map(async (script) => {
+      const { family, regular, bold } = FONT_FILES[script];
+      try {
+        const [regularSrc, boldSrc] = await Promise.all([
+          loadFontFile(regular),
+          loadFontFile(bold),
+        ]);
+        if (!registeredFamilies.has(family)) {
+          Font.register({
+            family,
+            fonts: [
+              { src: regularSrc, fontWeight: "normal" },
+              { src: boldSrc, fontWeight: "bold" },
+            ],
+          });
+          registeredFamilies.add(family);
+        }
+        scripts.add(script);
+      } catch (error: unknown) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(`[PDF Fonts] Failed to load ${family}:`, error);
+        }
+      }
+    })
+  );
+
+  return scripts;
+}
+
+/**
+ * Font families to list in a `fontFamily` style. react-pdf picks the first
+ * family that has a glyph for each character, so mixed-script text renders
+ * without per-string font switching. Without an embedded Latin font the
+ * built-in fallback family is used instead.
+ */
+export function getFontStack(scripts: ReadonlySet<PdfScript>, fallbackFamily: string): string[] {
+  const fallback = STANDARD_FONTS[fallbackFamily.toLowerCase()] ?? "Helvetica";
+  const families = SCRIPT_ORDER.filter((script) => scripts.has(script)).map(
+    (script) => FONT_FILES[script].family
+  );
+
+  return scripts.has("latin") ? families : [fallback, ...families];
+}
@@ -0,0 +1,97 @@
+import "server-only";
+
+import type { SanityImageSource } from "@sanity/image-url";
+
+import { urlFor } from "@/lib/sanity/client";
+import { extractGoogleDriveId } from "@/lib/utils";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Image data in a form react-pdf can embed without fetching it again */
+export interface PdfImage {
+  data: Buffer;
+  format: "jpg" | "png";
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const IMAGE_FETCH_TIMEOUT_MS = 10_000;
+
+// Wide enough for a full-width A4 image at print quality
+const IMAGE_WIDTH = 1200;
+
+// react-pdf only embeds JPEG and PNG, recognised by their leading bytes
+const IMAGE_SIGNATURES: Array<[number[], PdfImage["format"]]> = [
+  [[0xff, 0xd8, 0xff], "jpg"],
+  [[0x89, 0x50, 0x4e, 0x47], "png"],
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Format of an image file. Content types are not trusted because Drive and
+ * static files are not always served with the right one.
+ */
+function detectImageFormat(data: Buffer): PdfImage["format"] | null {
+  const match = IMAGE_SIGNATURES.find(([signature]) =>
+    signature.every((byte, index) => data[index] === byte)
+  );
+  return match?.[1] ?? null;
+}
+
+/**
+ * URL of a Sanity image or Google Drive file, converted to JPEG where the
+ * host can do it (Sanity serves WebP to most clients otherwise)
+ */
+function getImageSourceUrl(
+  image: SanityImageSource | null | undefined,
+  imageUrl: string | null | undefined
+): string | null {
+  if (image) return urlFor(image).width(IMAGE_WIDTH).format("jpg").url();
+
+  const driveId = imageUrl ? extractGoogleDriveId(imageUrl) : null;
+  if (driveId) return `https://lh3.googleusercontent.com/d/${driveId}=w${IMAGE_WIDTH}`;
+
+  return imageUrl || null;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Downloads a product image for embedding in a PDF. A missing or unsupported
+ * image returns null so the document is still rendered without it.
+ */
+export async function loadPdfImage(
+  image: SanityImageSource | null | undefined,
+  imageUrl?: string | null | undefined
+): Promise<PdfImage | null> {
+  const url = getImageSourceUrl(image, imageUrl);
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url, {
+      cache: "force-cache",
+      signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Image request failed (${response.status}): ${url}`);
+
+    const data = Buffer.from(await response.arrayBuffer());
+    const format = detectImageFormat(data);
+    if (!format) throw new Error(`Unsupported image format: ${url}`);
+
+    return { data, format };
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("[PDF Images] Failed to load image:", error);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,145 @@
+import { z } from "zod";
+
+import type { PdfField } from "@/components/pdf/PdfContactBlock";
+import type { Language } from "@/context/LanguageContext";
+import { getLocalized } from "@/lib/i18n";
+import type { SpecSheetPdfCopy } from "@/lib/pdf/copy";
+import { formatCategory } from "@/lib/utils";
+import { formatQuantity, toQuantity } from "@/lib/utils/quantity";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const localeValueSchema = z.union([z.string(), z.record(z.string(), z.string().optional())]);
+
+const standardDimensionsSchema = z.object({
+  cartonSize: z.string().nullish(),
+  cartonType: z.string().nullish(),
+  bagSize: z.string().nullish(),
+  bagType: z.string().nullish(),
+  shelfLife: z.string().nullish(),
+  storage: z.string().nullish(),
+});
+
+/**
+ * The product fields a spec sheet or catalogue page is built from, as
+ * returned by productBySlugQuery and productsQuery
+ */
+export const pdfProductSchema = z.object({
+  _id: z.string(),
+  slug: z.object({ current: z.string() }),
+  title: localeValueSchema.nullish(),
+  category: z.string().nullish(),
+  description: localeValueSchema.nullish(),
+  MOQ: z.unknown().optional(),
+  specSheetPDF: z.string().nullish(),
+  heroImage: z.record(z.string(), z.unknown()).nullish(),
+  heroImageUrl: z.string().nullish(),
+  specifications: z
+    .object({
+      origin: z.string().nullish(),
+      variety: z.string().nullish(),
+      packaging: z.string().nullish(),
+      shelfLife: z.string().nullish(),
+      storage: z.string().nullish(),
+      qualitySealed: z.string().nullish(),
+      logistics: z.string().nullish(),
+      standardDimensions: standardDimensionsSchema.nullish(),
+    })
+    .nullish(),
+  applications: z.array(z.string()).nullish(),
+  almondVarieties: z.array(z.object({ name: z.string() })).nullish(),
+  productGrading: z
+    .array(z.object({ grade: z.string(), description: z.string().nullish() }))
+    .nullish(),
+});
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PdfProduct = z.infer<typeof pdfProductSchema>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Collapses CMS line breaks, which would otherwise break the PDF layout
+ */
+function toParagraph(text: string | null | undefined): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Localized title and description of a product
+ */
+export function getProductSummary(product: PdfProduct, language: Language) {
+  return {
+    title: getLocalized(product.title, language) || product.slug.current,
+    description: toParagraph(getLocalized(product.description, language)),
+  };
+}
+
+/**
+ * Labelled specification rows; empty specifications are skipped by PdfContactBlock
+ */
+export function getProductSpecFields(
+  product: PdfProduct,
+  copy: SpecSheetPdfCopy,
+  locale: Language
+): { specifications: PdfField[]; standardPackaging: PdfField[] } {
+  const specs = product.specifications;
+  const dimensions = specs?.standardDimensions;
+
+  return {
+    specifications: [
+      { label: copy.categoryLabel, value: formatCategory(product.category) },
+      { label: copy.originLabel, value: toParagraph(specs?.origin) },
+      { label: copy.varietyLabel, value: toParagraph(specs?.variety) },
+      { label: copy.packagingLabel, value: toParagraph(specs?.packaging) },
+      {
+        label: copy.shelfLifeLabel,
+        value: toParagraph(specs?.shelfLife ?? dimensions?.shelfLife),
+      },
+      { label: copy.storageLabel, value: toParagraph(specs?.storage ?? dimensions?.storage) },
+      { label: copy.qualityLabel, value: toParagraph(specs?.qualitySealed) },
+      { label: copy.logisticsLabel, value: toParagraph(specs?.logistics) },
+      { label: copy.moqLabel, value: formatQuantity(toQuantity(product.MOQ), { locale }) },
+    ],
+    standardPackaging: [
+      {
+        label: copy.cartonLabel,
+        value: [dimensions?.cartonSize, dimensions?.cartonType].filter(Boolean).join(", "),
+      },
+      {
+        label: copy.bagLabel,
+        value: [dimensions?.bagSize, dimensions?.bagType].filter(Boolean).join(", "),
+      },
+    ],
+  };
+}
+
+/**
+ * Every product string a PDF may draw, so the fonts for its scripts get registered
+ */
+export function getProductTexts(product: PdfProduct, language: Language): string[] {
+  const { title, description } = getProductSummary(product, language);
+
+  return [
+    title,
+    description,
+    ...Object.values(product.specifications ?? {}).filter(
+      (value): value is string => typeof value === "string"
+    ),
+    ...Object.values(product.specifications?.standardDimensions ?? {}),
+    ...(product.applications ?? []),
+    ...(product.almondVarieties ?? []).map((variety) => variety.name),
+    ...(product.productGrading ?? []).flatMap((grade) => [grade.grade, grade.description]),
+  ].filter((text): text is string => Boolean(text));
+}
@@ -0,0 +1,155 @@
+import "server-only";
+
+import { Document, renderToBuffer, Text, View } from "@react-pdf/renderer";
+
+import PdfContactBlock from "@/components/pdf/PdfContactBlock";
+import PdfFooter from "@/components/pdf/PdfFooter";
+import PdfHeader from "@/components/pdf/PdfHeader";
+import PdfItemTable from "@/components/pdf/PdfItemTable";
+import PdfPage from "@/components/pdf/PdfPage";
+import type { Language } from "@/context/LanguageContext";
+import {
+  formatMoney,
+  formatQuotationNumber,
+  getQuotationLines,
+  type QuotationWithDetails,
+} from "@/lib/admin/quotations";
+import { resolveEnquiryPdfCopy, resolveQuotationPdfCopy } from "@/lib/pdf/copy";
+import { preparePdfDocument, sanitizePdfText } from "@/lib/pdf/document";
+import type { PdfSettings } from "@/lib/pdf/settings";
+import { DEFAULT_UNIT_LABELS, formatQuantity } from "@/lib/utils/quantity";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface QuotationPdfOptions {
+  settings: PdfSettings;
+  language: Language;
+  /** Customer-facing enquiry reference, e.g. "ENQ-<id>" */
+  enquiryReference: string;
+}
+
+// =============================================================================
+// RENDERER
+// =============================================================================
+
+/**
+ * Renders a proforma quotation with the same branding and components as the
+ * enquiry PDF, in the language the buyer enquired in.
+ */
+export async function renderQuotationPdf(
+  quotation: QuotationWithDetails,
+  { settings, language, enquiryReference }: QuotationPdfOptions
+): Promise<{ buffer: Buffer; filename: string }> {
+  const { pdfTemplate, styling } = settings;
+  const { enquiry } = quotation;
+  const { lines, total } = getQuotationLines(quotation.items);
+  const quoteNumber = formatQuotationNumber(quotation);
+
+  const { locale, theme } = await preparePdfDocument({
+    language,
+    texts: [
+      ...Object.values(resolveQuotationPdfCopy(pdfTemplate.quotationLabels, language)),
+      ...Object.values(resolveEnquiryPdfCopy(pdfTemplate.labels, language)),
+      pdfTemplate.companyName,
+      enquiry.name,
+      enquiry.company,
+      quotation.paymentTerms,
+      quotation.incotermPlace,
+      quotation.notes,
+      ...lines.flatMap((line) => [line.productTitle, line.grade, line.packFormat]),
+    ].filter((text): text is string => Boolean(text)),
+    settings,
+  });
+  const copy = resolveQuotationPdfCopy(pdfTemplate.quotationLabels, locale);
+  const headers = resolveEnquiryPdfCopy(pdfTemplate.labels, locale);
+  const widths = styling.columnWidths;
+
+  const money = (amount: number) => formatMoney(amount, quotation.currency, locale);
+  const dateText = (date: Date) => date.toLocaleDateString(locale, { timeZone: "UTC" });
+
+  // Terms and remarks run longer than other fields; cap them at the admin form limits
+  const paragraphs = [
+    { label: copy.paymentTermsLabel, text: quotation.paymentTerms, maxLength: 2000 },
+    { label: copy.remarksLabel, text: quotation.notes, maxLength: 4000 },
+  ].filter((paragraph): paragraph is { label: string; text: string; maxLength: number } =>
+    Boolean(paragraph.text)
+  );
+
+  const buffer = await renderToBuffer(
+    <Document
+      title={`${copy.title} ${quoteNumber}`}
+      author={pdfTemplate.companyName}
+      language={locale}
+    >
+      <PdfPage theme={theme}>
+        <PdfHeader theme={theme} companyName={pdfTemplate.companyName} title={copy.title} />
+        <PdfContactBlock
+          theme={theme}
+          fields={[
+            { label: copy.quoteNumberLabel, value: quoteNumber },
+            {
+              label: headers.dateLabel,
+              value: dateText(quotation.issuedAt ?? quotation.createdAt),
+            },
+            { label: copy.enquiryReferenceLabel, value: enquiryReference },
+            { label: copy.validUntilLabel, value: dateText(quotation.validUntil) },
+            {
+              label: copy.incotermLabel,
+              value: [quotation.incoterm, sanitizePdfText(quotation.incotermPlace)]
+                .filter(Boolean)
+                .join(" "),
+            },
+          ]}
+        />
+        <PdfContactBlock
+          theme={theme}
+          title={copy.preparedForLabel}
+          fields={[
+            { value: sanitizePdfText(enquiry.name) },
+            { value: sanitizePdfText(enquiry.company) },
+            { value: sanitizePdfText(enquiry.email) },
+            { value: sanitizePdfText(enquiry.country) },
+          ]}
+        />
+        <PdfItemTable
+          theme={theme}
+          columns={[
+            { header: pdfTemplate.indexLabel, width: widths.index },
+            { header: headers.productHeader, width: widths.product },
+            { header: headers.gradeHeader, width: widths.grade },
+            { header: headers.packFormatHeader, width: widths.packFormat },
+            { header: headers.quantityHeader, width: widths.quantity },
+            // Prices take the place of the enquiry's MOQ and notes columns
+            { header: copy.unitPriceHeader, width: widths.moq, align: "end" },
+            { header: copy.amountHeader, width: widths.notes, align: "end" },
+          ]}
+          rows={lines.map((line, index) => [
+            (index + 1).toLocaleString(locale),
+            sanitizePdfText(line.productTitle),
+            sanitizePdfText(line.grade) || pdfTemplate.emptyFieldText,
+            sanitizePdfText(line.packFormat) || pdfTemplate.emptyFieldText,
+            formatQuantity(line.quantity, { locale }),
+            line.unitPrice === null
+              ? copy.priceOnRequestText
+              : `${money(line.unitPrice)} / ${DEFAULT_UNIT_LABELS[line.priceUnit]}`,
+            line.amount === null ? pdfTemplate.emptyFieldText : money(line.amount),
+          ])}
+          summary={total === null ? undefined : { label: copy.totalLabel, value: money(total) }}
+        />
+        {paragraphs.map(({ label, text, maxLength }) => (
+          <View key={label} style={{ marginBottom: "4mm" }}>
+            <Text style={theme.emphasis}>{label}</Text>
+            <Text style={{ marginTop: "1mm", color: theme.colors.darkGray }}>
+              {sanitizePdfText(text, maxLength)}
+            </Text>
+          </View>
+        ))}
+        <PdfFooter theme={theme} locale={locale} lines={[copy.footerText]} />
+      </PdfPage>
+    </Document>
+  );
+
+  return { buffer, filename: `${quoteNumber}.pdf` };
+}
@@ -0,0 +1,293 @@
+import "server-only";
+
+import { z } from "zod";
+
+import type {
+  CataloguePdfOverrides,
+  EnquiryPdfOverrides,
+  QuotationPdfOverrides,
+  SpecSheetPdfOverrides,
+} from "@/lib/pdf/copy";
+import { localeStringSchema } from "@/lib/i18n";
+import { client } from "@/lib/sanity/client";
+import { siteSettingsQuery } from "@/lib/sanity/queries";
+
+// =============================================================================
+// ZOD VALIDATION SCHEMAS
+// =============================================================================
+
+const colorsSchema = z.object({
+  deepBrown: z.string().optional(),
+  gray: z.string().optional(),
+  black: z.string().optional(),
+  darkGray: z.string().optional(),
+  gold: z.string().optional(),
+  white: z.string().optional(),
+  lightGray: z.string().optional(),
+});
+
+const stylingSchema = z.object({
+  headerFontSize: z.number().optional(),
+  subtitleFontSize: z.number().optional(),
+  bodyFontSize: z.number().optional(),
+  footerFontSize: z.number().optional(),
+  tableFontSize: z.number().optional(),
+  tableCellPadding: z.number().optional(),
+  fontFamily: z.string().optional(),
+  fontStyleNormal: z.string().optional(),
+  fontStyleBold: z.string().optional(),
+  tableTheme: z.string().optional(),
+  columnWidths: z
+    .object({
+      index: z.number().optional(),
+      product: z.number().optional(),
+      grade: z.number().optional(),
+      packFormat: z.number().optional(),
+      quantity: z.number().optional(),
+      moq: z.number().optional(),
+      notes: z.number().optional(),
+    })
+    .optional(),
+  colors: colorsSchema.optional(),
+});
+
+const tableHeadersSchema = z.object({
+  product: localeStringSchema.optional(),
+  grade: localeStringSchema.optional(),
+  packFormat: localeStringSchema.optional(),
+  quantity: localeStringSchema.optional(),
+  moq: localeStringSchema.optional(),
+  notes: localeStringSchema.optional(),
+});
+
+const quotationLabelsSchema = z.object({
+  title: localeStringSchema.optional(),
+  quoteNumberLabel: localeStringSchema.optional(),
+  enquiryReferenceLabel: localeStringSchema.optional(),
+  preparedForLabel: localeStringSchema.optional(),
+  validUntilLabel: localeStringSchema.optional(),
+  incotermLabel: localeStringSchema.optional(),
+  paymentTermsLabel: localeStringSchema.optional(),
+  unitPriceHeader: localeStringSchema.optional(),
+  amountHeader: localeStringSchema.optional(),
+  totalLabel: localeStringSchema.optional(),
+  remarksLabel: localeStringSchema.optional(),
+  priceOnRequestText: localeStringSchema.optional(),
+  footerText: localeStringSchema.optional(),
+});
+
+const specSheetLabelsSchema = z.object({
+  title: localeStringSchema.optional(),
+  categoryLabel: localeStringSchema.optional(),
+  specificationsLabel: localeStringSchema.optional(),
+  originLabel: localeStringSchema.optional(),
+  varietyLabel: localeStringSchema.optional(),
+  packagingLabel: localeStringSchema.optional(),
+  shelfLifeLabel: localeStringSchema.optional(),
+  storageLabel: localeStringSchema.optional(),
+  qualityLabel: localeStringSchema.optional(),
+  logisticsLabel: localeStringSchema.optional(),
+  moqLabel: localeStringSchema.optional(),
+  standardPackagingLabel: localeStringSchema.optional(),
+  cartonLabel: localeStringSchema.optional(),
+  bagLabel: localeStringSchema.optional(),
+  gradesLabel: localeStringSchema.optional(),
+  gradeHeader: localeStringSchema.optional(),
+  descriptionHeader: localeStringSchema.optional(),
+  varietiesLabel: localeStringSchema.optional(),
+  applicationsLabel: localeStringSchema.optional(),
+  footerText: localeStringSchema.optional(),
+});
+
+const catalogueLabelsSchema = z.object({
+  title: localeStringSchema.optional(),
+  subtitle: localeStringSchema.optional(),
+  editionLabel: localeStringSchema.optional(),
+  contentsLabel: localeStringSchema.optional(),
+  tagline: localeStringSchema.optional(),
+  thankYouText: localeStringSchema.optional(),
+  valuesText: localeStringSchema.optional(),
+  websiteText: localeStringSchema.optional(),
+});
+
+const pdfTemplateSchema = z.object({
+  companyName: z.string().optional(),
+  title: localeStringSchema.optional(),
+  dateLabel: localeStringSchema.optional(),
+  referenceLabel: localeStringSchema.optional(),
+  referencePrefix: z.string().optional(),
+  contactDetailsLabel: localeStringSchema.optional(),
+  nameLabel: localeStringSchema.optional(),
+  companyLabel: localeStringSchema.optional(),
+  emailLabel: localeStringSchema.optional(),
+  phoneLabel: localeStringSchema.optional(),
+  naText: localeStringSchema.optional(),
+  emptyFieldText: z.string().optional(),
+  indexLabel: z.string().optional(),
+  totalVolumeLabel: localeStringSchema.optional(),
+  footerText1: localeStringSchema.optional(),
+  footerText2: localeStringSchema.optional(),
+  filenamePrefix: z.string().optional(),
+  tableHeaders: tableHeadersSchema.optional(),
+  quotation: quotationLabelsSchema.optional(),
+  specSheet: specSheetLabelsSchema.optional(),
+  catalogue: catalogueLabelsSchema.optional(),
+  styling: stylingSchema.optional(),
+});
+
+const siteSettingsSchema = z
+  .object({
+    pdfTemplate: pdfTemplateSchema.optional(),
+  })
+  .passthrough();
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PdfSettings = Awaited<ReturnType<typeof getPdfSettings>>;
+
+// =============================================================================
+// DEFAULT FALLBACK VALUES
+// =============================================================================
+
+// Translated labels (title, table headers, ...) live in lib/pdf/copy.ts
+const DEFAULTS = {
+  companyName: "Divyansh International",
+  referencePrefix: "ENQ-",
+  emptyFieldText: "-",
+  indexLabel: "#",
+  filenamePrefix: "enquiry-",
+  styling: {
+    headerFontSize: 18,
+    subtitleFontSize: 12,
+    bodyFontSize: 10,
+    footerFontSize: 8,
+    tableFontSize: 9,
+    tableCellPadding: 3,
+    fontFamily: "helvetica",
+    fontStyleNormal: "normal",
+    fontStyleBold: "bold",
+    tableTheme: "striped",
+    columnWidths: {
+      index: 10,
+      product: 40,
+      grade: 25,
+      packFormat: 25,
+      quantity: 25,
+      moq: 20,
+      notes: 35,
+    },
+    colors: {
+      deepBrown: "91, 73, 51",
+      gray: "128, 128, 128",
+      black: "0, 0, 0",
+      darkGray: "80, 80, 80",
+      gold: "201, 164, 97",
+      white: "255, 255, 255",
+      lightGray: "180, 180, 180",
+    },
+  },
+} as const;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Parses RGB color string to tuple
+ */
+export function parseColor(colorStr: string): [number, number, number] {
+  const parts = colorStr.split(",").map((n) => parseInt(n.trim(), 10));
+  return [parts[0] ?? 0, parts[1] ?? 0, parts[2] ?? 0];
+}
+
+// =============================================================================
+// GET CONFIGURATION
+// =============================================================================
+
+/**
+ * Branding, styling and labels from the CMS `pdfTemplate`, shared by every
+ * generated PDF (enquiry lists, quotations, spec sheets and the catalogue).
+ */
+export async function getPdfSettings() {
+  let pdfTemplate: z.infer<typeof pdfTemplateSchema> | undefined;
+
+  try {
+    const result = siteSettingsSchema.safeParse(await client.fetch(siteSettingsQuery));
+    if (!result.success && process.env.NODE_ENV === "development") {
+      console.warn("[PDF] Settings validation failed:", result.error.issues);
+    }
+    pdfTemplate = result.success ? result.data.pdfTemplate : undefined;
+  } catch (error: unknown) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[PDF] Failed to fetch settings:", error);
+    }
+  }
+
+  const styling = pdfTemplate?.styling;
+  const colors = styling?.colors;
+
+  return {
+    pdfTemplate: {
+      companyName: pdfTemplate?.companyName ?? DEFAULTS.companyName,
+      referencePrefix: pdfTemplate?.referencePrefix ?? DEFAULTS.referencePrefix,
+      emptyFieldText: pdfTemplate?.emptyFieldText ?? DEFAULTS.emptyFieldText,
+      indexLabel: pdfTemplate?.indexLabel ?? DEFAULTS.indexLabel,
+      filenamePrefix: pdfTemplate?.filenamePrefix ?? DEFAULTS.filenamePrefix,
+      labels: {
+        title: pdfTemplate?.title,
+        dateLabel: pdfTemplate?.dateLabel,
+        referenceLabel: pdfTemplate?.referenceLabel,
+        contactDetailsLabel: pdfTemplate?.contactDetailsLabel,
+        nameLabel: pdfTemplate?.nameLabel,
+        companyLabel: pdfTemplate?.companyLabel,
+        emailLabel: pdfTemplate?.emailLabel,
+        phoneLabel: pdfTemplate?.phoneLabel,
+        naText: pdfTemplate?.naText,
+        totalVolumeLabel: pdfTemplate?.totalVolumeLabel,
+        footerText1: pdfTemplate?.footerText1,
+        footerText2: pdfTemplate?.footerText2,
+        productHeader: pdfTemplate?.tableHeaders?.product,
+        gradeHeader: pdfTemplate?.tableHeaders?.grade,
+        packFormatHeader: pdfTemplate?.tableHeaders?.packFormat,
+        quantityHeader: pdfTemplate?.tableHeaders?.quantity,
+        moqHeader: pdfTemplate?.tableHeaders?.moq,
+        notesHeader: pdfTemplate?.tableHeaders?.notes,
+      } satisfies EnquiryPdfOverrides,
+      quotationLabels: (pdfTemplate?.quotation ?? {}) satisfies QuotationPdfOverrides,
+      specSheetLabels: (pdfTemplate?.specSheet ?? {}) satisfies SpecSheetPdfOverrides,
+      catalogueLabels: (pdfTemplate?.catalogue ?? {}) satisfies CataloguePdfOverrides,
+    },
+    styling: {
+      headerFontSize: styling?.headerFontSize ?? DEFAULTS.styling.headerFontSize,
+      subtitleFontSize: styling?.subtitleFontSize ?? DEFAULTS.styling.subtitleFontSize,
+      bodyFontSize: styling?.bodyFontSize ?? DEFAULTS.styling.bodyFontSize,
+      footerFontSize: styling?.footerFontSize ?? DEFAULTS.styling.footerFontSize,
+      tableFontSize: styling?.tableFontSize ?? DEFAULTS.styling.tableFontSize,
+      tableCellPadding: styling?.tableCellPadding ?? DEFAULTS.styling.tableCellPadding,
+      fontFamily: styling?.fontFamily ?? DEFAULTS.styling.fontFamily,
+      fontStyleNormal: styling?.fontStyleNormal ?? DEFAULTS.styling.fontStyleNormal,
+      fontStyleBold: styling?.fontStyleBold ?? DEFAULTS.styling.fontStyleBold,
+      tableTheme: styling?.tableTheme ?? DEFAULTS.styling.tableTheme,
+      columnWidths: {
+        index: styling?.columnWidths?.index ?? DEFAULTS.styling.columnWidths.index,
+        product: styling?.columnWidths?.product ?? DEFAULTS.styling.columnWidths.product,
+        grade: styling?.columnWidths?.grade ?? DEFAULTS.styling.columnWidths.grade,
+        packFormat: styling?.columnWidths?.packFormat ?? DEFAULTS.styling.columnWidths.packFormat,
+        quantity: styling?.columnWidths?.quantity ?? DEFAULTS.styling.columnWidths.quantity,
+        moq: styling?.columnWidths?.moq ?? DEFAULTS.styling.columnWidths.moq,
+        notes: styling?.columnWidths?.notes ?? DEFAULTS.styling.columnWidths.notes,
+      },
+    },
+    colors: {
+      deepBrown: colors?.deepBrown ?? DEFAULTS.styling.colors.deepBrown,
+      gray: colors?.gray ?? DEFAULTS.styling.colors.gray,
+      black: colors?.black ?? DEFAULTS.styling.colors.black,
+      darkGray: colors?.darkGray ?? DEFAULTS.styling.colors.darkGray,
+      gold: colors?.gold ?? DEFAULTS.styling.colors.gold,
+      white: colors?.white ?? DEFAULTS.styling.colors.white,
+      lightGray: colors?.lightGray ?? DEFAULTS.styling.colors.lightGray,
+    },
+  };
+}
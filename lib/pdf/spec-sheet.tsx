@@ -0,0 +1,75 @@
+import "server-only";
+
+import { Document, renderToBuffer } from "@react-pdf/renderer";
+
+import PdfFooter from "@/components/pdf/PdfFooter";
+import PdfHeader from "@/components/pdf/PdfHeader";
+import PdfPage from "@/components/pdf/PdfPage";
+import PdfProductSpec from "@/components/pdf/PdfProductSpec";
+import type { Language } from "@/context/LanguageContext";
+import { resolveSpecSheetPdfCopy } from "@/lib/pdf/copy";
+import { preparePdfDocument } from "@/lib/pdf/document";
+import { loadPdfImage } from "@/lib/pdf/images";
+import { getProductSummary, getProductTexts, type PdfProduct } from "@/lib/pdf/product";
+import type { PdfSettings } from "@/lib/pdf/settings";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SpecSheetPdfOptions {
+  settings: PdfSettings;
+  language: Language;
+}
+
+// =============================================================================
+// RENDERER
+// =============================================================================
+
+/**
+ * Renders a product's spec sheet from its CMS content, for products without
+ * an uploaded spec sheet PDF.
+ */
+export async function renderSpecSheetPdf(
+  product: PdfProduct,
+  { settings, language }: SpecSheetPdfOptions
+): Promise<{ buffer: Buffer; filename: string }> {
+  const { pdfTemplate } = settings;
+
+  const [{ locale, theme }, image] = await Promise.all([
+    preparePdfDocument({
+      language,
+      texts: [
+        ...Object.values(resolveSpecSheetPdfCopy(pdfTemplate.specSheetLabels, language)),
+        pdfTemplate.companyName,
+        ...getProductTexts(product, language),
+      ],
+      settings,
+    }),
+    loadPdfImage(product.heroImage, product.heroImageUrl),
+  ]);
+  const copy = resolveSpecSheetPdfCopy(pdfTemplate.specSheetLabels, locale);
+
+  const buffer = await renderToBuffer(
+    <Document
+      title={`${getProductSummary(product, locale).title} - ${copy.title}`}
+      author={pdfTemplate.companyName}
+      language={locale}
+    >
+      <PdfPage theme={theme}>
+        <PdfHeader theme={theme} companyName={pdfTemplate.companyName} title={copy.title} />
+        <PdfProductSpec
+          theme={theme}
+          product={product}
+          copy={copy}
+          locale={locale}
+          image={image}
+          emptyFieldText={pdfTemplate.emptyFieldText}
+        />
+        <PdfFooter theme={theme} locale={locale} lines={[copy.footerText]} />
+      </PdfPage>
+    </Document>
+  );
+
+  return { buffer, filename: `${product.slug.current}-spec-sheet.pdf` };
+}
@@ -0,0 +1,59 @@
+import "server-only";
+
+import { env } from "@/lib/env";
+import { createMemoryRateLimiter } from "@/lib/rate-limit/memory";
+import { createPostgresRateLimiter } from "@/lib/rate-limit/postgres";
+import type { RateLimiter, RateLimitOptions, RateLimitResult } from "@/lib/rate-limit/types";
+
+export type { RateLimiter, RateLimitOptions, RateLimitResult } from "@/lib/rate-limit/types";
+export { createMemoryRateLimiter } from "@/lib/rate-limit/memory";
+export { createPostgresRateLimiter } from "@/lib/rate-limit/postgres";
+
+// =============================================================================
+// SHARED INSTANCES
+// =============================================================================
+
+const fallback: RateLimiter = createMemoryRateLimiter();
+const primary: RateLimiter =
+  env.RATE_LIMIT_STORE === "memory" ? fallback : createPostgresRateLimiter();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Counts one request against `key` within the named scope.
+ * Uses the configured limiter (Postgres by default) and falls back to the
+ * in-memory limiter if the database is unreachable, so a database outage
+ * never blocks submissions.
+ *
+ * @param scope - Endpoint name, keeps limits for different routes independent
+ * @param key - Caller identity, usually the client IP
+ */
+export async function checkRateLimit(
+  scope: string,
+  key: string,
+  options: RateLimitOptions
+): Promise<RateLimitResult> {
+  const bucketKey = `${scope}:${key}`;
+
+  try {
+    return await primary.hit(bucketKey, options);
+  } catch (error: unknown) {
+    console.error(`[RateLimit] ${primary.name} limiter failed, using ${fallback.name}:`, error);
+    return fallback.hit(bucketKey, options);
+  }
+}
+
+/**
+ * Builds the standard headers for a rate-limited response.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const retryAfterSeconds = Math.max(0, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000));
+
+  return {
+    "Retry-After": String(retryAfterSeconds),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.resetAt.getTime() / 1000)),
+  };
+}
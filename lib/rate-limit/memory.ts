@@ -0,0 +1,50 @@
+import type { RateLimiter, RateLimitOptions, RateLimitResult } from "@/lib/rate-limit/types";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Expired buckets are swept once the map grows past this many keys
+const SWEEP_THRESHOLD = 1000;
+
+// =============================================================================
+// IN-MEMORY LIMITER
+// =============================================================================
+
+/**
+ * Creates a per-process limiter backed by a Map.
+ * Counts are lost on cold start and not shared between instances, so this is
+ * only suitable for development or as a fallback when the database is down.
+ */
+export function createMemoryRateLimiter(): RateLimiter {
+  const buckets = new Map<string, { count: number; resetAt: number }>();
+
+  const sweep = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.resetAt <= now) buckets.delete(key);
+    }
+  };
+
+  return {
+    name: "memory",
+    async hit(key: string, { maxRequests, windowMs }: RateLimitOptions): Promise<RateLimitResult> {
+      const now = Date.now();
+
+      if (buckets.size >= SWEEP_THRESHOLD) sweep(now);
+
+      let bucket = buckets.get(key);
+      if (!bucket || bucket.resetAt <= now) {
+        bucket = { count: 0, resetAt: now + windowMs };
+        buckets.set(key, bucket);
+      }
+
+      bucket.count++;
+
+      return {
+        allowed: bucket.count <= maxRequests,
+        remaining: Math.max(0, maxRequests - bucket.count),
+        resetAt: new Date(bucket.resetAt),
+      };
+    },
+  };
+}
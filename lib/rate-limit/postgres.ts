@@ -0,0 +1,61 @@
+import "server-only";
+
+import { prisma } from "@/lib/prisma";
+import type { RateLimiter, RateLimitOptions, RateLimitResult } from "@/lib/rate-limit/types";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Fraction of hits that also delete expired rows, keeping the table small
+const CLEANUP_PROBABILITY = 0.01;
+
+// =============================================================================
+// POSTGRES LIMITER
+// =============================================================================
+
+/**
+ * Creates a limiter that stores its counters in the `rate_limits` table.
+ * A single upsert increments the counter or starts a new window, so concurrent
+ * serverless instances share one consistent count per key.
+ */
+export function createPostgresRateLimiter(): RateLimiter {
+  return {
+    name: "postgres",
+    async hit(key: string, { maxRequests, windowMs }: RateLimitOptions): Promise<RateLimitResult> {
+      const resetAt = new Date(Date.now() + windowMs);
+
+      const rows = await prisma.$queryRaw<Array<{ count: number; reset_at: Date }>>`
+        INSERT INTO "rate_limits" ("key", "count", "reset_at")
+        VALUES (${key}, 1, ${resetAt})
+        ON CONFLICT ("key") DO UPDATE SET
+          "count" = CASE
+            WHEN "rate_limits"."reset_at" <= NOW() THEN 1
+            ELSE "rate_limits"."count" + 1
+          END,
+          "reset_at" = CASE
+            WHEN "rate_limits"."reset_at" <= NOW() THEN EXCLUDED."reset_at"
+            ELSE "rate_limits"."reset_at"
+          END
+        RETURNING "count", "reset_at"
+      `;
+
+      if (Math.random() < CLEANUP_PROBABILITY) {
+        prisma.rateLimitBucket
+          .deleteMany({ where: { resetAt: { lt: new Date() } } })
+          .catch((error: unknown) => {
+            console.error("[RateLimit] Cleanup failed:", error);
+          });
+      }
+
+      const row = rows[0];
+      const count = row?.count ?? 1;
+
+      return {
+        allowed: count <= maxRequests,
+        remaining: Math.max(0, maxRequests - count),
+        resetAt: row?.reset_at ?? resetAt,
+      };
+    },
+  };
+}
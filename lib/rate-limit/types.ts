@@ -0,0 +1,24 @@
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RateLimitOptions {
+  /** Maximum number of hits allowed within one window */
+  maxRequests: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetAt: Date;
+}
+
+/**
+ * A fixed-window rate limiter. Each call to `hit` counts one request for `key`.
+ */
+export interface RateLimiter {
+  readonly name: string;
+  hit(key: string, options: RateLimitOptions): Promise<RateLimitResult>;
+}
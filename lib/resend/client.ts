@@ -12,6 +12,7 @@ export const SendEmailSchema = z.object({
   to: z.union([z.string().email(), z.array(z.string().email())]),
   subject: z.string().min(1),
   html: z.string().min(1),
+  text: z.string().min(1).optional(),
   replyTo: z.string().email().optional(),
 });
 
@@ -19,7 +20,7 @@ export const SendEmailSchema = z.object({
 // TYPES
 // =============================================================================
 
-export type SendEmailOptions = z.infer<typeof SendEmailSchema>;
+export type SendEmailOptions = z.input<typeof SendEmailSchema>;
 
 // =============================================================================
 // CLIENT
@@ -33,7 +34,7 @@ export const resend = new Resend(env.RESEND_API_KEY);
 
 /**
  * Sends an email using Resend with Zod validation.
- * @param options Email options (from, to, subject, html, etc.)
+ * @param options Email options (from, to, subject, html, text, etc.)
  * @returns Promise with success status and data/error
  */
 export async function sendEmail(options: SendEmailOptions) {
@@ -45,15 +46,16 @@ export async function sendEmail(options: SendEmailOptions) {
     return { success: false, error: result.error };
   }
 
-  const { from, to, subject, html, replyTo } = result.data;
+  const { from, to, subject, html, text, replyTo } = result.data;
 
   try {
-    // 2. Build email payload - only include replyTo if it's defined
+    // 2. Build email payload - only include text/replyTo if they're defined
     const emailPayload = {
       from,
       to,
       subject,
       html,
+      ...(text !== undefined && { text }),
       ...(replyTo !== undefined && { replyTo }),
     };
 
@@ -16,6 +16,8 @@ export const siteSettingsQuery = groq`
     productCard,
     productModal,
     productDetail,
+    productFilters,
+    catalogueViewer,
     navigation,
     footer,
     enquiry {
@@ -277,7 +279,16 @@ export const productsQuery = groq`
     description,
     specifications,
     pricing,
-    applications
+    applications,
+    almondVarieties[] {
+      _key,
+      name
+    },
+    productGrading[] {
+      _key,
+      grade,
+      description
+    }
   }
 `;
 
@@ -289,6 +300,13 @@ export const productListQuery = groq`
   }
 `;
 
+export const productTitlesQuery = groq`
+  *[_type == "product"] | order(order asc) {
+    _id,
+    title
+  }
+`;
+
 export const productBySlugQuery = groq`
   *[_type == "product" && slug.current == $slug][0] {
     _id,
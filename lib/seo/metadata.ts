@@ -1,6 +1,8 @@
 import "server-only";
 import { z } from "zod";
 import type { Metadata } from "next";
+import type { Language } from "@/context/LanguageContext";
+import { DEFAULT_LANGUAGE, LANGUAGES, localizePath } from "@/lib/i18n";
 import { client } from "@/lib/sanity/client";
 import { siteSettingsQuery } from "@/lib/sanity/queries";
 
@@ -59,6 +61,40 @@ export async function getGlobalSeo(): Promise<SeoSettings> {
   }
 }
 
+// =============================================================================
+// LANGUAGE ALTERNATES
+// =============================================================================
+
+/**
+ * URL of a site path in every language, keyed by hreflang. The unprefixed
+ * path is x-default: it serves the visitor's cookie or browser language.
+ * Without a siteUrl the URLs are relative and resolve against metadataBase.
+ */
+export function getLanguageUrls(
+  path: string,
+  siteUrl = ""
+): Record<Language | "x-default", string> {
+  const urls = Object.fromEntries(
+    LANGUAGES.map((language) => [language, `${siteUrl}${localizePath(path, language)}`])
+  ) as Record<Language, string>;
+
+  return { ...urls, "x-default": `${siteUrl}${path}` };
+}
+
+/**
+ * Canonical URL and hreflang alternates for a page rendered in `language`
+ */
+export function getLocaleAlternates(
+  path: string,
+  language: Language,
+  siteUrl?: string | undefined
+): NonNullable<Metadata["alternates"]> {
+  return {
+    canonical: `${siteUrl ?? ""}${localizePath(path, language)}`,
+    languages: getLanguageUrls(path, siteUrl),
+  };
+}
+
 // =============================================================================
 // METADATA GENERATOR
 // =============================================================================
@@ -68,6 +104,7 @@ interface GenerateMetadataOptions {
   description?: string;
   image?: string;
   path?: string;
+  language?: Language;
   noIndex?: boolean;
 }
 
@@ -85,9 +122,8 @@ export function generateMetadata(
     : globalSeo.metaTitle;
 
   const description = options.description || globalSeo.metaDescription;
-  const url = options.path
-    ? `${globalSeo.siteUrl}${options.path.startsWith("/") ? "" : "/"}${options.path}`
-    : globalSeo.siteUrl;
+  const path = `${options.path?.startsWith("/") ? "" : "/"}${options.path ?? ""}`;
+  const url = `${globalSeo.siteUrl}${localizePath(path, options.language ?? DEFAULT_LANGUAGE)}`;
 
   const images = options.image ? [{ url: options.image }] : []; // Fallback to a default OG image if configured in Sanity, but generic for now
 
@@ -116,6 +152,7 @@ export function generateMetadata(
     },
     alternates: {
       canonical: url,
+      languages: getLanguageUrls(path, globalSeo.siteUrl),
     },
   };
 }
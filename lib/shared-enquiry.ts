@@ -0,0 +1,123 @@
+import "server-only";
+
+import { randomBytes } from "node:crypto";
+
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { prisma } from "@/lib/prisma";
+import {
+  createStorageEnvelope,
+  EnquiryItemSchema,
+  upgradeStoredItems,
+  type EnquiryItem,
+} from "@/lib/utils/enquiry";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Unambiguous characters only (no 0/O, 1/l/I) so codes survive being read aloud
+const CODE_ALPHABET = "23456789abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ";
+const CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 3;
+
+export const SHARED_ENQUIRY_TTL_DAYS = 90;
+export const SHARED_ENQUIRY_MAX_ITEMS = 100;
+
+// =============================================================================
+// ZOD SCHEMAS
+// =============================================================================
+
+export const SharedEnquiryCodeSchema = z
+  .string()
+  .length(CODE_LENGTH)
+  .regex(new RegExp(`^[${CODE_ALPHABET}]+$`));
+
+// Local item ids are dropped: they are regenerated when the list is restored
+export const SharedEnquiryItemSchema = EnquiryItemSchema.omit({ id: true });
+
+export const SharedEnquiryItemsSchema = z
+  .array(SharedEnquiryItemSchema)
+  .min(1)
+  .max(SHARED_ENQUIRY_MAX_ITEMS);
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SharedEnquiryItem = z.infer<typeof SharedEnquiryItemSchema>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function generateCode(): string {
+  const bytes = randomBytes(CODE_LENGTH);
+  let code = "";
+  for (const byte of bytes) {
+    code += CODE_ALPHABET[byte % CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Stores a snapshot of an enquiry list and returns its short code.
+ * The snapshot is immutable; sharing again creates a new code. It is stored
+ * in the cart's versioned envelope so later item changes can upgrade it.
+ */
+export async function createSharedEnquiry(
+  items: Array<SharedEnquiryItem | EnquiryItem>,
+  ipAddress: string | null
+): Promise<string> {
+  const snapshot = SharedEnquiryItemsSchema.parse(items);
+  const expiresAt = new Date(Date.now() + SHARED_ENQUIRY_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const { code } = await prisma.sharedEnquiry.create({
+        data: {
+          code: generateCode(),
+          items: createStorageEnvelope(snapshot),
+          expiresAt,
+          ipAddress,
+        },
+        select: { code: true },
+      });
+      return code;
+    } catch (error: unknown) {
+      const isCollision =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      if (!isCollision || attempt >= MAX_CODE_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Loads a shared enquiry list, or null if the code is unknown or expired.
+ */
+export async function getSharedEnquiry(code: string): Promise<SharedEnquiryItem[] | null> {
+  if (!SharedEnquiryCodeSchema.safeParse(code).success) return null;
+
+  const shared = await prisma.sharedEnquiry.findUnique({ where: { code } });
+  if (!shared || shared.expiresAt < new Date()) return null;
+
+  // Snapshots from before envelopes are bare arrays with free-text quantities
+  const result = SharedEnquiryItemsSchema.safeParse(upgradeStoredItems(shared.items));
+  return result.success ? result.data : null;
+}
+
+/**
+ * Deletes shared lists past their expiry date.
+ * @returns Number of rows removed
+ */
+export async function pruneExpiredSharedEnquiries(): Promise<number> {
+  const { count } = await prisma.sharedEnquiry.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return count;
+}
@@ -94,6 +94,16 @@ export const formatCurrency = (
   }
 };
 
+/**
+ * Formats a product category value for display, e.g. "dried-fig" becomes "Dried Fig".
+ */
+export function formatCategory(category: string | null | undefined): string {
+  return (category ?? "")
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
 /**
  * Delays execution for a specified number of milliseconds.
  * Useful for simulating network latency or debouncing.
@@ -0,0 +1,182 @@
+import { env } from "@/lib/env";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface TrustedProxyConfig {
+  /** Number of proxies in front of the app that append to X-Forwarded-For */
+  proxyCount: number;
+  /** CIDR ranges of trusted proxies; takes precedence over proxyCount */
+  cidrs: string[];
+}
+
+// =============================================================================
+// IP PARSING
+// =============================================================================
+
+function parseIpv4(input: string): bigint | null {
+  const parts = input.split(".");
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = (value << 8n) | BigInt(octet);
+  }
+  return value;
+}
+
+function parseIpv6(input: string): bigint | null {
+  let address = input;
+
+  // Embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+  const lastColon = address.lastIndexOf(":");
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    const v4 = parseIpv4(tail);
+    if (v4 === null) return null;
+    address = `${address.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/**
+ * Parses an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses are treated as IPv4.
+ */
+function parseIp(input: string): ParsedIp | null {
+  const v4 = parseIpv4(input);
+  if (v4 !== null) return { version: 4, value: v4 };
+
+  const v6 = parseIpv6(input);
+  if (v6 === null) return null;
+
+  if (v6 >> 32n === 0xffffn) {
+    return { version: 4, value: v6 & 0xffffffffn };
+  }
+  return { version: 6, value: v6 };
+}
+
+/**
+ * Strips ports, brackets and zone ids from a forwarded address, e.g.
+ * "203.0.113.7:443" → "203.0.113.7" and "[2001:db8::1]:443" → "2001:db8::1".
+ */
+function normalizeAddress(raw: string): string {
+  let address = raw.trim();
+
+  if (address.startsWith("[")) {
+    address = address.slice(1, address.indexOf("]"));
+  } else if (/^\d+\.\d+\.\d+\.\d+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(":"));
+  }
+
+  const zone = address.indexOf("%");
+  return zone === -1 ? address : address.slice(0, zone);
+}
+
+// =============================================================================
+// CIDR MATCHING
+// =============================================================================
+
+/**
+ * Checks whether an address falls inside a CIDR range ("10.0.0.0/8", "2001:db8::/32").
+ * A bare address without a prefix length matches only itself.
+ */
+export function isIpInCidr(ip: string, cidr: string): boolean {
+  const [rangeAddress = "", prefixPart] = cidr.trim().split("/");
+  const address = parseIp(ip);
+  const range = parseIp(rangeAddress);
+
+  if (!address || !range || address.version !== range.version) return false;
+
+  const bits = address.version === 4 ? 32 : 128;
+  const prefix = prefixPart === undefined ? bits : Number(prefixPart);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return false;
+
+  const shift = BigInt(bits - prefix);
+  return address.value >> shift === range.value >> shift;
+}
+
+// =============================================================================
+// CLIENT IP RESOLUTION
+// =============================================================================
+
+function getTrustedProxyConfig(): TrustedProxyConfig {
+  return {
+    proxyCount: env.TRUSTED_PROXY_COUNT,
+    cidrs: (env.TRUSTED_PROXY_CIDRS ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Resolves the originating client IP for a request behind one or more proxies.
+ *
+ * X-Forwarded-For is read right to left, because only the entries appended by
+ * our own proxies can be trusted; anything further left may be client-supplied.
+ * - With TRUSTED_PROXY_CIDRS set, the first hop outside those ranges is returned.
+ * - Otherwise the hop TRUSTED_PROXY_COUNT entries from the right is returned.
+ *
+ * @returns A normalized IP address, or null if none could be determined
+ */
+export function getClientIp(
+  request: Request,
+  config: TrustedProxyConfig = getTrustedProxyConfig()
+): string | null {
+  const chain = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(normalizeAddress)
+    .filter((address) => parseIp(address) !== null);
+
+  if (chain.length > 0) {
+    if (config.cidrs.length > 0) {
+      for (let i = chain.length - 1; i >= 0; i--) {
+        const hop = chain[i]!;
+        if (!config.cidrs.some((cidr) => isIpInCidr(hop, cidr))) return hop;
+      }
+      // Every hop is a trusted proxy, so the leftmost one is the client
+      return chain[0]!;
+    }
+
+    if (config.proxyCount > 0) {
+      return chain[Math.max(0, chain.length - config.proxyCount)]!;
+    }
+  }
+
+  const realIp = normalizeAddress(request.headers.get("x-real-ip") ?? "");
+  return config.proxyCount > 0 && parseIp(realIp) ? realIp : null;
+}
+
+/**
+ * Reads the User-Agent header, truncated to a sensible length for storage.
+ */
+export function getUserAgent(request: Request): string | null {
+  const userAgent = request.headers.get("user-agent")?.trim();
+  return userAgent ? userAgent.slice(0, 512) : null;
+}
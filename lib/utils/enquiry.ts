@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { parseQuantity, QuantitySchema } from "@/lib/utils/quantity";
+
 // =============================================================================
 // ZOD SCHEMAS
 // =============================================================================
@@ -10,24 +12,170 @@ export const EnquiryItemSchema = z.object({
   productTitle: z.string(),
   grade: z.string().optional(),
   packFormat: z.string().optional(),
-  quantity: z.string().optional(),
-  MOQ: z.string().optional(),
+  quantity: QuantitySchema.optional(),
+  MOQ: QuantitySchema.optional(),
   notes: z.string().optional(),
+  // Choices offered by the product in the CMS; free text is still allowed
+  gradeOptions: z.array(z.string()).max(50).optional(),
+  packFormatOptions: z.array(z.string()).max(50).optional(),
+});
+
+/**
+ * The parts of a CMS product that describe what can be ordered
+ */
+const ProductOptionsSourceSchema = z.object({
+  grades: z.array(z.string()).nullish(),
+  packFormats: z.array(z.string()).nullish(),
+  productGrading: z.array(z.object({ grade: z.string().nullish() })).nullish(),
+  specifications: z
+    .object({
+      standardDimensions: z
+        .object({
+          cartonSize: z.string().nullish(),
+          cartonType: z.string().nullish(),
+          bagSize: z.string().nullish(),
+          bagType: z.string().nullish(),
+        })
+        .nullish(),
+    })
+    .nullish(),
 });
 
 export const EnquiryListSchema = z.array(EnquiryItemSchema);
 
+/**
+ * What is written to localStorage. The version says which shape `items` has,
+ * so older carts can be upgraded instead of failing validation.
+ */
+const StorageEnvelopeSchema = z.object({
+  version: z.number().int().nonnegative(),
+  items: z.unknown(),
+});
+
 // =============================================================================
 // TYPES
 // =============================================================================
 
 export type EnquiryItem = z.infer<typeof EnquiryItemSchema>;
 
+type StorageEnvelope = z.infer<typeof StorageEnvelopeSchema>;
+type StorageMigration = (items: unknown) => unknown;
+
 // =============================================================================
 // CONSTANTS
 // =============================================================================
 
 const STORAGE_KEY = "divyansh_enquiry";
+const CHANNEL_NAME = "divyansh_enquiry";
+const UPDATE_EVENT = "enquiryUpdated";
+
+/** Bump together with a new entry in STORAGE_MIGRATIONS */
+const STORAGE_VERSION = 2;
+
+/**
+ * Upgrades stored items from version N to N + 1. Never edit an existing
+ * step: carts saved by every past release still have to walk the chain.
+ *
+ * To change EnquiryItemSchema, add the next step (for example filling a
+ * default for a new field on each item) and bump STORAGE_VERSION.
+ */
+const STORAGE_MIGRATIONS: Record<number, StorageMigration> = {
+  // v0 was a bare item array with no envelope
+  0: (items) => items,
+  // v2 replaced free-text quantity/MOQ with { amount, unit }
+  1: (items) => (Array.isArray(items) ? items.map(migrateFreeTextQuantities) : items),
+};
+
+// =============================================================================
+// STORAGE MIGRATIONS
+// =============================================================================
+
+/**
+ * Reads the envelope from stored JSON. Data written before envelopes
+ * existed (a bare array) is treated as version 0.
+ */
+function toEnvelope(parsed: unknown): StorageEnvelope {
+  if (Array.isArray(parsed)) return { version: 0, items: parsed };
+
+  const result = StorageEnvelopeSchema.safeParse(parsed);
+  return result.success ? result.data : { version: 0, items: [] };
+}
+
+/**
+ * Runs every migration step between the stored version and the current one.
+ */
+function migrateItems({ version, items }: StorageEnvelope): unknown {
+  let migrated = items;
+  for (let from = version; from < STORAGE_VERSION; from++) {
+    const migrate = STORAGE_MIGRATIONS[from];
+    if (!migrate) throw new Error(`[Enquiry] Missing storage migration from v${from}`);
+    migrated = migrate(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Wraps items in a versioned envelope for storage. Shared list snapshots use
+ * the same envelope so they can be upgraded like the cart.
+ */
+export function createStorageEnvelope<T>(items: T): { version: number; items: T } {
+  return { version: STORAGE_VERSION, items };
+}
+
+/**
+ * Upgrades stored items (an envelope, or a bare array from before envelopes)
+ * to the current item shape. The result still has to be validated.
+ */
+export function upgradeStoredItems(stored: unknown): unknown {
+  const envelope = toEnvelope(stored);
+
+  // Data from a newer release: keep whatever still fits the current schema
+  return envelope.version > STORAGE_VERSION ? envelope.items : migrateItems(envelope);
+}
+
+/**
+ * Turns v1 free-text quantity and MOQ into structured quantities. Text that
+ * cannot be parsed is kept in the notes so the buyer loses nothing.
+ */
+function migrateFreeTextQuantities(item: unknown): unknown {
+  if (typeof item !== "object" || item === null) return item;
+
+  const { quantity, MOQ, ...rest } = item as Record<string, unknown>;
+  const migrated: Record<string, unknown> = { ...rest };
+
+  if (typeof quantity === "string" && quantity.trim()) {
+    const parsed = parseQuantity(quantity);
+    if (parsed) {
+      migrated["quantity"] = parsed;
+    } else {
+      const note = `Quantity: ${quantity.trim()}`;
+      migrated["notes"] = typeof rest["notes"] === "string" ? `${rest["notes"]}\n${note}` : note;
+    }
+  }
+
+  const moq = typeof MOQ === "string" ? parseQuantity(MOQ) : null;
+  if (moq) migrated["MOQ"] = moq;
+
+  return migrated;
+}
+
+/**
+ * Validates items one by one so a single bad line no longer empties the cart.
+ */
+function salvageItems(items: unknown): EnquiryItem[] {
+  if (!Array.isArray(items)) return EMPTY_ITEMS;
+
+  const valid: EnquiryItem[] = [];
+  for (const item of items) {
+    const result = EnquiryItemSchema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+    } else if (process.env.NODE_ENV === "development") {
+      console.warn("[Enquiry] Dropping invalid stored item:", result.error.flatten());
+    }
+  }
+  return valid;
+}
 
 // =============================================================================
 // SNAPSHOT CACHING (Required for useSyncExternalStore)
@@ -41,34 +189,138 @@ let cachedStorageValue: string | null = null;
 const EMPTY_ITEMS: EnquiryItem[] = [];
 
 /**
- * Internal function to read and parse localStorage
+ * Internal function to parse, migrate and validate the stored value
  */
-function readFromStorage(): EnquiryItem[] {
+function readFromStorage(stored: string | null): EnquiryItem[] {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
     if (!stored) return EMPTY_ITEMS;
 
-    const parsed = JSON.parse(stored);
-    const result = EnquiryListSchema.safeParse(parsed);
-
-    if (!result.success) {
-      if (process.env.NODE_ENV === "development") {
-        console.warn("[Enquiry] Invalid storage data:", result.error.flatten());
-      }
-      return EMPTY_ITEMS;
-    }
-
-    return result.data;
+    return salvageItems(upgradeStoredItems(JSON.parse(stored)));
   } catch (error) {
     console.error("[Enquiry] Failed to retrieve items:", error);
     return EMPTY_ITEMS;
   }
 }
 
+// =============================================================================
+// CROSS-TAB SYNC
+// =============================================================================
+
+// One channel per tab: a BroadcastChannel never receives its own messages,
+// so same-tab listeners are reached through the window event instead.
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Tells every subscriber in this tab and in other tabs/windows that the
+ * stored list changed. Called by every mutation below.
+ */
+function notifyEnquiryUpdated(): void {
+  window.dispatchEvent(new Event(UPDATE_EVENT));
+  getChannel()?.postMessage({ type: UPDATE_EVENT });
+}
+
+/**
+ * Subscribes to enquiry list changes from this tab and every other tab.
+ * Pass to useSyncExternalStore together with getEnquiryItems.
+ *
+ * Other tabs are observed through both the `storage` event and a
+ * BroadcastChannel; either is enough, and duplicate notifications are free
+ * because getEnquiryItems only returns a new snapshot when storage changed.
+ */
+export function subscribeToEnquiryItems(callback: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    // key is null when another tab calls localStorage.clear()
+    if (event.key === STORAGE_KEY || event.key === null) callback();
+  };
+
+  const channel = getChannel();
+  window.addEventListener(UPDATE_EVENT, callback);
+  window.addEventListener("storage", handleStorage);
+  channel?.addEventListener("message", callback);
+
+  return () => {
+    window.removeEventListener(UPDATE_EVENT, callback);
+    window.removeEventListener("storage", handleStorage);
+    channel?.removeEventListener("message", callback);
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Generates a unique local item ID
+ */
+function createItemId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * Trims, drops blanks and removes case-insensitive duplicates
+ */
+function uniqueOptions(values: Array<string | null | undefined>): string[] {
+  const seen = new Set<string>();
+  const options: string[] = [];
+  for (const value of values) {
+    const option = value?.trim();
+    if (!option || seen.has(option.toLowerCase())) continue;
+    seen.add(option.toLowerCase());
+    options.push(option);
+  }
+  return options;
+}
+
+/**
+ * Identifies a logical enquiry line independent of its local ID
+ */
+function getLineKey(item: Omit<EnquiryItem, "id">): string {
+  const quantity = item.quantity ? `${item.quantity.amount}${item.quantity.unit}` : undefined;
+  return [item.productId, item.grade, item.packFormat, quantity]
+    .map((part) => part?.trim().toLowerCase() ?? "")
+    .join("|");
+}
+
 // =============================================================================
 // UTILITIES
 // =============================================================================
 
+/**
+ * Collects the grades and pack formats a product offers, in CMS order.
+ * Grades come from `productGrading[].grade` (plus the legacy `grades` list);
+ * pack formats from the carton and bag in `specifications.standardDimensions`
+ * (plus the legacy `packFormats` list).
+ */
+export function getProductEnquiryOptions(product: unknown): {
+  gradeOptions: string[];
+  packFormatOptions: string[];
+} {
+  const result = ProductOptionsSourceSchema.safeParse(product);
+  if (!result.success) return { gradeOptions: [], packFormatOptions: [] };
+
+  const { grades, packFormats, productGrading, specifications } = result.data;
+  const dimensions = specifications?.standardDimensions;
+
+  const pack = (size?: string | null, type?: string | null) =>
+    [size, type].filter((part) => part?.trim()).join(" ");
+
+  return {
+    gradeOptions: uniqueOptions([...(productGrading ?? []).map((g) => g.grade), ...(grades ?? [])]),
+    packFormatOptions: uniqueOptions([
+      pack(dimensions?.cartonSize, dimensions?.cartonType),
+      pack(dimensions?.bagSize, dimensions?.bagType),
+      ...(packFormats ?? []),
+    ]),
+  };
+}
+
 /**
  * Retrieves the enquiry list from local storage with schema validation.
  * Returns a cached reference to ensure useSyncExternalStore stability.
@@ -86,13 +338,13 @@ export function getEnquiryItems(): EnquiryItem[] {
 
   // Update cache with new data
   cachedStorageValue = currentStorageValue;
-  cachedItems = readFromStorage();
+  cachedItems = readFromStorage(currentStorageValue);
 
   return cachedItems;
 }
 
 /**
- * Saves the enquiry list to local storage.
+ * Saves the enquiry list to local storage and notifies subscribers in all tabs.
  */
 export function saveEnquiryItems(items: EnquiryItem[]): void {
   if (typeof window === "undefined") return;
@@ -101,7 +353,8 @@ export function saveEnquiryItems(items: EnquiryItem[]): void {
     // Validate before saving to ensure integrity
     const result = EnquiryListSchema.safeParse(items);
     if (result.success) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(result.data));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(createStorageEnvelope(result.data)));
+      notifyEnquiryUpdated();
     } else {
       console.error("[Enquiry] Attempted to save invalid items:", result.error);
     }
@@ -110,16 +363,17 @@ export function saveEnquiryItems(items: EnquiryItem[]): void {
   }
 }
 
+// Mutations below re-read storage right before writing and change only the
+// lines they target, so edits made in another tab are never overwritten by
+// a stale in-memory copy.
+
 /**
  * Adds a new item to the enquiry list.
  * Auto-generates a unique ID.
  */
 export function addEnquiryItem(item: Omit<EnquiryItem, "id">): EnquiryItem[] {
   const items = getEnquiryItems();
-  const newItem: EnquiryItem = {
-    ...item,
-    id: `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
-  };
+  const newItem: EnquiryItem = { ...item, id: createItemId() };
 
   // Prevent duplicate logical items if needed (optional optimization)
   // For now, we allow multiple same products with potentially different configs
@@ -149,6 +403,32 @@ export function removeEnquiryItem(id: string): EnquiryItem[] {
   return updated;
 }
 
+/**
+ * Restores items from a shared enquiry link.
+ * "replace" discards the local list; "merge" appends shared lines that are
+ * not already present with the same product, grade, pack format and quantity.
+ */
+export function restoreEnquiryItems(
+  incoming: Array<Omit<EnquiryItem, "id">>,
+  mode: "merge" | "replace"
+): EnquiryItem[] {
+  const current = mode === "merge" ? getEnquiryItems() : [];
+  const seen = new Set(current.map(getLineKey));
+
+  const added = incoming
+    .filter((item) => {
+      const key = getLineKey(item);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((item) => ({ ...item, id: createItemId() }));
+
+  const updated = [...current, ...added];
+  saveEnquiryItems(updated);
+  return updated;
+}
+
 /**
  * Clears all items from the enquiry list.
  */
@@ -156,6 +436,7 @@ export function clearEnquiryItems(): void {
   if (typeof window === "undefined") return;
   try {
     localStorage.removeItem(STORAGE_KEY);
+    notifyEnquiryUpdated();
   } catch (error) {
     console.error("[Enquiry] Failed to clear items:", error);
   }
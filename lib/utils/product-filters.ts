@@ -0,0 +1,174 @@
+import { z } from "zod";
+
+import type { Language } from "@/context/LanguageContext";
+import { getLocalized, isLocaleString, LANGUAGES } from "@/lib/i18n";
+
+// =============================================================================
+// ZOD SCHEMAS
+// =============================================================================
+
+export const PRODUCT_SORTS = ["order", "title"] as const;
+
+const optionalText = z
+  .string()
+  .trim()
+  .max(100)
+  .transform((value) => value || undefined)
+  .optional()
+  .catch(undefined);
+
+/**
+ * Filters accepted by the product listing, parsed from URL search params.
+ * Invalid values are dropped rather than rejected so a bad link still renders.
+ */
+export const ProductFiltersSchema = z.object({
+  q: optionalText,
+  category: optionalText,
+  origin: optionalText,
+  application: optionalText,
+  sort: z.enum(PRODUCT_SORTS).optional().catch(undefined),
+});
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ProductFilters = z.infer<typeof ProductFiltersSchema>;
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+/**
+ * The product fields the listing filters on, as returned by productsQuery
+ */
+export interface FilterableProduct {
+  title?: unknown;
+  description?: unknown;
+  category?: string | null | undefined;
+  specifications?: { origin?: string | null | undefined } | null | undefined;
+  applications?: string[] | null | undefined;
+}
+
+export interface ProductFacets {
+  categories: string[];
+  origins: string[];
+  applications: string[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Lower-cases and strips accents so "creme" finds "Crème"
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Every translation of a localized field, so a shared search link finds the
+ * same products whichever language the visitor reads in. Only language keys
+ * are read, so system values such as `_type` never match a search.
+ */
+function getAllLocales(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (!isLocaleString(value)) return [];
+  return LANGUAGES.map((language) => value[language]).filter((text): text is string =>
+    Boolean(text)
+  );
+}
+
+function uniqueSorted(values: Array<string | null | undefined>): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Normalizes raw Next.js search params (which may contain arrays) into filters.
+ */
+export function parseProductFilters(
+  searchParams: Record<string, string | string[] | undefined>
+): ProductFilters {
+  const flat = Object.fromEntries(
+    Object.entries(searchParams).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value[0] : value,
+    ])
+  );
+  return ProductFiltersSchema.parse(flat);
+}
+
+/**
+ * Serializes filters back into a query string, leaving out defaults so the
+ * unfiltered listing keeps its plain URL.
+ */
+export function toProductFiltersQuery(filters: ProductFilters): string {
+  const params = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (!value || (key === "sort" && value === "order")) continue;
+    params.set(key, value);
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * Whether any filter narrows the list (sorting alone does not)
+ */
+export function hasActiveProductFilters(filters: ProductFilters): boolean {
+  return Boolean(filters.q || filters.category || filters.origin || filters.application);
+}
+
+/**
+ * Values offered by each filter, taken from the products themselves
+ */
+export function getProductFacets(products: FilterableProduct[]): ProductFacets {
+  return {
+    categories: uniqueSorted(products.map((product) => product.category)),
+    origins: uniqueSorted(products.map((product) => product.specifications?.origin)),
+    applications: uniqueSorted(products.flatMap((product) => product.applications ?? [])),
+  };
+}
+
+/**
+ * Applies the filters and sort to products already in display order.
+ * Search matches every word against the titles and descriptions in all languages.
+ */
+export function filterProducts<T extends FilterableProduct>(
+  products: T[],
+  filters: ProductFilters,
+  language: Language
+): T[] {
+  const words = normalize(filters.q ?? "")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const matches = products.filter((product) => {
+    if (filters.category && product.category !== filters.category) return false;
+    if (filters.origin && product.specifications?.origin !== filters.origin) return false;
+    if (filters.application && !product.applications?.includes(filters.application)) {
+      return false;
+    }
+    if (words.length === 0) return true;
+
+    const haystack = normalize(
+      [...getAllLocales(product.title), ...getAllLocales(product.description)].join(" ")
+    );
+    return words.every((word) => haystack.includes(word));
+  });
+
+  if (filters.sort !== "title") return matches;
+
+  const titleOf = ({ title }: T) =>
+    getLocalized(typeof title === "string" || isLocaleString(title) ? title : undefined, language);
+  return [...matches].sort((a, b) => titleOf(a).localeCompare(titleOf(b), language));
+}
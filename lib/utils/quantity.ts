@@ -0,0 +1,183 @@
+import { z } from "zod";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const QUANTITY_UNITS = ["kg", "mt", "cartons", "container_20ft", "container_40ft"] as const;
+
+/** Largest amount the Decimal(14,3) quantity and MOQ columns can store */
+export const MAX_QUANTITY_AMOUNT = 99_999_999_999.999;
+
+/**
+ * Nominal net weight of one unit in kilograms, used when a quantity has to be
+ * compared or totalled across different units. Kilograms and metric tonnes
+ * convert exactly; cartons and containers depend on the product and packing,
+ * so callers that know better (e.g. from a product's carton size) can pass
+ * their own weights.
+ */
+export const DEFAULT_UNIT_WEIGHTS_KG: Record<QuantityUnit, number> = {
+  kg: 1,
+  mt: 1000,
+  cartons: 10,
+  container_20ft: 18000,
+  container_40ft: 26000,
+};
+
+export const DEFAULT_UNIT_LABELS: Record<QuantityUnit, string> = {
+  kg: "kg",
+  mt: "MT",
+  cartons: "cartons",
+  container_20ft: "20ft container",
+  container_40ft: "40ft container",
+};
+
+// Weights convert exactly; cartons and containers only by nominal weight
+const MASS_UNITS: ReadonlySet<QuantityUnit> = new Set(["kg", "mt"]);
+
+// Counted units read as "2 × 40ft container" rather than "2 40ft container"
+const COUNTED_UNITS: ReadonlySet<QuantityUnit> = new Set(["container_20ft", "container_40ft"]);
+
+// Free-text spellings seen in old carts and CMS values
+const UNIT_ALIASES: Array<[RegExp, QuantityUnit]> = [
+  [/^(kg|kgs|kilo|kilos|kilogram|kilograms)$/, "kg"],
+  [/^(mt|t|ton|tons|tonne|tonnes|metric tons?|metric tonnes?)$/, "mt"],
+  [/^(carton|cartons|ctn|ctns|box|boxes)$/, "cartons"],
+  [/^(20|20ft|20'|20 ft|20 feet|20fcl)( container| fcl)?$/, "container_20ft"],
+  [/^(40|40ft|40'|40 ft|40 feet|40fcl|40hc)( container| fcl)?$/, "container_40ft"],
+  [/^(fcl|container|containers)$/, "container_20ft"],
+];
+
+// =============================================================================
+// ZOD SCHEMAS
+// =============================================================================
+
+export const QuantityUnitSchema = z.enum(QUANTITY_UNITS);
+
+export const QuantitySchema = z.object({
+  amount: z.number().positive().finite().max(MAX_QUANTITY_AMOUNT),
+  unit: QuantityUnitSchema,
+});
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type QuantityUnit = z.infer<typeof QuantityUnitSchema>;
+export type Quantity = z.infer<typeof QuantitySchema>;
+export type UnitWeights = Partial<Record<QuantityUnit, number>>;
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Converts a quantity to kilograms using nominal (or overridden) unit weights.
+ */
+export function toKilograms(quantity: Quantity, weights: UnitWeights = {}): number {
+  const perUnit = weights[quantity.unit] ?? DEFAULT_UNIT_WEIGHTS_KG[quantity.unit];
+  return quantity.amount * perUnit;
+}
+
+/**
+ * Converts a quantity to another unit.
+ * @example convertQuantity({ amount: 2500, unit: "kg" }, "mt") // { amount: 2.5, unit: "mt" }
+ */
+export function convertQuantity(
+  quantity: Quantity,
+  unit: QuantityUnit,
+  weights: UnitWeights = {}
+): Quantity {
+  if (quantity.unit === unit) return quantity;
+
+  const perUnit = weights[unit] ?? DEFAULT_UNIT_WEIGHTS_KG[unit];
+  return { amount: toKilograms(quantity, weights) / perUnit, unit };
+}
+
+/**
+ * True when a quantity in one unit converts to the other without nominal
+ * weights: the units match, or both are kilograms/tonnes. Prices must be
+ * quoted per such a unit so a line amount is never an estimate.
+ */
+export function convertsExactly(from: QuantityUnit, to: QuantityUnit): boolean {
+  return from === to || (MASS_UNITS.has(from) && MASS_UNITS.has(to));
+}
+
+/**
+ * Adds up quantities in the requested unit. Missing entries are skipped.
+ */
+export function sumQuantities(
+  quantities: Array<Quantity | undefined | null>,
+  unit: QuantityUnit,
+  weights: UnitWeights = {}
+): Quantity | null {
+  const present = quantities.filter((q): q is Quantity => Boolean(q));
+  if (present.length === 0) return null;
+
+  const amount = present.reduce((total, q) => total + convertQuantity(q, unit, weights).amount, 0);
+  return { amount, unit };
+}
+
+/**
+ * True when the requested quantity is below the minimum order.
+ * Same-unit comparisons are exact; mixed units are compared in kilograms.
+ */
+export function isBelowMoq(
+  quantity: Quantity | undefined | null,
+  moq: Quantity | undefined | null,
+  weights: UnitWeights = {}
+): boolean {
+  if (!quantity || !moq) return false;
+  if (quantity.unit === moq.unit) return quantity.amount < moq.amount;
+  return toKilograms(quantity, weights) < toKilograms(moq, weights);
+}
+
+// =============================================================================
+// FORMATTING & PARSING
+// =============================================================================
+
+/**
+ * Formats a quantity for display, e.g. "2.5 MT" or "1 × 40ft container".
+ */
+export function formatQuantity(
+  quantity: Quantity | undefined | null,
+  options: { locale?: string; labels?: Partial<Record<QuantityUnit, string>> } = {}
+): string {
+  if (!quantity) return "";
+
+  const amount = new Intl.NumberFormat(options.locale ?? "en", {
+    maximumFractionDigits: 3,
+  }).format(quantity.amount);
+  const label = options.labels?.[quantity.unit] ?? DEFAULT_UNIT_LABELS[quantity.unit];
+
+  return COUNTED_UNITS.has(quantity.unit) ? `${amount} × ${label}` : `${amount} ${label}`;
+}
+
+/**
+ * Reads a free-text quantity such as "500 kg", "1,000kgs", "2 MT" or
+ * "1 x 40ft container". Returns null when the text cannot be understood.
+ */
+export function parseQuantity(text: string | undefined | null): Quantity | null {
+  if (!text) return null;
+
+  const match = /^\s*(\d[\d,]*(?:\.\d+)?)\s*(?:x|×)?\s*(.*?)\s*$/i.exec(text);
+  if (!match?.[1]) return null;
+
+  const amount = Number(match[1].replace(/,/g, ""));
+  const unitText = (match[2] ?? "").toLowerCase().replace(/\s+/g, " ");
+  const unit = UNIT_ALIASES.find(([pattern]) => pattern.test(unitText))?.[1];
+
+  const result = QuantitySchema.safeParse({ amount, unit });
+  return result.success ? result.data : null;
+}
+
+/**
+ * Accepts either a structured quantity or legacy free text (as still found
+ * in older CMS documents) and returns a quantity, or null.
+ */
+export function toQuantity(value: unknown): Quantity | null {
+  if (typeof value === "string") return parseQuantity(value);
+
+  const result = QuantitySchema.safeParse(value);
+  return result.success ? result.data : null;
+}
@@ -1,5 +1,8 @@
 import { z } from "zod";
 
+import { LANGUAGES } from "@/lib/i18n";
+import { QuantitySchema } from "@/lib/utils/quantity";
+
 // =============================================================================
 // VALIDATION CONFIGURATION
 // =============================================================================
@@ -60,9 +63,10 @@ export const createTradeEnquirySchema = (config: ValidationConfig = DEFAULT_VALI
     phone: z.string().min(config.phoneMinLength, { message: config.phoneRequiredError }),
     country: z.string().min(config.countryMinLength, { message: config.countryRequiredError }),
     productInterest: z.array(z.string()).optional(),
-    quantity: z.string().optional(),
+    quantity: QuantitySchema.optional(),
     message: z.string().min(config.messageMinLength, { message: config.messageMinError }),
     honeypot: z.string().max(config.honeypotMaxLength).optional(), // Hidden field for spam protection
+    language: z.enum(LANGUAGES).optional(), // Used for the acknowledgement email
   });
 
 // =============================================================================
@@ -0,0 +1,93 @@
+import "server-only";
+
+import { z } from "zod";
+
+import { env } from "@/lib/env";
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from "@/lib/webhooks/events";
+
+// =============================================================================
+// ZOD SCHEMAS
+// =============================================================================
+
+const WebhookEndpointSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/i, "Use letters, numbers, dashes or underscores"),
+  url: z.string().url(),
+  secret: z.string().min(16),
+  events: z.array(z.enum([...WEBHOOK_EVENT_TYPES, "*"])).default(["*"]),
+});
+
+const WebhookEndpointListSchema = z.array(WebhookEndpointSchema);
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  events: Array<WebhookEventType | "*">;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const LEGACY_ENDPOINT_ID = "default";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+let cachedEndpoints: WebhookEndpoint[] | null = null;
+
+/**
+ * Reads the configured endpoints from `WEBHOOK_ENDPOINTS` (a JSON array)
+ * plus the single `ENQUIRY_WEBHOOK_URL`, which subscribes to every event.
+ * Invalid configuration (including an `ENQUIRY_WEBHOOK_URL` without its
+ * signing secret) is logged and ignored rather than failing enquiry submissions.
+ */
+export function getWebhookEndpoints(): WebhookEndpoint[] {
+  if (cachedEndpoints) return cachedEndpoints;
+
+  const endpoints: WebhookEndpoint[] = [];
+
+  if (env.WEBHOOK_ENDPOINTS) {
+    try {
+      const result = WebhookEndpointListSchema.safeParse(JSON.parse(env.WEBHOOK_ENDPOINTS));
+      if (result.success) {
+        endpoints.push(...result.data);
+      } else {
+        console.error("[Webhooks] Invalid WEBHOOK_ENDPOINTS:", result.error.issues);
+      }
+    } catch (error: unknown) {
+      console.error("[Webhooks] WEBHOOK_ENDPOINTS is not valid JSON:", error);
+    }
+  }
+
+  if (env.ENQUIRY_WEBHOOK_URL && !endpoints.some((e) => e.id === LEGACY_ENDPOINT_ID)) {
+    if (env.ENQUIRY_WEBHOOK_SECRET) {
+      endpoints.push({
+        id: LEGACY_ENDPOINT_ID,
+        url: env.ENQUIRY_WEBHOOK_URL,
+        secret: env.ENQUIRY_WEBHOOK_SECRET,
+        events: ["*"],
+      });
+    } else {
+      console.error(
+        "[Webhooks] ENQUIRY_WEBHOOK_URL is ignored: set ENQUIRY_WEBHOOK_SECRET to sign its payloads"
+      );
+    }
+  }
+
+  cachedEndpoints = endpoints;
+  return endpoints;
+}
+
+export function getWebhookEndpoint(id: string): WebhookEndpoint | undefined {
+  return getWebhookEndpoints().find((endpoint) => endpoint.id === id);
+}
+
+export function isSubscribed(endpoint: WebhookEndpoint, type: WebhookEventType): boolean {
+  return endpoint.events.includes("*") || endpoint.events.includes(type);
+}
@@ -0,0 +1,158 @@
+import { randomUUID } from "node:crypto";
+
+import type { EnquiryStatus, EnquiryType, Prisma, QuantityUnit } from "@prisma/client";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Envelope/payload version. Bump when a field is removed or changes meaning;
+ * adding fields is backwards compatible and keeps the version.
+ */
+export const WEBHOOK_VERSION = 1;
+
+export const WEBHOOK_EVENT_TYPES = ["enquiry.created", "enquiry.status_changed"] as const;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/** Structured counterpart of the display text in `quantity` / `moq` */
+export interface WebhookQuantity {
+  amount: number;
+  unit: QuantityUnit;
+}
+
+export interface EnquiryCreatedData {
+  id: string;
+  reference: string;
+  type: EnquiryType;
+  status: EnquiryStatus;
+  language: string | null;
+  contact: {
+    name: string;
+    email: string;
+    phone: string | null;
+    company: string | null;
+    role: string | null;
+    country: string | null;
+  };
+  message: string;
+  productInterest: string[];
+  quantity: string | null;
+  quantityValue: WebhookQuantity | null;
+  items: Array<{
+    productId: string | null;
+    productTitle: string;
+    grade: string | null;
+    packFormat: string | null;
+    quantity: string | null;
+    quantityValue: WebhookQuantity | null;
+    moq: string | null;
+    moqValue: WebhookQuantity | null;
+    notes: string | null;
+  }>;
+  createdAt: string;
+}
+
+export interface EnquiryStatusChangedData {
+  id: string;
+  reference: string;
+  fromStatus: EnquiryStatus;
+  toStatus: EnquiryStatus;
+  actor: string;
+  note: string | null;
+  changedAt: string;
+}
+
+export interface WebhookEventDataMap {
+  "enquiry.created": EnquiryCreatedData;
+  "enquiry.status_changed": EnquiryStatusChangedData;
+}
+
+/**
+ * Body of every outbound webhook. `id` is stable across retries so receivers
+ * can deduplicate deliveries.
+ */
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  type: T;
+  version: typeof WEBHOOK_VERSION;
+  createdAt: string;
+  data: WebhookEventDataMap[T];
+}
+
+type EnquiryWithItems = Prisma.EnquiryGetPayload<{ include: { items: true } }>;
+
+// =============================================================================
+// BUILDERS
+// =============================================================================
+
+export function createWebhookEvent<T extends WebhookEventType>(
+  type: T,
+  data: WebhookEventDataMap[T]
+): WebhookEvent<T> {
+  return {
+    id: `evt_${randomUUID()}`,
+    type,
+    version: WEBHOOK_VERSION,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+}
+
+function toWebhookQuantity(
+  amount: Prisma.Decimal | null,
+  unit: QuantityUnit | null
+): WebhookQuantity | null {
+  return amount !== null && unit !== null ? { amount: amount.toNumber(), unit } : null;
+}
+
+/**
+ * Serializes a stored enquiry into the `enquiry.created` payload
+ */
+export function toEnquiryCreatedData(
+  enquiry: EnquiryWithItems,
+  reference: string
+): EnquiryCreatedData {
+  const productInterest = Array.isArray(enquiry.productInterest)
+    ? enquiry.productInterest.filter((value): value is string => typeof value === "string")
+    : [];
+
+  return {
+    id: enquiry.id,
+    reference,
+    type: enquiry.type,
+    status: enquiry.status,
+    language: enquiry.language,
+    contact: {
+      name: enquiry.name,
+      email: enquiry.email,
+      phone: enquiry.phone,
+      company: enquiry.company,
+      role: enquiry.role,
+      country: enquiry.country,
+    },
+    message: enquiry.message,
+    productInterest,
+    quantity: enquiry.quantity,
+    quantityValue: toWebhookQuantity(enquiry.quantityAmount, enquiry.quantityUnit),
+    items: [...enquiry.items]
+      .sort((a, b) => a.position - b.position)
+      .map((item) => ({
+        productId: item.productId,
+        productTitle: item.productTitle,
+        grade: item.grade,
+        packFormat: item.packFormat,
+        quantity: item.quantity,
+        quantityValue: toWebhookQuantity(item.quantityAmount, item.quantityUnit),
+        moq: item.moq,
+        moqValue: toWebhookQuantity(item.moqAmount, item.moqUnit),
+        notes: item.notes,
+      })),
+    createdAt: enquiry.createdAt.toISOString(),
+  };
+}
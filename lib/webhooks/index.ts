@@ -0,0 +1,57 @@
+import "server-only";
+
+import type { OutboxMessageInput } from "@/lib/outbox/types";
+import { getWebhookEndpoints, isSubscribed } from "@/lib/webhooks/endpoints";
+import type { WebhookEvent } from "@/lib/webhooks/events";
+import { WEBHOOK_HEADERS } from "@/lib/webhooks/signature";
+
+export type {
+  EnquiryCreatedData,
+  EnquiryStatusChangedData,
+  WebhookEvent,
+  WebhookEventType,
+} from "@/lib/webhooks/events";
+export {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_VERSION,
+  createWebhookEvent,
+  toEnquiryCreatedData,
+} from "@/lib/webhooks/events";
+export type { WebhookEndpoint } from "@/lib/webhooks/endpoints";
+export { getWebhookEndpoint, getWebhookEndpoints } from "@/lib/webhooks/endpoints";
+export {
+  WEBHOOK_HEADERS,
+  computeWebhookSignature,
+  signWebhookRequest,
+  verifyWebhookSignature,
+} from "@/lib/webhooks/signature";
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Fans an event out to every subscribed endpoint as outbox messages.
+ * The body is serialized once so every retry delivers identical bytes;
+ * signatures are added at delivery time so their timestamps stay fresh.
+ */
+export function toWebhookOutboxMessages(event: WebhookEvent): OutboxMessageInput[] {
+  const body = JSON.stringify(event);
+
+  return getWebhookEndpoints()
+    .filter((endpoint) => isSubscribed(endpoint, event.type))
+    .map((endpoint) => ({
+      kind: "webhook",
+      payload: {
+        endpointId: endpoint.id,
+        url: endpoint.url,
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_HEADERS.id]: event.id,
+          [WEBHOOK_HEADERS.event]: event.type,
+        },
+        body,
+      },
+    }));
+}
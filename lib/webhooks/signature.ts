@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const WEBHOOK_HEADERS = {
+  id: "X-Webhook-Id",
+  event: "X-Webhook-Event",
+  timestamp: "X-Webhook-Timestamp",
+  signature: "X-Webhook-Signature",
+} as const;
+
+/** Receivers should reject requests whose timestamp is older than this */
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_SCHEME = "v1";
+
+// =============================================================================
+// SIGNING
+// =============================================================================
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, hex encoded.
+ * Including the timestamp in the signed content stops an old request from
+ * being replayed with a fresh timestamp header.
+ */
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Builds the timestamp and signature headers for one delivery attempt
+ */
+export function signWebhookRequest(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  return {
+    [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+    [WEBHOOK_HEADERS.signature]: `${SIGNATURE_SCHEME}=${computeWebhookSignature(secret, timestamp, body)}`,
+  };
+}
+
+/**
+ * Reference verifier for receivers (and our own tests of an endpoint).
+ * Accepts a signature header holding several comma-separated `v1=` values,
+ * which allows secrets to be rotated without downtime.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  timestampHeader: string | null,
+  signatureHeader: string | null,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const timestamp = Number(timestampHeader);
+  if (!signatureHeader || !Number.isInteger(timestamp)) return false;
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(computeWebhookSignature(secret, timestamp, body));
+
+  return signatureHeader.split(",").some((part) => {
+    const [scheme, value] = part.trim().split("=", 2);
+    if (scheme !== SIGNATURE_SCHEME || !value) return false;
+    const received = Buffer.from(value);
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+}
@@ -46,6 +46,14 @@ const nextConfig = {
     optimizePackageImports: ["@sanity/ui", "@sanity/icons"],
   },
 
+  // PDF routes read the bundled Noto fonts from disk at render time
+  outputFileTracingIncludes: {
+    "/api/enquiry/pdf": ["./assets/fonts/**/*"],
+    "/admin/quotations/[id]/pdf": ["./assets/fonts/**/*"],
+    "/products/[slug]/spec-sheet.pdf": ["./assets/fonts/**/*"],
+    "/catalogue/catalogue.pdf": ["./assets/fonts/**/*"],
+  },
+
   images: {
     formats: ["image/avif", "image/webp"],
     localPatterns: [
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "EnquiryType" ADD VALUE 'builder';
+
+-- CreateTable
+CREATE TABLE "enquiry_items" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "enquiry_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "product_id" VARCHAR(255),
+    "product_title" VARCHAR(255) NOT NULL,
+    "grade" VARCHAR(255),
+    "pack_format" VARCHAR(255),
+    "quantity" VARCHAR(100),
+    "moq" VARCHAR(100),
+    "notes" TEXT,
+
+    CONSTRAINT "enquiry_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "enquiry_items_enquiry_id_idx" ON "enquiry_items"("enquiry_id");
+
+-- CreateIndex
+CREATE INDEX "enquiry_items_product_id_idx" ON "enquiry_items"("product_id");
+
+-- AddForeignKey
+ALTER TABLE "enquiry_items" ADD CONSTRAINT "enquiry_items_enquiry_id_fkey" FOREIGN KEY ("enquiry_id") REFERENCES "enquiries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
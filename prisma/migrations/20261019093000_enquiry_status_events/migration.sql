@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "enquiry_status_events" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "enquiry_id" TEXT NOT NULL,
+    "actor" VARCHAR(255) NOT NULL,
+    "from_status" "EnquiryStatus" NOT NULL,
+    "to_status" "EnquiryStatus" NOT NULL,
+    "note" TEXT,
+
+    CONSTRAINT "enquiry_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "enquiry_status_events_enquiry_id_created_at_idx" ON "enquiry_status_events"("enquiry_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "enquiry_status_events_to_status_created_at_idx" ON "enquiry_status_events"("to_status", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "enquiry_status_events" ADD CONSTRAINT "enquiry_status_events_enquiry_id_fkey" FOREIGN KEY ("enquiry_id") REFERENCES "enquiries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
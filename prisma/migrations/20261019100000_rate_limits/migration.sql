@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "rate_limits" (
+    "key" VARCHAR(255) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "reset_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limits_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_limits_reset_at_idx" ON "rate_limits"("reset_at");
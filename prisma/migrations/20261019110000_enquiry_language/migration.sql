@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "enquiries" ADD COLUMN     "language" VARCHAR(5);
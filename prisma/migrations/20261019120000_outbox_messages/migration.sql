@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "OutboxKind" AS ENUM ('email', 'webhook');
+
+-- CreateEnum
+CREATE TYPE "OutboxStatus" AS ENUM ('pending', 'processing', 'delivered', 'dead');
+
+-- CreateTable
+CREATE TABLE "outbox_messages" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "kind" "OutboxKind" NOT NULL,
+    "status" "OutboxStatus" NOT NULL DEFAULT 'pending',
+    "payload" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 10,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "delivered_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "enquiry_id" TEXT,
+
+    CONSTRAINT "outbox_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_messages_status_next_attempt_at_idx" ON "outbox_messages"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "outbox_messages_enquiry_id_idx" ON "outbox_messages"("enquiry_id");
+
+-- AddForeignKey
+ALTER TABLE "outbox_messages" ADD CONSTRAINT "outbox_messages_enquiry_id_fkey" FOREIGN KEY ("enquiry_id") REFERENCES "enquiries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "shared_enquiries" (
+    "code" VARCHAR(16) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "items" JSONB NOT NULL,
+    "ip_address" VARCHAR(45),
+
+    CONSTRAINT "shared_enquiries_pkey" PRIMARY KEY ("code")
+);
+
+-- CreateIndex
+CREATE INDEX "shared_enquiries_expires_at_idx" ON "shared_enquiries"("expires_at");
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "QuantityUnit" AS ENUM ('kg', 'mt', 'cartons', 'container_20ft', 'container_40ft');
+
+-- AlterTable
+ALTER TABLE "enquiries" ADD COLUMN     "quantity_amount" DECIMAL(14,3),
+ADD COLUMN     "quantity_unit" "QuantityUnit";
+
+-- AlterTable
+ALTER TABLE "enquiry_items" ADD COLUMN     "moq_amount" DECIMAL(14,3),
+ADD COLUMN     "moq_unit" "QuantityUnit",
+ADD COLUMN     "quantity_amount" DECIMAL(14,3),
+ADD COLUMN     "quantity_unit" "QuantityUnit";
+
+-- Backfill the common free-text forms ("500 kg", "2 MT"); anything else keeps only its text
+UPDATE "enquiries"
+SET "quantity_amount" = (regexp_match("quantity", '^\s*([0-9]+(?:\.[0-9]+)?)\s*(kgs?|mt|tons?|tonnes?)\s*$', 'i'))[1]::DECIMAL(14,3),
+    "quantity_unit" = CASE
+      WHEN "quantity" ~* '^\s*[0-9.]+\s*kgs?\s*$' THEN 'kg'::"QuantityUnit"
+      ELSE 'mt'::"QuantityUnit"
+    END
+WHERE "quantity" ~* '^\s*[0-9]+(\.[0-9]+)?\s*(kgs?|mt|tons?|tonnes?)\s*$';
+
+UPDATE "enquiry_items"
+SET "quantity_amount" = (regexp_match("quantity", '^\s*([0-9]+(?:\.[0-9]+)?)\s*(kgs?|mt|tons?|tonnes?)\s*$', 'i'))[1]::DECIMAL(14,3),
+    "quantity_unit" = CASE
+      WHEN "quantity" ~* '^\s*[0-9.]+\s*kgs?\s*$' THEN 'kg'::"QuantityUnit"
+      ELSE 'mt'::"QuantityUnit"
+    END
+WHERE "quantity" ~* '^\s*[0-9]+(\.[0-9]+)?\s*(kgs?|mt|tons?|tonnes?)\s*$';
+
+UPDATE "enquiry_items"
+SET "moq_amount" = (regexp_match("moq", '^\s*([0-9]+(?:\.[0-9]+)?)\s*(kgs?|mt|tons?|tonnes?)\s*$', 'i'))[1]::DECIMAL(14,3),
+    "moq_unit" = CASE
+      WHEN "moq" ~* '^\s*[0-9.]+\s*kgs?\s*$' THEN 'kg'::"QuantityUnit"
+      ELSE 'mt'::"QuantityUnit"
+    END
+WHERE "moq" ~* '^\s*[0-9]+(\.[0-9]+)?\s*(kgs?|mt|tons?|tonnes?)\s*$';
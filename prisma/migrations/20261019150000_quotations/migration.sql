@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "QuotationStatus" AS ENUM ('draft', 'issued');
+
+-- CreateEnum
+CREATE TYPE "Incoterm" AS ENUM ('EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP');
+
+-- CreateTable
+CREATE TABLE "quotations" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "number" SERIAL NOT NULL,
+    "enquiry_id" TEXT NOT NULL,
+    "status" "QuotationStatus" NOT NULL DEFAULT 'draft',
+    "created_by" VARCHAR(255) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "incoterm" "Incoterm" NOT NULL,
+    "incoterm_place" VARCHAR(255),
+    "valid_until" DATE NOT NULL,
+    "payment_terms" TEXT NOT NULL,
+    "notes" TEXT,
+    "issued_at" TIMESTAMP(3),
+
+    CONSTRAINT "quotations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quotation_items" (
+    "id" TEXT NOT NULL,
+    "quotation_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "product_title" VARCHAR(255) NOT NULL,
+    "grade" VARCHAR(255),
+    "pack_format" VARCHAR(255),
+    "quantity_amount" DECIMAL(14,3) NOT NULL,
+    "quantity_unit" "QuantityUnit" NOT NULL,
+    "unit_price" DECIMAL(14,2),
+    "price_unit" "QuantityUnit" NOT NULL,
+
+    CONSTRAINT "quotation_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quotations_number_key" ON "quotations"("number");
+
+-- CreateIndex
+CREATE INDEX "quotations_enquiry_id_idx" ON "quotations"("enquiry_id");
+
+-- CreateIndex
+CREATE INDEX "quotation_items_quotation_id_idx" ON "quotation_items"("quotation_id");
+
+-- AddForeignKey
+ALTER TABLE "quotations" ADD CONSTRAINT "quotations_enquiry_id_fkey" FOREIGN KEY ("enquiry_id") REFERENCES "enquiries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quotation_items" ADD CONSTRAINT "quotation_items_quotation_id_fkey" FOREIGN KEY ("quotation_id") REFERENCES "quotations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
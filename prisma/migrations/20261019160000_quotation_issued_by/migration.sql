@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "quotations" ADD COLUMN     "issued_by" VARCHAR(255);
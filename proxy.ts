@@ -0,0 +1,117 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import type { Language } from "@/context/LanguageContext";
+import { ADMIN_REALM, authenticateAdmin } from "@/lib/admin/auth";
+import {
+  DEFAULT_LANGUAGE,
+  isLanguage,
+  LANGUAGE_COOKIE,
+  localizePath,
+  splitLanguagePath,
+} from "@/lib/i18n";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const LANGUAGE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// =============================================================================
+// ADMIN AUTHENTICATION
+// =============================================================================
+
+/**
+ * Guards the internal /admin area with HTTP Basic Auth.
+ * Credentials come from ADMIN_CREDENTIALS; when it is unset the area is disabled.
+ */
+function guardAdmin(request: NextRequest) {
+  const username = authenticateAdmin(request.headers.get("authorization"));
+
+  if (!username) {
+    return new NextResponse("Authentication required", {
+      status: 401,
+      headers: { "WWW-Authenticate": `Basic realm="${ADMIN_REALM}", charset="UTF-8"` },
+    });
+  }
+
+  return NextResponse.next();
+}
+
+// =============================================================================
+// LOCALE ROUTING
+// =============================================================================
+
+/**
+ * First supported language in an Accept-Language header, by quality
+ */
+function negotiateLanguage(acceptLanguage: string | null): Language | null {
+  if (!acceptLanguage) return null;
+
+  const ranked = acceptLanguage
+    .split(",")
+    .map((entry) => {
+      const [tag = "", ...params] = entry.trim().split(";");
+      const quality = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.split("-")[0]?.toLowerCase(),
+        quality: quality ? Number(quality.trim().slice(2)) || 0 : 1,
+      };
+    })
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { language, quality } of ranked) {
+    if (quality > 0 && isLanguage(language)) return language;
+  }
+  return null;
+}
+
+/**
+ * Resolves the language of a website request and rewrites it onto the
+ * app/(website)/[locale] route. A locale prefix (/ar/products) wins; otherwise
+ * the cookie, then Accept-Language, decides. The result is stored in the
+ * cookie so links without a prefix stay in the visitor's language.
+ */
+function routeLocale(request: NextRequest) {
+  const { language: pathLanguage, path } = splitLanguagePath(request.nextUrl.pathname);
+  const cookieLanguage = request.cookies.get(LANGUAGE_COOKIE)?.value;
+
+  const language =
+    pathLanguage ??
+    (isLanguage(cookieLanguage) ? cookieLanguage : null) ??
+    negotiateLanguage(request.headers.get("accept-language")) ??
+    DEFAULT_LANGUAGE;
+
+  const url = request.nextUrl.clone();
+  url.pathname = localizePath(path, language);
+  const response = NextResponse.rewrite(url);
+
+  if (cookieLanguage !== language) {
+    response.cookies.set(LANGUAGE_COOKIE, language, {
+      path: "/",
+      maxAge: LANGUAGE_COOKIE_MAX_AGE,
+      sameSite: "lax",
+    });
+  }
+
+  return response;
+}
+
+// =============================================================================
+// PROXY
+// =============================================================================
+
+export function proxy(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith("/admin")) {
+    return guardAdmin(request);
+  }
+
+  return routeLocale(request);
+}
+
+export const config = {
+  matcher: [
+    "/admin/:path*",
+    // Website pages only: skip API routes, the Studio, Next.js internals and files
+    "/((?!api|studio|admin|_next|.*\\..*).*)",
+  ],
+};
@@ -5,6 +5,7 @@ import { structureTool, type StructureBuilder } from "sanity/structure";
 
 import { env } from "./lib/env";
 import { schemaTypes } from "./sanity/schemas";
+import { translationReportTool } from "./sanity/tools/translationReport";
 
 /**
  * Sanity Studio Configuration
@@ -85,6 +86,9 @@ const config: SingleWorkspace = {
     }),
   ],
 
+  // Translation coverage report alongside the Structure and Vision tools
+  tools: (prev) => [...prev, translationReportTool],
+
   schema: {
     types: schemaTypes,
 
@@ -52,6 +52,36 @@ export default defineType({
       },
       validation: (Rule) => Rule.required(),
     }),
+    defineField({
+      name: "MOQ",
+      title: "Minimum Order Quantity",
+      type: "object",
+      group: "core",
+      description: "Buyers see a warning when they request less than this",
+      fields: [
+        defineField({
+          name: "amount",
+          title: "Amount",
+          type: "number",
+          validation: (Rule) => Rule.positive(),
+        }),
+        defineField({
+          name: "unit",
+          title: "Unit",
+          type: "string",
+          initialValue: "kg",
+          options: {
+            list: [
+              { title: "kg", value: "kg" },
+              { title: "Metric tonnes (MT)", value: "mt" },
+              { title: "Cartons", value: "cartons" },
+              { title: "20ft container", value: "container_20ft" },
+              { title: "40ft container", value: "container_40ft" },
+            ],
+          },
+        }),
+      ],
+    }),
     defineField({
       name: "description",
       title: "Short Description",
@@ -34,12 +34,12 @@ export default defineType({
       type: "object",
       group: "general",
       fields: [
-        { name: "home", type: "string", title: "Home Label" },
-        { name: "about", type: "string", title: "About Label" },
-        { name: "products", type: "string", title: "Products Label" },
-        { name: "contact", type: "string", title: "Contact Label" },
-        { name: "catalogue", type: "string", title: "Catalogue Label" },
-        { name: "productsLabel", type: "string", title: "Products Dropdown Label" },
+        { name: "home", type: "localeString", title: "Home Label" },
+        { name: "about", type: "localeString", title: "About Label" },
+        { name: "products", type: "localeString", title: "Products Label" },
+        { name: "contact", type: "localeString", title: "Contact Label" },
+        { name: "catalogue", type: "localeString", title: "Catalogue Label" },
+        { name: "productsLabel", type: "localeString", title: "Products Dropdown Label" },
         { name: "homeUrl", type: "string", title: "Home URL" },
         { name: "aboutUrl", type: "string", title: "About URL" },
         { name: "productsUrl", type: "string", title: "Products URL" },
@@ -53,17 +53,17 @@ export default defineType({
       type: "object",
       group: "general",
       fields: [
-        { name: "companyTitle", type: "string", title: "Company Title" },
-        { name: "companyDescription", type: "text", title: "Company Description", rows: 2 },
-        { name: "quickLinksTitle", type: "string", title: "Quick Links Title" },
-        { name: "productsTitle", type: "string", title: "Products Title" },
-        { name: "certificationsTitle", type: "string", title: "Certifications Title" },
-        { name: "isoLabel", type: "string", title: "ISO Label" },
-        { name: "fssaiLabel", type: "string", title: "FSSAI Label" },
-        { name: "copyrightText", type: "string", title: "Copyright Text" },
-        { name: "servingText", type: "string", title: "Serving Region Text" },
-        { name: "privacyPolicyText", type: "string", title: "Privacy Policy Link Text" },
-        { name: "privacyNote", type: "string", title: "Privacy Note (Small)" },
+        { name: "companyTitle", type: "localeString", title: "Company Title" },
+        { name: "companyDescription", type: "localeText", title: "Company Description" },
+        { name: "quickLinksTitle", type: "localeString", title: "Quick Links Title" },
+        { name: "productsTitle", type: "localeString", title: "Products Title" },
+        { name: "certificationsTitle", type: "localeString", title: "Certifications Title" },
+        { name: "isoLabel", type: "localeString", title: "ISO Label" },
+        { name: "fssaiLabel", type: "localeString", title: "FSSAI Label" },
+        { name: "copyrightText", type: "localeString", title: "Copyright Text" },
+        { name: "servingText", type: "localeString", title: "Serving Region Text" },
+        { name: "privacyPolicyText", type: "localeString", title: "Privacy Policy Link Text" },
+        { name: "privacyNote", type: "localeString", title: "Privacy Note (Small)" },
       ],
     }),
 
@@ -122,26 +122,27 @@ export default defineType({
       type: "object",
       group: "labels",
       fields: [
-        { name: "nameLabel", type: "string", title: "Name" },
-        { name: "emailLabel", type: "string", title: "Email" },
-        { name: "phoneLabel", type: "string", title: "Phone" },
-        { name: "messageLabel", type: "string", title: "Message" },
-        { name: "companyLabel", type: "string", title: "Company" },
-        { name: "roleLabel", type: "string", title: "Role" },
-        { name: "countryLabel", type: "string", title: "Country" },
-        { name: "productInterestLabel", type: "string", title: "Product Interest" },
-        { name: "quantityLabel", type: "string", title: "Quantity" },
-        { name: "tradeQuantityPlaceholder", type: "string", title: "Trade Qty Placeholder" },
-        { name: "submitButton", type: "string", title: "Submit Button" },
-        { name: "submittingButton", type: "string", title: "Submitting Button" },
-        { name: "successMessage", type: "string", title: "Success Message" },
-        { name: "errorMessage", type: "string", title: "Error Message" },
+        { name: "nameLabel", type: "localeString", title: "Name" },
+        { name: "emailLabel", type: "localeString", title: "Email" },
+        { name: "phoneLabel", type: "localeString", title: "Phone" },
+        { name: "messageLabel", type: "localeString", title: "Message" },
+        { name: "companyLabel", type: "localeString", title: "Company" },
+        { name: "roleLabel", type: "localeString", title: "Role" },
+        { name: "countryLabel", type: "localeString", title: "Country" },
+        { name: "productInterestLabel", type: "localeString", title: "Product Interest" },
+        { name: "quantityLabel", type: "localeString", title: "Quantity" },
+        { name: "tradeQuantityPlaceholder", type: "localeString", title: "Trade Qty Placeholder" },
+        { name: "quantityUnitLabel", type: "localeString", title: "Trade Qty Unit (Aria)" },
+        { name: "submitButton", type: "localeString", title: "Submit Button" },
+        { name: "submittingButton", type: "localeString", title: "Submitting Button" },
+        { name: "successMessage", type: "localeString", title: "Success Message" },
+        { name: "errorMessage", type: "localeString", title: "Error Message" },
         { name: "requiredIndicator", type: "string", title: "Required *" },
         { name: "honeypotTabIndex", type: "number", title: "Honeypot Index" },
         { name: "generalEnquiryEndpoint", type: "string", title: "General Endpoint" },
         { name: "tradeEnquiryEndpoint", type: "string", title: "Trade Endpoint" },
-        { name: "sampleRequestMessage", type: "string", title: "Sample Message Template" },
-        { name: "enquiryListIntro", type: "string", title: "Enquiry List Intro" },
+        { name: "sampleRequestMessage", type: "localeString", title: "Sample Message Template" },
+        { name: "enquiryListIntro", type: "localeString", title: "Enquiry List Intro" },
         { name: "populateEventName", type: "string", title: "Populate Event Name" },
         { name: "defaultTab", type: "string", title: "Default Tab" },
         { name: "tabValueGeneral", type: "string", title: "General Tab Value" },
@@ -161,7 +162,6 @@ export default defineType({
         { name: "quantityLabel", type: "string", title: "Qty Label" },
         { name: "moqLabel", type: "string", title: "MOQ Label" },
         // States
-        { name: "emptyStateText", type: "string", title: "Empty State" },
         { name: "pdfError", type: "string", title: "PDF Error" },
         { name: "emptyEnquiryError", type: "string", title: "Empty Enquiry Error" },
         { name: "openBuilderAria", type: "string", title: "Open Aria" },
@@ -176,19 +176,17 @@ export default defineType({
         { name: "editLabel", type: "string", title: "Edit" },
         { name: "removeAriaLabel", type: "string", title: "Remove Aria" },
         // Sections
-        defineField({
-          name: "spiralQuoteSection",
-          title: "Spiral Quote Button",
-          type: "object",
-          fields: [{ name: "buttonText", type: "string", title: "Button Text" }],
-        }),
         defineField({
           name: "floatingBar",
           title: "Floating Bar",
           type: "object",
           fields: [
-            { name: "item", type: "string", title: "Item (Singular)" },
-            { name: "items", type: "string", title: "Items (Plural)" },
+            {
+              name: "itemCount",
+              type: "string",
+              title: "Item Count",
+              description: "Use {count, plural, one {# Item} other {# Items}} for both forms",
+            },
             { name: "inYourEnquiry", type: "string", title: "In Your Enquiry" },
             { name: "readyToSubmit", type: "string", title: "Ready To Submit Text" },
             { name: "viewEnquiry", type: "string", title: "View Button" },
@@ -208,6 +206,30 @@ export default defineType({
             { name: "clearAll", type: "string", title: "Clear Button" },
             { name: "confirmClear", type: "string", title: "Confirm Clear msg" },
             { name: "closePanelAria", type: "string", title: "Close Aria" },
+            { name: "shareList", type: "string", title: "Share Button" },
+            { name: "shareSuccess", type: "string", title: "Share Link Copied msg" },
+            { name: "shareError", type: "string", title: "Share Error msg" },
+          ],
+        }),
+        defineField({
+          name: "sharedList",
+          title: "Shared List Page",
+          description: "Shown when someone opens a shared enquiry link",
+          type: "object",
+          fields: [
+            { name: "eyebrow", type: "string", title: "Eyebrow" },
+            { name: "title", type: "string", title: "Title" },
+            { name: "description", type: "text", title: "Description", rows: 2 },
+            { name: "addLabel", type: "string", title: "Add Button" },
+            { name: "mergeLabel", type: "string", title: "Merge Button" },
+            { name: "replaceLabel", type: "string", title: "Replace Button" },
+            {
+              name: "existingItemsNotice",
+              type: "string",
+              title: "Existing Items Notice",
+              description: "Use {count} for the number of items already in the visitor's list",
+            },
+            { name: "restoredMessage", type: "string", title: "Restored msg" },
           ],
         }),
         defineField({
@@ -314,8 +336,42 @@ export default defineType({
         { name: "backToProducts", type: "string", title: "Back Link" },
         { name: "heroPlaceholder", type: "string", title: "Hero Placeholder" },
         { name: "programSuffix", type: "string", title: "Program Suffix" },
+        { name: "downloadSpecSheet", type: "string", title: "Spec Sheet Link" },
       ],
     }),
+    defineField({
+      name: "productFilters",
+      title: "Product Filters",
+      type: "object",
+      group: "pages",
+      fields: [
+        { name: "searchLabel", type: "string", title: "Search Label" },
+        { name: "searchPlaceholder", type: "string", title: "Search Placeholder" },
+        { name: "categoryLabel", type: "string", title: "Category Label" },
+        { name: "originLabel", type: "string", title: "Origin Label" },
+        { name: "applicationLabel", type: "string", title: "Application Label" },
+        { name: "allOption", type: "string", title: "All Option" },
+        { name: "sortLabel", type: "string", title: "Sort Label" },
+        { name: "sortOrder", type: "string", title: "Sort: Featured" },
+        { name: "sortTitle", type: "string", title: "Sort: Name" },
+        { name: "clearLabel", type: "string", title: "Clear Filters" },
+        {
+          name: "resultsLabel",
+          type: "string",
+          title: "Results Count",
+          description:
+            "Use {count, plural, one {# product} other {# products}} for the number of products shown",
+        },
+        { name: "noResults", type: "string", title: "No Results Message" },
+      ],
+    }),
+    defineField({
+      name: "catalogueViewer",
+      title: "Catalogue Viewer",
+      type: "object",
+      group: "pages",
+      fields: [{ name: "downloadPdf", type: "string", title: "Download PDF Button" }],
+    }),
     defineField({
       name: "productList",
       title: "Product List View",
@@ -427,12 +483,12 @@ export default defineType({
       type: "object",
       group: "api",
       fields: [
-        { name: "rateLimitError", type: "string", title: "Rate Limit Error" },
-        { name: "validationError", type: "string", title: "Validation Error" },
-        { name: "serverError", type: "string", title: "Server Error" },
-        { name: "enquirySuccess", type: "string", title: "Success Message" },
-        { name: "pdfGenerationError", type: "string", title: "PDF Gen Error" },
-        { name: "pdfGenerationSuccess", type: "string", title: "PDF Gen Success" },
+        { name: "rateLimitError", type: "localeString", title: "Rate Limit Error" },
+        { name: "validationError", type: "localeString", title: "Validation Error" },
+        { name: "serverError", type: "localeString", title: "Server Error" },
+        { name: "enquirySuccess", type: "localeString", title: "Success Message" },
+        { name: "pdfGenerationError", type: "localeString", title: "PDF Gen Error" },
+        { name: "pdfGenerationSuccess", type: "localeString", title: "PDF Gen Success" },
       ],
     }),
     defineField({
@@ -442,16 +498,26 @@ export default defineType({
       group: "api",
       fields: [
         { name: "nameMinLength", type: "number", title: "Name Min Length" },
-        { name: "nameMinError", type: "string", title: "Name Error" },
-        { name: "emailInvalidError", type: "string", title: "Email Error" },
+        {
+          name: "nameMinError",
+          type: "localeString",
+          title: "Name Error",
+          description: "Use {min} for the minimum length",
+        },
+        { name: "emailInvalidError", type: "localeString", title: "Email Error" },
         { name: "messageMinLength", type: "number", title: "Message Min Length" },
-        { name: "messageMinError", type: "string", title: "Message Error" },
+        {
+          name: "messageMinError",
+          type: "localeString",
+          title: "Message Error",
+          description: "Use {min} for the minimum length",
+        },
         { name: "companyMinLength", type: "number", title: "Company Min Length" },
-        { name: "companyRequiredError", type: "string", title: "Company Error" },
+        { name: "companyRequiredError", type: "localeString", title: "Company Error" },
         { name: "phoneMinLength", type: "number", title: "Phone Min Length" },
-        { name: "phoneRequiredError", type: "string", title: "Phone Error" },
+        { name: "phoneRequiredError", type: "localeString", title: "Phone Error" },
         { name: "countryMinLength", type: "number", title: "Country Min Length" },
-        { name: "countryRequiredError", type: "string", title: "Country Error" },
+        { name: "countryRequiredError", type: "localeString", title: "Country Error" },
         { name: "honeypotMaxLength", type: "number", title: "Honeypot Max Length" },
       ],
     }),
@@ -503,21 +569,62 @@ export default defineType({
       fields: [
         { name: "fromName", type: "string", title: "Sender Name" },
         { name: "fromEmail", type: "string", title: "Sender Email" },
-        { name: "generalSubject", type: "string", title: "Subject: General" },
-        { name: "tradeSubject", type: "string", title: "Subject: Trade" },
-        { name: "newGeneralEnquiryTitle", type: "string", title: "Title: General" },
-        { name: "newTradeEnquiryTitle", type: "string", title: "Title: Trade" },
-        { name: "nameLabel", type: "string", title: "Name Label" },
-        { name: "emailLabel", type: "string", title: "Email Label" },
-        { name: "phoneLabel", type: "string", title: "Phone Label" },
-        { name: "messageLabel", type: "string", title: "Message Label" },
-        { name: "companyLabel", type: "string", title: "Company Label" },
-        { name: "roleLabel", type: "string", title: "Role Label" },
-        { name: "countryLabel", type: "string", title: "Country Label" },
-        { name: "productsLabel", type: "string", title: "Products Label" },
-        { name: "quantityLabel", type: "string", title: "Qty Label" },
-        { name: "naText", type: "string", title: "N/A Text" },
-        { name: "noneText", type: "string", title: "None Text" },
+        { name: "generalSubject", type: "localeString", title: "Subject: General" },
+        { name: "tradeSubject", type: "localeString", title: "Subject: Trade" },
+        { name: "newGeneralEnquiryTitle", type: "localeString", title: "Title: General" },
+        { name: "newTradeEnquiryTitle", type: "localeString", title: "Title: Trade" },
+        { name: "nameLabel", type: "localeString", title: "Name Label" },
+        { name: "emailLabel", type: "localeString", title: "Email Label" },
+        { name: "phoneLabel", type: "localeString", title: "Phone Label" },
+        { name: "messageLabel", type: "localeString", title: "Message Label" },
+        { name: "companyLabel", type: "localeString", title: "Company Label" },
+        { name: "roleLabel", type: "localeString", title: "Role Label" },
+        { name: "countryLabel", type: "localeString", title: "Country Label" },
+        { name: "productsLabel", type: "localeString", title: "Products Label" },
+        { name: "quantityLabel", type: "localeString", title: "Qty Label" },
+        { name: "naText", type: "localeString", title: "N/A Text" },
+        { name: "noneText", type: "localeString", title: "None Text" },
+        {
+          name: "acknowledgement",
+          title: "Customer Acknowledgement",
+          type: "object",
+          description:
+            "Auto-reply sent to the submitter of a quote request. Use {name} and {reference} as placeholders.",
+          fields: [
+            { name: "enabled", type: "boolean", title: "Send Acknowledgement" },
+            { name: "subject", type: "localeString", title: "Subject" },
+            { name: "heading", type: "localeString", title: "Heading" },
+            { name: "greeting", type: "localeString", title: "Greeting" },
+            { name: "intro", type: "localeText", title: "Intro" },
+            { name: "referenceLabel", type: "localeString", title: "Reference Label" },
+            { name: "summaryTitle", type: "localeString", title: "Summary Title" },
+            { name: "productsLabel", type: "localeString", title: "Products Label" },
+            { name: "quantityLabel", type: "localeString", title: "Qty Label" },
+            { name: "notSpecifiedText", type: "localeString", title: "Not Specified Text" },
+            { name: "responseTime", type: "localeText", title: "Expected Response Time" },
+            { name: "signOff", type: "localeText", title: "Sign-off" },
+          ],
+        },
+        {
+          name: "statusUpdate",
+          title: "Customer Status Update",
+          type: "object",
+          description:
+            "Sent from the admin dashboard when a status change is emailed to the customer. Use {name} and {reference} as placeholders.",
+          fields: [
+            { name: "subject", type: "localeString", title: "Subject" },
+            { name: "heading", type: "localeString", title: "Heading" },
+            { name: "greeting", type: "localeString", title: "Greeting" },
+            { name: "intro", type: "localeText", title: "Intro" },
+            { name: "referenceLabel", type: "localeString", title: "Reference Label" },
+            { name: "statusLabel", type: "localeString", title: "Status Label" },
+            { name: "statusContacted", type: "localeString", title: "Status: Contacted" },
+            { name: "statusQualified", type: "localeString", title: "Status: Qualified" },
+            { name: "statusConverted", type: "localeString", title: "Status: Converted" },
+            { name: "statusClosed", type: "localeString", title: "Status: Closed" },
+            { name: "signOff", type: "localeText", title: "Sign-off" },
+          ],
+        },
       ],
     }),
 
@@ -529,34 +636,104 @@ export default defineType({
       title: "PDF Styling & Logic",
       type: "object",
       group: "pdf",
+      description: "Languages left empty fall back to the built-in translations",
       fields: [
         { name: "companyName", type: "string", title: "Company Name" },
-        { name: "title", type: "string", title: "Doc Title" },
-        { name: "dateLabel", type: "string", title: "Date Label" },
-        { name: "referenceLabel", type: "string", title: "Ref Label" },
+        { name: "title", type: "localeString", title: "Doc Title" },
+        { name: "dateLabel", type: "localeString", title: "Date Label" },
+        { name: "referenceLabel", type: "localeString", title: "Ref Label" },
         { name: "referencePrefix", type: "string", title: "Ref Prefix" },
-        { name: "contactDetailsLabel", type: "string", title: "Contact Label" },
-        { name: "nameLabel", type: "string", title: "Name Label" },
-        { name: "companyLabel", type: "string", title: "Company Label" },
-        { name: "emailLabel", type: "string", title: "Email Label" },
-        { name: "phoneLabel", type: "string", title: "Phone Label" },
+        { name: "contactDetailsLabel", type: "localeString", title: "Contact Label" },
+        { name: "nameLabel", type: "localeString", title: "Name Label" },
+        { name: "companyLabel", type: "localeString", title: "Company Label" },
+        { name: "emailLabel", type: "localeString", title: "Email Label" },
+        { name: "phoneLabel", type: "localeString", title: "Phone Label" },
         { name: "indexLabel", type: "string", title: "Idx Label" },
-        { name: "naText", type: "string", title: "N/A Text" },
+        { name: "totalVolumeLabel", type: "localeString", title: "Total Volume Label" },
+        { name: "naText", type: "localeString", title: "N/A Text" },
         { name: "emptyFieldText", type: "string", title: "Empty Text" },
         { name: "filenamePrefix", type: "string", title: "File Prefix" },
-        { name: "footerText1", type: "string", title: "Footer 1" },
-        { name: "footerText2", type: "string", title: "Footer 2" },
+        { name: "footerText1", type: "localeString", title: "Footer 1" },
+        { name: "footerText2", type: "localeString", title: "Footer 2" },
         {
           name: "tableHeaders",
           type: "object",
           title: "Table Headers",
           fields: [
-            { name: "product", type: "string" },
-            { name: "grade", type: "string" },
-            { name: "packFormat", type: "string" },
-            { name: "quantity", type: "string" },
-            { name: "moq", type: "string" },
-            { name: "notes", type: "string" },
+            { name: "product", type: "localeString" },
+            { name: "grade", type: "localeString" },
+            { name: "packFormat", type: "localeString" },
+            { name: "quantity", type: "localeString" },
+            { name: "moq", type: "localeString" },
+            { name: "notes", type: "localeString" },
+          ],
+        },
+        {
+          name: "quotation",
+          type: "object",
+          title: "Quotation Labels",
+          fields: [
+            { name: "title", type: "localeString", title: "Doc Title" },
+            { name: "quoteNumberLabel", type: "localeString", title: "Quote No. Label" },
+            { name: "enquiryReferenceLabel", type: "localeString", title: "Enquiry Ref Label" },
+            { name: "preparedForLabel", type: "localeString", title: "Prepared For Label" },
+            { name: "validUntilLabel", type: "localeString", title: "Valid Until Label" },
+            { name: "incotermLabel", type: "localeString", title: "Incoterm Label" },
+            { name: "paymentTermsLabel", type: "localeString", title: "Payment Terms Label" },
+            { name: "unitPriceHeader", type: "localeString", title: "Unit Price Header" },
+            { name: "amountHeader", type: "localeString", title: "Amount Header" },
+            { name: "totalLabel", type: "localeString", title: "Total Label" },
+            { name: "remarksLabel", type: "localeString", title: "Remarks Label" },
+            { name: "priceOnRequestText", type: "localeString", title: "Price On Request Text" },
+            { name: "footerText", type: "localeString", title: "Footer" },
+          ],
+        },
+        {
+          name: "specSheet",
+          type: "object",
+          title: "Spec Sheet Labels",
+          description: "Used by the generated spec sheet when a product has no uploaded PDF",
+          fields: [
+            { name: "title", type: "localeString", title: "Doc Title" },
+            { name: "categoryLabel", type: "localeString", title: "Category Label" },
+            { name: "specificationsLabel", type: "localeString", title: "Specifications Heading" },
+            { name: "originLabel", type: "localeString", title: "Origin Label" },
+            { name: "varietyLabel", type: "localeString", title: "Variety Label" },
+            { name: "packagingLabel", type: "localeString", title: "Packaging Label" },
+            { name: "shelfLifeLabel", type: "localeString", title: "Shelf Life Label" },
+            { name: "storageLabel", type: "localeString", title: "Storage Label" },
+            { name: "qualityLabel", type: "localeString", title: "Quality Label" },
+            { name: "logisticsLabel", type: "localeString", title: "Logistics Label" },
+            { name: "moqLabel", type: "localeString", title: "MOQ Label" },
+            {
+              name: "standardPackagingLabel",
+              type: "localeString",
+              title: "Standard Packaging Heading",
+            },
+            { name: "cartonLabel", type: "localeString", title: "Carton Label" },
+            { name: "bagLabel", type: "localeString", title: "Bag Label" },
+            { name: "gradesLabel", type: "localeString", title: "Grades Heading" },
+            { name: "gradeHeader", type: "localeString", title: "Grade Header" },
+            { name: "descriptionHeader", type: "localeString", title: "Description Header" },
+            { name: "varietiesLabel", type: "localeString", title: "Varieties Heading" },
+            { name: "applicationsLabel", type: "localeString", title: "Applications Heading" },
+            { name: "footerText", type: "localeString", title: "Footer" },
+          ],
+        },
+        {
+          name: "catalogue",
+          type: "object",
+          title: "Catalogue Labels",
+          description: "Cover, contents and back page of the generated catalogue PDF",
+          fields: [
+            { name: "title", type: "localeString", title: "Cover Title" },
+            { name: "subtitle", type: "localeString", title: "Cover Subtitle" },
+            { name: "editionLabel", type: "localeString", title: "Edition Label" },
+            { name: "contentsLabel", type: "localeString", title: "Contents Heading" },
+            { name: "tagline", type: "localeString", title: "Back Page Tagline" },
+            { name: "thankYouText", type: "localeString", title: "Back Page Thank You" },
+            { name: "valuesText", type: "localeString", title: "Back Page Values" },
+            { name: "websiteText", type: "localeString", title: "Website" },
           ],
         },
         {
@@ -591,7 +768,7 @@ export default defineType({
             {
               name: "columnWidths",
               type: "object",
-              title: "Column Widths",
+              title: "Column Widths (relative)",
               fields: [
                 { name: "index", type: "number" },
                 { name: "product", type: "number" },
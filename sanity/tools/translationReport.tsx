@@ -0,0 +1,190 @@
+import { TranslateIcon } from "@sanity/icons";
+import { useCallback, useEffect, useMemo, useState, type CSSProperties } from "react";
+import { useClient, type Tool } from "sanity";
+import { IntentLink } from "sanity/router";
+
+import type { Language } from "@/context/LanguageContext";
+import { DEFAULT_LANGUAGE, LANGUAGES } from "@/lib/i18n";
+import {
+  COVERAGE_DOCUMENTS_QUERY,
+  createTranslationReport,
+  formatCoverage,
+  type CoverageDocument,
+  type TranslationReport,
+} from "@/lib/i18n/coverage";
+
+/**
+ * Translation Report Studio Tool
+ * Shows per-language coverage of localeString/localeText fields and links
+ * every missing translation to its document. Same report as
+ * `pnpm sanity:translation-report`.
+ */
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = {
+  container: { padding: "1.5rem", maxWidth: "72rem", margin: "0 auto" },
+  header: { display: "flex", alignItems: "center", gap: "1rem", marginBottom: "1rem" },
+  title: { fontSize: "1.25rem", fontWeight: 600, margin: 0, flex: 1 },
+  muted: { opacity: 0.7, fontSize: "0.875rem" },
+  table: { width: "100%", borderCollapse: "collapse", fontSize: "0.875rem", marginTop: "1rem" },
+  cell: {
+    textAlign: "start",
+    padding: "0.5rem 0.75rem",
+    borderBottom: "1px solid var(--card-border-color, rgba(128, 128, 128, 0.3))",
+  },
+  button: { padding: "0.375rem 0.75rem", cursor: "pointer" },
+  error: { color: "var(--card-badge-critical-fg-color, #d0021b)" },
+} satisfies Record<string, CSSProperties>;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+function TranslationReportTool() {
+  const client = useClient({ apiVersion: "2024-01-01" });
+  const [report, setReport] = useState<TranslationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [language, setLanguage] = useState<Language | "all">("all");
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const documents = await client
+        .withConfig({ perspective: "published" })
+        .fetch<CoverageDocument[]>(COVERAGE_DOCUMENTS_QUERY);
+      setReport(createTranslationReport(documents));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load documents");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const missing = useMemo(
+    () =>
+      report?.missing.filter((entry) => language === "all" || entry.language === language) ?? [],
+    [report, language]
+  );
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h1 style={styles.title}>Translation Coverage</h1>
+        <button
+          type="button"
+          style={styles.button}
+          onClick={() => void loadReport()}
+          disabled={isLoading}
+        >
+          {isLoading ? "Loading…" : "Refresh"}
+        </button>
+      </div>
+
+      {error ? <p style={styles.error}>{error}</p> : null}
+
+      {report ? (
+        <>
+          <p style={styles.muted}>
+            {report.fields} localized field(s) across {report.documents} published document(s).
+            Empty fields fall back to English on the website.
+          </p>
+
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.cell}>Language</th>
+                <th style={styles.cell}>Translated</th>
+                <th style={styles.cell}>Missing</th>
+                <th style={styles.cell}>Coverage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.languages.map((entry) => (
+                <tr key={entry.language}>
+                  <td style={styles.cell}>{entry.language}</td>
+                  <td style={styles.cell}>
+                    {entry.translated}/{entry.total}
+                  </td>
+                  <td style={styles.cell}>{entry.missing}</td>
+                  <td style={styles.cell}>{formatCoverage(entry.coverage)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ ...styles.header, marginTop: "2rem" }}>
+            <h2 style={{ ...styles.title, fontSize: "1rem" }}>
+              Missing Translations ({missing.length})
+            </h2>
+            <select
+              aria-label="Filter by language"
+              value={language}
+              onChange={(event) => setLanguage(event.target.value as Language | "all")}
+            >
+              <option value="all">All languages</option>
+              {LANGUAGES.filter((code) => code !== DEFAULT_LANGUAGE).map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {missing.length === 0 ? (
+            <p style={styles.muted}>Nothing missing.</p>
+          ) : (
+            <table style={styles.table}>
+              <thead>
+                <tr>
+                  <th style={styles.cell}>Language</th>
+                  <th style={styles.cell}>Document</th>
+                  <th style={styles.cell}>Type</th>
+                  <th style={styles.cell}>Field</th>
+                </tr>
+              </thead>
+              <tbody>
+                {missing.map((entry) => (
+                  <tr key={`${entry.language}:${entry.documentId}:${entry.path}`}>
+                    <td style={styles.cell}>{entry.language}</td>
+                    <td style={styles.cell}>
+                      <IntentLink
+                        intent="edit"
+                        params={{ id: entry.documentId, type: entry.documentType }}
+                      >
+                        {entry.documentTitle}
+                      </IntentLink>
+                    </td>
+                    <td style={styles.cell}>{entry.documentType}</td>
+                    <td style={styles.cell}>
+                      <code>{entry.path}</code>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+// =============================================================================
+// TOOL
+// =============================================================================
+
+export const translationReportTool: Tool = {
+  name: "translations",
+  title: "Translations",
+  icon: TranslateIcon,
+  component: TranslationReportTool,
+};
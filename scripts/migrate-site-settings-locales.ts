@@ -0,0 +1,325 @@
+/**
+ * Site Settings Locale Migration
+ * Converts the siteSettings label groups that moved from plain `string`/`text`
+ * fields to `localeString`/`localeText` objects. Existing values become the
+ * English translation; other languages are left empty for editors to fill in.
+ * Enquiry labels that no longer match a catalogue message are moved onto the
+ * message they override, or removed.
+ *
+ * Usage: pnpm sanity:migrate-locales [--dry-run]
+ */
+
+import { createClient } from "@sanity/client";
+
+const requiredEnvVars = {
+  NEXT_PUBLIC_SANITY_PROJECT_ID: process.env["NEXT_PUBLIC_SANITY_PROJECT_ID"],
+  NEXT_PUBLIC_SANITY_DATASET: process.env["NEXT_PUBLIC_SANITY_DATASET"],
+  SANITY_API_TOKEN: process.env["SANITY_API_TOKEN"],
+};
+
+const missingVars = Object.entries(requiredEnvVars)
+  .filter(([, value]) => !value)
+  .map(([key]) => key);
+
+if (missingVars.length > 0) {
+  console.error("❌ Missing Required Environment Variables:");
+  missingVars.forEach((varName) => console.error(`   - ${varName}`));
+  console.error("\n💡 Please Check Your .env.local File.");
+  process.exit(1);
+}
+
+// Raw perspective so drafts are migrated alongside published documents
+const client = createClient({
+  projectId: process.env["NEXT_PUBLIC_SANITY_PROJECT_ID"]!,
+  dataset: process.env["NEXT_PUBLIC_SANITY_DATASET"]!,
+  token: process.env["SANITY_API_TOKEN"]!,
+  useCdn: false,
+  apiVersion: process.env["NEXT_PUBLIC_SANITY_API_VERSION"]!,
+  perspective: "raw",
+});
+
+const isDryRun = process.argv.includes("--dry-run");
+
+// =============================================================================
+// MIGRATED FIELDS
+// =============================================================================
+
+// Must match the localeString fields in sanity/schemas/siteSettings.ts
+const LOCALE_STRING_FIELDS: Record<string, string[]> = {
+  navigation: ["home", "about", "products", "contact", "catalogue", "productsLabel"],
+  footer: [
+    "companyTitle",
+    "quickLinksTitle",
+    "productsTitle",
+    "certificationsTitle",
+    "isoLabel",
+    "fssaiLabel",
+    "copyrightText",
+    "servingText",
+    "privacyPolicyText",
+    "privacyNote",
+  ],
+  forms: [
+    "nameLabel",
+    "emailLabel",
+    "phoneLabel",
+    "messageLabel",
+    "companyLabel",
+    "roleLabel",
+    "countryLabel",
+    "productInterestLabel",
+    "quantityLabel",
+    "tradeQuantityPlaceholder",
+    "quantityUnitLabel",
+    "submitButton",
+    "submittingButton",
+    "successMessage",
+    "errorMessage",
+    "sampleRequestMessage",
+    "enquiryListIntro",
+  ],
+  apiMessages: [
+    "rateLimitError",
+    "validationError",
+    "serverError",
+    "enquirySuccess",
+    "pdfGenerationError",
+    "pdfGenerationSuccess",
+  ],
+  validation: [
+    "nameMinError",
+    "emailInvalidError",
+    "messageMinError",
+    "companyRequiredError",
+    "phoneRequiredError",
+    "countryRequiredError",
+  ],
+  emailTemplates: [
+    "generalSubject",
+    "tradeSubject",
+    "newGeneralEnquiryTitle",
+    "newTradeEnquiryTitle",
+    "nameLabel",
+    "emailLabel",
+    "phoneLabel",
+    "messageLabel",
+    "companyLabel",
+    "roleLabel",
+    "countryLabel",
+    "productsLabel",
+    "quantityLabel",
+    "naText",
+    "noneText",
+  ],
+  pdfTemplate: [
+    "title",
+    "dateLabel",
+    "referenceLabel",
+    "contactDetailsLabel",
+    "nameLabel",
+    "companyLabel",
+    "emailLabel",
+    "phoneLabel",
+    "totalVolumeLabel",
+    "naText",
+    "footerText1",
+    "footerText2",
+  ],
+  "pdfTemplate.tableHeaders": ["product", "grade", "packFormat", "quantity", "moq", "notes"],
+  "pdfTemplate.quotation": [
+    "title",
+    "quoteNumberLabel",
+    "enquiryReferenceLabel",
+    "preparedForLabel",
+    "validUntilLabel",
+    "incotermLabel",
+    "paymentTermsLabel",
+    "unitPriceHeader",
+    "amountHeader",
+    "totalLabel",
+    "remarksLabel",
+    "priceOnRequestText",
+    "footerText",
+  ],
+  "pdfTemplate.specSheet": [
+    "title",
+    "categoryLabel",
+    "specificationsLabel",
+    "originLabel",
+    "varietyLabel",
+    "packagingLabel",
+    "shelfLifeLabel",
+    "storageLabel",
+    "qualityLabel",
+    "logisticsLabel",
+    "moqLabel",
+    "standardPackagingLabel",
+    "cartonLabel",
+    "bagLabel",
+    "gradesLabel",
+    "gradeHeader",
+    "descriptionHeader",
+    "varietiesLabel",
+    "applicationsLabel",
+    "footerText",
+  ],
+  "pdfTemplate.catalogue": [
+    "title",
+    "subtitle",
+    "editionLabel",
+    "contentsLabel",
+    "tagline",
+    "thankYouText",
+    "valuesText",
+    "websiteText",
+  ],
+};
+
+const LOCALE_TEXT_FIELDS: Record<string, string[]> = {
+  footer: ["companyDescription"],
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+type SiteSettingsDocument = { _id: string; [key: string]: unknown };
+
+function getPath(source: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, segment) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[segment]
+          : undefined,
+      source
+    );
+}
+
+/**
+ * `set` operations for every migrated field that still holds a plain string.
+ * Fields that are already localized or empty are left alone, so the
+ * migration can be re-run safely.
+ */
+function getLocaleUpdates(doc: SiteSettingsDocument): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+
+  const collect = (fields: Record<string, string[]>, type: "localeString" | "localeText") => {
+    for (const [group, names] of Object.entries(fields)) {
+      for (const name of names) {
+        const path = `${group}.${name}`;
+        const value = getPath(doc, path);
+        if (typeof value === "string") {
+          updates[path] = { _type: type, en: value };
+        }
+      }
+    }
+  };
+
+  collect(LOCALE_STRING_FIELDS, "localeString");
+  collect(LOCALE_TEXT_FIELDS, "localeText");
+
+  return updates;
+}
+
+/**
+ * Moves the enquiry labels that were renamed in the message catalogue:
+ * floatingBar.item/items become the plural floatingBar.itemCount message and
+ * emptyStateText becomes panel.emptyState. The unused spiralQuoteSection
+ * (the home page has its own) is removed. Values already set on the new
+ * fields are kept.
+ */
+function getEnquiryUpdates(doc: SiteSettingsDocument): {
+  set: Record<string, unknown>;
+  unset: string[];
+} {
+  const set: Record<string, unknown> = {};
+  const unset: string[] = [];
+
+  const item = getPath(doc, "enquiry.floatingBar.item");
+  const items = getPath(doc, "enquiry.floatingBar.items");
+  if (typeof item === "string" || typeof items === "string") {
+    if (getPath(doc, "enquiry.floatingBar.itemCount") === undefined) {
+      const one = typeof item === "string" ? item : items;
+      const other = typeof items === "string" ? items : item;
+      set["enquiry.floatingBar.itemCount"] = `{count, plural, one {# ${one}} other {# ${other}}}`;
+    }
+    unset.push("enquiry.floatingBar.item", "enquiry.floatingBar.items");
+  }
+
+  const emptyStateText = getPath(doc, "enquiry.emptyStateText");
+  if (typeof emptyStateText === "string") {
+    const panel = getPath(doc, "enquiry.panel");
+    if (!panel || typeof panel !== "object") {
+      set["enquiry.panel"] = { emptyState: emptyStateText };
+    } else if (getPath(panel, "emptyState") === undefined) {
+      set["enquiry.panel.emptyState"] = emptyStateText;
+    }
+    unset.push("enquiry.emptyStateText");
+  }
+
+  if (getPath(doc, "enquiry.spiralQuoteSection") !== undefined) {
+    unset.push("enquiry.spiralQuoteSection");
+  }
+
+  return { set, unset };
+}
+
+// =============================================================================
+// MIGRATION
+// =============================================================================
+
+async function migrate() {
+  const documents = await client.fetch<SiteSettingsDocument[]>('*[_type == "siteSettings"]');
+
+  if (documents.length === 0) {
+    console.info("ℹ️  No siteSettings documents found.");
+    return;
+  }
+
+  const transaction = client.transaction();
+  let changedFields = 0;
+
+  for (const doc of documents) {
+    const enquiryUpdates = getEnquiryUpdates(doc);
+    const updates = { ...getLocaleUpdates(doc), ...enquiryUpdates.set };
+    const paths = [...Object.keys(updates), ...enquiryUpdates.unset];
+
+    if (paths.length === 0) {
+      console.info(`✔️  ${doc._id}: already migrated`);
+      continue;
+    }
+
+    console.info(`🔄 ${doc._id}: ${paths.length} field(s)`);
+    Object.keys(updates).forEach((path) => console.info(`   - ${path}`));
+    enquiryUpdates.unset.forEach((path) => console.info(`   - ${path} (removed)`));
+
+    transaction.patch(doc._id, (patch) => {
+      const withUpdates = Object.keys(updates).length > 0 ? patch.set(updates) : patch;
+      return enquiryUpdates.unset.length > 0
+        ? withUpdates.unset(enquiryUpdates.unset)
+        : withUpdates;
+    });
+    changedFields += paths.length;
+  }
+
+  if (changedFields === 0) {
+    console.info("\n✅ Nothing To Migrate.");
+    return;
+  }
+
+  if (isDryRun) {
+    console.info(`\n🧪 Dry Run: ${changedFields} field(s) would be migrated.`);
+    return;
+  }
+
+  await transaction.commit();
+  console.info(`\n✅ Migrated ${changedFields} field(s).`);
+}
+
+migrate().catch((err) => {
+  console.error("\n❌ Migration Failed!");
+  console.error("Error Details:", err);
+  process.exit(1);
+});
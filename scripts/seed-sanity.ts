@@ -1759,6 +1759,7 @@ const siteSettingsData = {
     backToProducts: "Back to All Products",
     heroPlaceholder: "Product Media Placeholder",
     programSuffix: " Program",
+    downloadSpecSheet: "Download Spec Sheet",
   },
   productModal: {
     closeAria: "Close modal",
@@ -1766,6 +1767,23 @@ const siteSettingsData = {
     addToEnquiry: "Add to Enquiry",
     requestSample: "Request Sample",
   },
+  productFilters: {
+    searchLabel: "Search",
+    searchPlaceholder: "Search products…",
+    categoryLabel: "Category",
+    originLabel: "Origin",
+    applicationLabel: "Application",
+    allOption: "All",
+    sortLabel: "Sort by",
+    sortOrder: "Featured",
+    sortTitle: "Name (A–Z)",
+    clearLabel: "Clear filters",
+    resultsLabel: "{count, plural, one {# product} other {# products}}",
+    noResults: "No products match these filters. Try clearing some of them.",
+  },
+  catalogueViewer: {
+    downloadPdf: "Download PDF",
+  },
   productList: {
     selectLabel: "Select",
     varietyLabel: "Variety:",
@@ -1773,12 +1791,12 @@ const siteSettingsData = {
     quantityLabel: "Quantity:",
   },
   navigation: {
-    home: "Home",
-    about: "About Us",
-    products: "Products",
-    contact: "Contact",
-    catalogue: "Catalogue",
-    productsLabel: "Products",
+    home: createLocaleString("Home"),
+    about: createLocaleString("About Us"),
+    products: createLocaleString("Products"),
+    contact: createLocaleString("Contact"),
+    catalogue: createLocaleString("Catalogue"),
+    productsLabel: createLocaleString("Products"),
     homeUrl: "/",
     aboutUrl: "/about",
     productsUrl: "/products",
@@ -1831,7 +1849,6 @@ const siteSettingsData = {
     packFormatLabel: "Pack Format",
     quantityLabel: "Quantity",
     moqLabel: "Min. Order",
-    emptyStateText: "Your enquiry is empty",
     pdfError: "Error generating PDF. Please try again.",
     emptyEnquiryError: "Please add items to your enquiry first.",
     openBuilderAria: "Open enquiry builder",
@@ -1844,8 +1861,7 @@ const siteSettingsData = {
     editLabel: "Edit",
     removeAriaLabel: "Remove item",
     floatingBar: {
-      item: "item",
-      items: "items",
+      itemCount: "{count, plural, one {# item} other {# items}}",
       inYourEnquiry: "in your enquiry",
       readyToSubmit: "Ready to submit? Get quality pricing and available sizes.",
       viewEnquiry: "View Enquiry",
@@ -1860,34 +1876,53 @@ const siteSettingsData = {
       clearAll: "Clear All",
       confirmClear: "Are you sure you want to clear all items from your enquiry?",
       closePanelAria: "Close enquiry panel",
+      shareList: "Share this list",
+      shareSuccess: "Share link copied to clipboard.",
+      shareError: "Could not create a share link. Please try again.",
+    },
+    sharedList: {
+      eyebrow: "Shared with you",
+      title: "Shared Enquiry List",
+      description:
+        "Review the products below and add them to your own enquiry list to request a quote.",
+      addLabel: "Add to my enquiry list",
+      mergeLabel: "Merge with my list",
+      replaceLabel: "Replace my list",
+      existingItemsNotice: "You already have {count} item(s) in your enquiry list.",
+      restoredMessage: "Items added to your enquiry list.",
     },
     builder: {
       buttonLabel: "Enquiry",
     },
   },
   forms: {
-    nameLabel: "Name",
-    emailLabel: "Email",
-    phoneLabel: "Phone",
-    messageLabel: "Message",
-    companyLabel: "Company",
-    roleLabel: "Role (Optional)",
-    countryLabel: "Country",
-    productInterestLabel: "Product Interest (Select all that apply)",
-    quantityLabel: "Estimated Quantity (Optional)",
-    tradeQuantityPlaceholder: "e.g., 100kg, 1 MT",
-    submitButton: "Send Message",
-    submittingButton: "Sending...",
-    successMessage:
-      "Thank you! Your enquiry has been submitted successfully. We will get back to you soon.",
-    errorMessage:
-      "There was an error submitting your enquiry. Please try again or contact us directly.",
+    nameLabel: createLocaleString("Name"),
+    emailLabel: createLocaleString("Email"),
+    phoneLabel: createLocaleString("Phone"),
+    messageLabel: createLocaleString("Message"),
+    companyLabel: createLocaleString("Company"),
+    roleLabel: createLocaleString("Role (Optional)"),
+    countryLabel: createLocaleString("Country"),
+    productInterestLabel: createLocaleString("Product Interest (Select all that apply)"),
+    quantityLabel: createLocaleString("Estimated Quantity (Optional)"),
+    tradeQuantityPlaceholder: createLocaleString("e.g., 500"),
+    quantityUnitLabel: createLocaleString("Unit"),
+    submitButton: createLocaleString("Send Message"),
+    submittingButton: createLocaleString("Sending..."),
+    successMessage: createLocaleString(
+      "Thank you! Your enquiry has been submitted successfully. We will get back to you soon."
+    ),
+    errorMessage: createLocaleString(
+      "There was an error submitting your enquiry. Please try again or contact us directly."
+    ),
     requiredIndicator: "*",
     honeypotTabIndex: -1,
     generalEnquiryEndpoint: "/api/contact/general",
     tradeEnquiryEndpoint: "/api/contact/trade",
-    sampleRequestMessage: "I am interested in requesting a sample for {product}.",
-    enquiryListIntro: "Please find the following products in my enquiry:",
+    sampleRequestMessage: createLocaleString(
+      "I am interested in requesting a sample for {product}."
+    ),
+    enquiryListIntro: createLocaleString("Please find the following products in my enquiry:"),
     populateEventName: "populateEnquiryForm",
     defaultTab: "general",
     tabValueGeneral: "general",
@@ -1896,29 +1931,60 @@ const siteSettingsData = {
   emailTemplates: {
     fromName: "Divyansh International",
     fromEmail: "onboarding@resend.dev",
-    generalSubject: "New General Enquiry:",
-    newGeneralEnquiryTitle: "New General Enquiry",
-    nameLabel: "Name",
-    emailLabel: "Email",
-    phoneLabel: "Phone",
-    messageLabel: "Message",
-    naText: "N/A",
-    tradeSubject: "New Get Quote:",
-    newTradeEnquiryTitle: "New Get Quote",
-    companyLabel: "Company",
-    roleLabel: "Role",
-    countryLabel: "Country",
-    productsLabel: "Products",
-    quantityLabel: "Quantity",
-    noneText: "None",
+    generalSubject: createLocaleString("New General Enquiry:"),
+    newGeneralEnquiryTitle: createLocaleString("New General Enquiry"),
+    nameLabel: createLocaleString("Name"),
+    emailLabel: createLocaleString("Email"),
+    phoneLabel: createLocaleString("Phone"),
+    messageLabel: createLocaleString("Message"),
+    naText: createLocaleString("N/A"),
+    tradeSubject: createLocaleString("New Get Quote:"),
+    newTradeEnquiryTitle: createLocaleString("New Get Quote"),
+    companyLabel: createLocaleString("Company"),
+    roleLabel: createLocaleString("Role"),
+    countryLabel: createLocaleString("Country"),
+    productsLabel: createLocaleString("Products"),
+    quantityLabel: createLocaleString("Quantity"),
+    noneText: createLocaleString("None"),
+    acknowledgement: {
+      enabled: true,
+      subject: createLocaleString("We have received your enquiry {reference}"),
+      heading: createLocaleString("Thank you for your enquiry"),
+      greeting: createLocaleString("Dear {name},"),
+      intro: createLocaleText(
+        "We have received your quote request and our trade team is reviewing it."
+      ),
+      referenceLabel: createLocaleString("Your reference"),
+      summaryTitle: createLocaleString("Summary of your request"),
+      productsLabel: createLocaleString("Products"),
+      quantityLabel: createLocaleString("Quantity"),
+      notSpecifiedText: createLocaleString("Not specified"),
+      responseTime: createLocaleText(
+        "Our team typically responds within 24–48 business hours. For urgent requirements, simply reply to this email."
+      ),
+      signOff: createLocaleText("Warm regards,\nDivyansh International"),
+    },
+    statusUpdate: {
+      subject: createLocaleString("Update on your enquiry {reference}"),
+      heading: createLocaleString("Your enquiry has been updated"),
+      greeting: createLocaleString("Dear {name},"),
+      intro: createLocaleText("Here is the latest status of your enquiry with us."),
+      referenceLabel: createLocaleString("Your reference"),
+      statusLabel: createLocaleString("Status"),
+      statusContacted: createLocaleString("Our team has been in touch"),
+      statusQualified: createLocaleString("Under review for quotation"),
+      statusConverted: createLocaleString("Order confirmed"),
+      statusClosed: createLocaleString("Closed"),
+      signOff: createLocaleText("Warm regards,\nDivyansh International"),
+    },
   },
   apiMessages: {
-    rateLimitError: "Too many requests. Please try again later.",
-    validationError: "Invalid form data",
-    serverError: "Internal server error",
-    enquirySuccess: "Enquiry submitted successfully",
-    pdfGenerationError: "Failed to generate PDF",
-    pdfGenerationSuccess: "PDF generated successfully",
+    rateLimitError: createLocaleString("Too many requests. Please try again later."),
+    validationError: createLocaleString("Invalid form data"),
+    serverError: createLocaleString("Internal server error"),
+    enquirySuccess: createLocaleString("Enquiry submitted successfully"),
+    pdfGenerationError: createLocaleString("Failed to generate PDF"),
+    pdfGenerationSuccess: createLocaleString("PDF generated successfully"),
   },
   apiConfig: {
     rateLimitMaxRequests: 5,
@@ -1937,16 +2003,16 @@ const siteSettingsData = {
   },
   validation: {
     nameMinLength: 2,
-    nameMinError: "Name must be at least 2 characters",
-    emailInvalidError: "Invalid email address",
+    nameMinError: createLocaleString("Name must be at least {min} characters"),
+    emailInvalidError: createLocaleString("Invalid email address"),
     messageMinLength: 10,
-    messageMinError: "Message must be at least 10 characters",
+    messageMinError: createLocaleString("Message must be at least {min} characters"),
     companyMinLength: 2,
-    companyRequiredError: "Company name is required",
+    companyRequiredError: createLocaleString("Company name is required"),
     phoneMinLength: 10,
-    phoneRequiredError: "Phone number is required",
+    phoneRequiredError: createLocaleString("Phone number is required"),
     countryMinLength: 2,
-    countryRequiredError: "Country is required",
+    countryRequiredError: createLocaleString("Country is required"),
     honeypotMaxLength: 0,
   },
   routing: {
@@ -1978,18 +2044,21 @@ const siteSettingsData = {
     paramFormType: "form_type",
   },
   footer: {
-    companyTitle: "Divyansh International",
-    companyDescription:
-      "Divyansh International is one of the largest importer and distributor of premium dry fruits in the Northern Region of India.",
-    quickLinksTitle: "Quick Links",
-    productsTitle: "Dry Fruits",
-    certificationsTitle: "Certifications",
-    isoLabel: "ISO Certified",
-    fssaiLabel: "FSSAI",
-    copyrightText: "© 2026 Divyansh International. All rights reserved.",
-    servingText: "Serving dry fruit buyers across Punjab, North India and pan-India since 1999.",
-    privacyPolicyText: "Privacy Policy",
-    privacyNote: "Your data is secure with us.",
+    companyTitle: createLocaleString("Divyansh International"),
+    companyDescription: createLocaleText(
+      "Divyansh International is one of the largest importer and distributor of premium dry fruits in the Northern Region of India."
+    ),
+    quickLinksTitle: createLocaleString("Quick Links"),
+    productsTitle: createLocaleString("Dry Fruits"),
+    certificationsTitle: createLocaleString("Certifications"),
+    isoLabel: createLocaleString("ISO Certified"),
+    fssaiLabel: createLocaleString("FSSAI"),
+    copyrightText: createLocaleString("© 2026 Divyansh International. All rights reserved."),
+    servingText: createLocaleString(
+      "Serving dry fruit buyers across Punjab, North India and pan-India since 1999."
+    ),
+    privacyPolicyText: createLocaleString("Privacy Policy"),
+    privacyNote: createLocaleString("Your data is secure with us."),
   },
   heroConfig: {
     autoPlayInterval: 8000,
@@ -2023,29 +2092,81 @@ const siteSettingsData = {
   },
   pdfTemplate: {
     companyName: "Divyansh International",
-    title: "Product Enquiry",
-    dateLabel: "Date:",
-    referenceLabel: "Reference ID:",
+    title: createLocaleString("Product Enquiry"),
+    dateLabel: createLocaleString("Date:"),
+    referenceLabel: createLocaleString("Reference ID:"),
     referencePrefix: "REF-",
-    contactDetailsLabel: "Contact Details:",
-    nameLabel: "Name:",
-    companyLabel: "Company:",
-    emailLabel: "Email:",
-    phoneLabel: "Phone:",
+    contactDetailsLabel: createLocaleString("Contact Details:"),
+    nameLabel: createLocaleString("Name:"),
+    companyLabel: createLocaleString("Company:"),
+    emailLabel: createLocaleString("Email:"),
+    phoneLabel: createLocaleString("Phone:"),
     indexLabel: "#",
-    naText: "N/A",
+    totalVolumeLabel: createLocaleString("Estimated total volume:"),
+    naText: createLocaleString("N/A"),
     emptyFieldText: "-",
     filenamePrefix: "enquiry-",
     tableHeaders: {
-      product: "Product",
-      grade: "Grade",
-      packFormat: "Pack Format",
-      quantity: "Quantity",
-      moq: "Min. Order",
-      notes: "Notes",
+      product: createLocaleString("Product"),
+      grade: createLocaleString("Grade"),
+      packFormat: createLocaleString("Pack Format"),
+      quantity: createLocaleString("Quantity"),
+      moq: createLocaleString("Min. Order"),
+      notes: createLocaleString("Notes"),
+    },
+    footerText1: createLocaleString("This is an automatically generated enquiry document."),
+    footerText2: createLocaleString("Please contact us to discuss your requirements in detail."),
+    quotation: {
+      title: createLocaleString("Proforma Quotation"),
+      quoteNumberLabel: createLocaleString("Quotation No.:"),
+      enquiryReferenceLabel: createLocaleString("Your enquiry:"),
+      preparedForLabel: createLocaleString("Prepared for:"),
+      validUntilLabel: createLocaleString("Valid until:"),
+      incotermLabel: createLocaleString("Incoterms:"),
+      paymentTermsLabel: createLocaleString("Payment terms:"),
+      unitPriceHeader: createLocaleString("Unit Price"),
+      amountHeader: createLocaleString("Amount"),
+      totalLabel: createLocaleString("Total:"),
+      remarksLabel: createLocaleString("Remarks:"),
+      priceOnRequestText: createLocaleString("On request"),
+      footerText: createLocaleString(
+        "This proforma quotation is not a tax invoice. Prices are subject to availability at the time of order confirmation."
+      ),
+    },
+    specSheet: {
+      title: createLocaleString("Product Specification Sheet"),
+      categoryLabel: createLocaleString("Category:"),
+      specificationsLabel: createLocaleString("Specifications"),
+      originLabel: createLocaleString("Origin:"),
+      varietyLabel: createLocaleString("Variety:"),
+      packagingLabel: createLocaleString("Packaging:"),
+      shelfLifeLabel: createLocaleString("Shelf life:"),
+      storageLabel: createLocaleString("Storage:"),
+      qualityLabel: createLocaleString("Quality:"),
+      logisticsLabel: createLocaleString("Logistics:"),
+      moqLabel: createLocaleString("Minimum order:"),
+      standardPackagingLabel: createLocaleString("Standard packaging"),
+      cartonLabel: createLocaleString("Carton:"),
+      bagLabel: createLocaleString("Bag:"),
+      gradesLabel: createLocaleString("Grades"),
+      gradeHeader: createLocaleString("Grade"),
+      descriptionHeader: createLocaleString("Description"),
+      varietiesLabel: createLocaleString("Varieties"),
+      applicationsLabel: createLocaleString("Applications"),
+      footerText: createLocaleString(
+        "Specifications are indicative and may vary by crop year. A certificate of analysis is available with every shipment."
+      ),
+    },
+    catalogue: {
+      title: createLocaleString("Product Catalogue"),
+      subtitle: createLocaleString("Premium Dry Fruits & Nuts"),
+      editionLabel: createLocaleString("Edition"),
+      contentsLabel: createLocaleString("Contents"),
+      tagline: createLocaleString("Bringing Nature's Finest to You"),
+      thankYouText: createLocaleString("Thank You for Choosing Us"),
+      valuesText: createLocaleString("Quality · Trust · Excellence"),
+      websiteText: createLocaleString("www.divyanshint.com"),
     },
-    footerText1: "This is an automatically generated enquiry document.",
-    footerText2: "Please contact us to discuss your requirements in detail.",
     styling: {
       fontFamily: "helvetica",
       fontStyleNormal: "normal",
@@ -0,0 +1,184 @@
+/**
+ * Translation Completeness Report
+ * Lists every localeString/localeText field that is missing a translation,
+ * per language, document and field path. Exits with code 1 when a required
+ * language's coverage is below the threshold, so it can gate CI.
+ *
+ * Usage: pnpm sanity:translation-report [--json] [--threshold=80] [--locales=ar,hi,fr]
+ *
+ * --json       Print the report as JSON instead of tables
+ * --threshold  Minimum coverage percentage for required languages (default 80)
+ * --locales    Required languages (default: every language except English)
+ */
+
+import { createClient } from "@sanity/client";
+
+import type { Language } from "@/context/LanguageContext";
+import { DEFAULT_LANGUAGE, isLanguage, LANGUAGES } from "@/lib/i18n";
+import {
+  COVERAGE_DOCUMENTS_QUERY,
+  createTranslationReport,
+  formatCoverage,
+  getCoverageFailures,
+  type CoverageDocument,
+  type TranslationReport,
+} from "@/lib/i18n/coverage";
+
+const requiredEnvVars = {
+  NEXT_PUBLIC_SANITY_PROJECT_ID: process.env["NEXT_PUBLIC_SANITY_PROJECT_ID"],
+  NEXT_PUBLIC_SANITY_DATASET: process.env["NEXT_PUBLIC_SANITY_DATASET"],
+  SANITY_API_TOKEN: process.env["SANITY_API_TOKEN"],
+};
+
+const missingVars = Object.entries(requiredEnvVars)
+  .filter(([, value]) => !value)
+  .map(([key]) => key);
+
+if (missingVars.length > 0) {
+  console.error("❌ Missing Required Environment Variables:");
+  missingVars.forEach((varName) => console.error(`   - ${varName}`));
+  console.error("\n💡 Please Check Your .env.local File.");
+  process.exit(1);
+}
+
+// Published perspective: drafts are work in progress and not yet live
+const client = createClient({
+  projectId: process.env["NEXT_PUBLIC_SANITY_PROJECT_ID"]!,
+  dataset: process.env["NEXT_PUBLIC_SANITY_DATASET"]!,
+  token: process.env["SANITY_API_TOKEN"]!,
+  useCdn: false,
+  apiVersion: process.env["NEXT_PUBLIC_SANITY_API_VERSION"]!,
+  perspective: "published",
+});
+
+// =============================================================================
+// OPTIONS
+// =============================================================================
+
+const DEFAULT_THRESHOLD = 80;
+
+function getOption(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function parseThreshold(): number {
+  const raw = getOption("threshold");
+  if (raw === undefined) return DEFAULT_THRESHOLD;
+
+  const threshold = Number(raw);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    console.error(`❌ Invalid --threshold "${raw}": expected a percentage between 0 and 100.`);
+    process.exit(1);
+  }
+  return threshold;
+}
+
+function parseLocales(): Language[] {
+  const raw = getOption("locales");
+  if (raw === undefined) return LANGUAGES.filter((language) => language !== DEFAULT_LANGUAGE);
+
+  const locales = raw.split(",").map((locale) => locale.trim());
+  const unknown = locales.filter((locale) => !isLanguage(locale));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown --locales: ${unknown.join(", ")}`);
+    console.error(`\n💡 Supported Languages: ${LANGUAGES.join(", ")}`);
+    process.exit(1);
+  }
+  return locales.filter(isLanguage);
+}
+
+const isJson = process.argv.includes("--json");
+const threshold = parseThreshold();
+const requiredLocales = parseLocales();
+
+// =============================================================================
+// OUTPUT
+// =============================================================================
+
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column]!.length))
+  );
+  const format = (cells: string[]) =>
+    cells.map((cell, column) => cell.padEnd(widths[column]!)).join("  ");
+
+  console.info(format(headers));
+  console.info(widths.map((width) => "-".repeat(width)).join("  "));
+  rows.forEach((row) => console.info(format(row)));
+}
+
+function printReport(report: TranslationReport): void {
+  console.info(`📊 ${report.fields} localized field(s) across ${report.documents} document(s)\n`);
+
+  printTable(
+    ["Language", "Required", "Translated", "Missing", "Coverage"],
+    report.languages.map((entry) => [
+      entry.language,
+      requiredLocales.includes(entry.language) ? "yes" : "no",
+      `${entry.translated}/${entry.total}`,
+      String(entry.missing),
+      formatCoverage(entry.coverage),
+    ])
+  );
+
+  if (report.missing.length === 0) return;
+
+  console.info("\n🔍 Missing Translations:\n");
+  printTable(
+    ["Language", "Document", "Type", "Field"],
+    report.missing.map((entry) => [
+      entry.language,
+      `${entry.documentTitle} (${entry.documentId})`,
+      entry.documentType,
+      entry.path,
+    ])
+  );
+}
+
+// =============================================================================
+// REPORT
+// =============================================================================
+
+async function run() {
+  const documents = await client.fetch<CoverageDocument[]>(COVERAGE_DOCUMENTS_QUERY);
+
+  const report = createTranslationReport(documents);
+  const failures = getCoverageFailures(report, requiredLocales, threshold);
+
+  if (isJson) {
+    console.info(
+      JSON.stringify(
+        {
+          threshold,
+          requiredLocales,
+          passed: failures.length === 0,
+          failures: failures.map(({ language }) => language),
+          ...report,
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    printReport(report);
+  }
+
+  if (failures.length > 0) {
+    console.error(`\n❌ Coverage Below ${threshold}%:`);
+    failures.forEach(({ language, coverage }) =>
+      console.error(`   - ${language}: ${formatCoverage(coverage)}`)
+    );
+    process.exit(1);
+  }
+
+  if (!isJson) {
+    console.info(`\n✅ All Required Languages Meet ${threshold}% Coverage.`);
+  }
+}
+
+run().catch((err) => {
+  console.error("\n❌ Report Failed!");
+  console.error("Error Details:", err);
+  process.exit(1);
+});